@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeRelationship } from '../src/lib/relationship-ontology';
+import { buildSearchIndex, createSearchDocuments } from '../src/lib/search-index';
+import { withTextEpisodes } from '../src/lib/transcript';
+import type { EpisodeTextData, GraphData, RelationshipsData } from '../src/lib/types';
+
+function readJson<T>(filePath: string): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Data file not found: ${filePath}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function main() {
+  const srcDir = path.join(process.cwd(), 'src');
+  const episodesFile = path.join(srcDir, 'data-episodes-claude.json');
+  const relationshipsFile = path.join(srcDir, 'data-relationships-claude.json');
+  const episodesTextFile = path.join(srcDir, 'data-episodes-text.json');
+  const outputFile = path.join(srcDir, 'data-search-index.json');
+
+  console.log('🔎 Building Search Index');
+  console.log('========================');
+
+  try {
+    const graphData = readJson<GraphData>(episodesFile);
+    const relationshipsData = readJson<RelationshipsData>(relationshipsFile);
+    const episodesTextData = readJson<EpisodeTextData>(episodesTextFile);
+
+    const documents = createSearchDocuments(
+      // Every transcript is searchable, not only those of the extracted episodes
+      withTextEpisodes(graphData.episodes, episodesTextData.episodes),
+      graphData.all_entities || [],
+      // Typed as in the data layer, so rel: filters and facets use ontology types
+      relationshipsData.relationships.map(normalizeRelationship),
+      episodesTextData.episodes
+    );
+    const index = buildSearchIndex(documents);
+
+    fs.writeFileSync(outputFile, JSON.stringify(index));
+
+    console.log(`📄 Documents: ${index.documents.length}`);
+    console.log(`🔤 Terms: ${Object.keys(index.postings).length}`);
+    console.log(`💾 Saved search index to: ${path.relative(process.cwd(), outputFile)}`);
+  } catch (error) {
+    console.error('❌ Failed to build search index:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildThemeIndex } from '../src/lib/topics';
+import type { EpisodeTextData, GraphData } from '../src/lib/types';
+
+function readJson<T>(filePath: string): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Data file not found: ${filePath}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function main() {
+  const srcDir = path.join(process.cwd(), 'src');
+  const episodesFile = path.join(srcDir, 'data-episodes-claude.json');
+  const episodesTextFile = path.join(srcDir, 'data-episodes-text.json');
+  const outputFile = path.join(srcDir, 'data-theme-index.json');
+
+  console.log('🧩 Building Theme Index');
+  console.log('=======================');
+
+  try {
+    const graphData = readJson<GraphData>(episodesFile);
+    const episodesTextData = readJson<EpisodeTextData>(episodesTextFile);
+
+    // Themes cover every episode with text, each linked to its episode page
+    const index = buildThemeIndex(episodesTextData.episodes, graphData.episodes);
+
+    fs.writeFileSync(outputFile, JSON.stringify(index));
+
+    const assigned = new Set(index.themes.flatMap(theme => theme.episodes.map(episode => episode.url)));
+    console.log(`🏷️ Themes: ${index.themes.length}`);
+    console.log(`📄 Episodes with themes: ${assigned.size}/${episodesTextData.episodes.length}`);
+    index.themes.slice(0, 10).forEach(theme =>
+      console.log(`   ${theme.label} (${theme.episodes.length} episodes): ${theme.phrases.slice(0, 5).join(', ')}`)
+    );
+    console.log(`💾 Saved theme index to: ${path.relative(process.cwd(), outputFile)}`);
+  } catch (error) {
+    console.error('❌ Failed to build theme index:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
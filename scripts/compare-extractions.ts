@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  compareOutputs,
+  type ComparableOutput,
+  type ComparisonReport,
+  type ConfidenceHistogram,
+  type LabelledOutput
+} from './lib/comparison';
+import { findLatestOutputs, loadEntityAliases } from './lib/outputs';
+
+type ReportFormat = 'markdown' | 'html';
+
+const BUCKET_LABELS = Array.from({ length: 10 }, (_, i) => `${(i / 10).toFixed(1)}–${((i + 1) / 10).toFixed(1)}`);
+
+// "data/nodejs-podcast-openai_20250101120000.json" is labelled "openai_20250101120000"
+function labelFor(file: string, used: Set<string>): string {
+  const base = path.basename(file, '.json').replace(/^nodejs-podcast-/, '');
+  let label = base;
+  for (let i = 2; used.has(label); i++) label = `${base}-${i}`;
+  used.add(label);
+  return label;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function typeNames(report: ComparisonReport): string[] {
+  return Array.from(new Set(report.outputs.flatMap(output => Object.keys(output.entity_types)))).sort();
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function markdownTable(header: string[], rows: (string | number)[][]): string {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell => escapeMarkdown(String(cell))).join(' | ')} |`)
+  ].join('\n');
+}
+
+function histogramRows(report: ComparisonReport, pick: (output: ComparisonReport['outputs'][number]) => ConfidenceHistogram): (string | number)[][] {
+  return BUCKET_LABELS.map((bucket, i) => [bucket, ...report.outputs.map(output => pick(output)[i])]);
+}
+
+function renderMarkdown(report: ComparisonReport): string {
+  const labels = report.outputs.map(output => output.label);
+  const lines: string[] = [
+    '# Extraction Comparison',
+    '',
+    `Generated ${report.generated_at}`,
+    '',
+    '## Outputs',
+    '',
+    markdownTable(
+      ['Output', 'Models', 'Episodes', 'Entities', 'Relationships'],
+      report.outputs.map(output => [output.label, output.models_used.join(', '), output.episodes, output.entities, output.relationships])
+    ),
+    '',
+    '## Agreement',
+    '',
+    markdownTable(
+      ['Outputs', 'Shared entities', 'Entity Jaccard', 'Shared relationships', 'Relationship Jaccard'],
+      report.pairs.map(pair => [`${pair.a} / ${pair.b}`, pair.shared_entities, percent(pair.entity_jaccard), pair.shared_relationships, percent(pair.relationship_jaccard)])
+    ),
+    '',
+    '## Entity Types',
+    '',
+    markdownTable(['Type', ...labels], typeNames(report).map(type => [type, ...report.outputs.map(output => output.entity_types[type] || 0)])),
+    '',
+    '## Entity Confidence',
+    '',
+    markdownTable(['Confidence', ...labels], histogramRows(report, output => output.entity_confidence)),
+    '',
+    '## Relationship Confidence',
+    '',
+    markdownTable(['Confidence', ...labels], histogramRows(report, output => output.relationship_confidence)),
+    '',
+    '## Episodes',
+    ''
+  ];
+
+  for (const episode of report.episodes) {
+    lines.push(`### ${episode.episode_title}`, '');
+    lines.push(markdownTable(
+      ['Output', 'Entities', 'Relationships'],
+      labels.map(label => [label, episode.counts[label]?.entities ?? '—', episode.counts[label]?.relationships ?? '—'])
+    ), '');
+    if (episode.pairs.length > 0) {
+      lines.push(markdownTable(
+        ['Outputs', 'Entity Jaccard', 'Relationship Jaccard'],
+        episode.pairs.map(pair => [`${pair.a} / ${pair.b}`, percent(pair.entity_jaccard), percent(pair.relationship_jaccard)])
+      ), '');
+    }
+    for (const label of Object.keys(episode.unique_entities)) {
+      const entities = episode.unique_entities[label];
+      const relationships = episode.unique_relationships[label];
+      if (entities.length > 0) lines.push(`**Only in ${label}** (entities): ${entities.join(', ')}`, '');
+      if (relationships.length > 0) lines.push(`**Only in ${label}** (relationships): ${relationships.join('; ')}`, '');
+    }
+    if (episode.type_differences.length > 0) {
+      lines.push('**Type differences:** ' + episode.type_differences
+        .map(difference => `${difference.entity} (${Object.entries(difference.types).map(([label, type]) => `${label}: ${type}`).join(', ')})`)
+        .join('; '), '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function htmlTable(header: string[], rows: (string | number)[][]): string {
+  return `<table><thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead><tbody>${
+    rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('')
+  }</tbody></table>`;
+}
+
+// Bars are scaled to the largest bucket of each output
+function htmlHistogram(report: ComparisonReport, pick: (output: ComparisonReport['outputs'][number]) => ConfidenceHistogram): string {
+  return report.outputs.map(output => {
+    const buckets = pick(output);
+    const max = Math.max(1, ...buckets);
+    return `<div class="histogram"><h4>${escapeHtml(output.label)}</h4>${buckets.map((count, i) =>
+      `<div class="bar"><span>${BUCKET_LABELS[i]}</span><i style="width:${(count / max) * 100}%"></i><b>${count}</b></div>`
+    ).join('')}</div>`;
+  }).join('');
+}
+
+function renderHtml(report: ComparisonReport): string {
+  const labels = report.outputs.map(output => output.label);
+  const episodes = report.episodes.map(episode => {
+    const unique = Object.keys(episode.unique_entities).map(label => {
+      const entities = episode.unique_entities[label];
+      const relationships = episode.unique_relationships[label];
+      if (entities.length === 0 && relationships.length === 0) return '';
+      return `<h4>Only in ${escapeHtml(label)}</h4><ul>${
+        [...entities, ...relationships].map(fact => `<li>${escapeHtml(fact)}</li>`).join('')
+      }</ul>`;
+    }).join('');
+    const types = episode.type_differences.length > 0
+      ? `<h4>Type differences</h4>${htmlTable(['Entity', ...labels], episode.type_differences.map(difference =>
+          [difference.entity, ...labels.map(label => difference.types[label] || '—')]))}`
+      : '';
+
+    return `<details><summary>${escapeHtml(episode.episode_title)}</summary>${
+      htmlTable(['Output', 'Entities', 'Relationships'], labels.map(label =>
+        [label, episode.counts[label]?.entities ?? '—', episode.counts[label]?.relationships ?? '—']))
+    }${
+      episode.pairs.length > 0
+        ? htmlTable(['Outputs', 'Entity Jaccard', 'Relationship Jaccard'], episode.pairs.map(pair =>
+            [`${pair.a} / ${pair.b}`, percent(pair.entity_jaccard), percent(pair.relationship_jaccard)]))
+        : ''
+    }${unique}${types}</details>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Extraction Comparison</title>
+<style>
+  body { font-family: system-ui, sans-serif; background: #111; color: #eee; margin: 2rem; }
+  table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+  th, td { border: 1px solid #333; padding: 0.3rem 0.6rem; text-align: left; }
+  th { background: #222; }
+  details { border-bottom: 1px solid #333; padding: 0.5rem 0; }
+  summary { cursor: pointer; font-weight: 600; }
+  .histograms { display: flex; gap: 2rem; flex-wrap: wrap; }
+  .histogram { width: 280px; }
+  .bar { display: flex; align-items: center; gap: 0.5rem; font-size: 0.8rem; }
+  .bar span { width: 4.5rem; }
+  .bar i { background: #4a9eff; height: 0.8rem; display: block; }
+  .bar b { font-weight: normal; color: #aaa; }
+</style>
+</head>
+<body>
+<h1>Extraction Comparison</h1>
+<p>Generated ${escapeHtml(report.generated_at)}</p>
+<h2>Outputs</h2>
+${htmlTable(['Output', 'Models', 'Episodes', 'Entities', 'Relationships'],
+  report.outputs.map(output => [output.label, output.models_used.join(', '), output.episodes, output.entities, output.relationships]))}
+<h2>Agreement</h2>
+${htmlTable(['Outputs', 'Shared entities', 'Entity Jaccard', 'Shared relationships', 'Relationship Jaccard'],
+  report.pairs.map(pair => [`${pair.a} / ${pair.b}`, pair.shared_entities, percent(pair.entity_jaccard), pair.shared_relationships, percent(pair.relationship_jaccard)]))}
+<h2>Entity Types</h2>
+${htmlTable(['Type', ...labels], typeNames(report).map(type => [type, ...report.outputs.map(output => output.entity_types[type] || 0)]))}
+<h2>Entity Confidence</h2>
+<div class="histograms">${htmlHistogram(report, output => output.entity_confidence)}</div>
+<h2>Relationship Confidence</h2>
+<div class="histograms">${htmlHistogram(report, output => output.relationship_confidence)}</div>
+<h2>Episodes</h2>
+${episodes}
+</body>
+</html>
+`;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  // Files to compare; by default the latest output of every model in data/
+  const files = args.filter(arg => !arg.startsWith('--'));
+  const inputFiles = files.length > 0 ? files : findLatestOutputs();
+
+  const formatArg = args.find(arg => arg.startsWith('--format='));
+  const format: ReportFormat = formatArg?.split('=')[1] === 'html' ? 'html' : 'markdown';
+  const outputArg = args.find(arg => arg.startsWith('--output='));
+  const outputFile = outputArg
+    ? outputArg.split('=')[1]
+    : path.join('data', `extraction-comparison_${new Date().toISOString().replace(/\D/g, '').substring(0, 14)}.${format === 'html' ? 'html' : 'md'}`);
+
+  console.log('📊 Extraction Comparison');
+  console.log('========================');
+
+  if (inputFiles.length < 2) {
+    console.error(`❌ Comparing needs at least two outputs, found ${inputFiles.length}`);
+    process.exit(1);
+  }
+
+  try {
+    const used = new Set<string>();
+    const outputs: LabelledOutput[] = inputFiles.map(file => {
+      console.log(`📖 Reading ${file}...`);
+      return { label: labelFor(file, used), output: JSON.parse(fs.readFileSync(file, 'utf-8')) as ComparableOutput };
+    });
+
+    const report = compareOutputs(outputs, loadEntityAliases());
+
+    console.log('\n📋 Outputs:');
+    report.outputs.forEach(output =>
+      console.log(`   ${output.label}: ${output.episodes} episodes, ${output.entities} entities, ${output.relationships} relationships`)
+    );
+    console.log('\n🤝 Agreement:');
+    report.pairs.forEach(pair =>
+      console.log(`   ${pair.a} / ${pair.b}: entities ${percent(pair.entity_jaccard)}, relationships ${percent(pair.relationship_jaccard)}`)
+    );
+
+    fs.mkdirSync(path.dirname(path.resolve(outputFile)), { recursive: true });
+    fs.writeFileSync(outputFile, format === 'html' ? renderHtml(report) : renderMarkdown(report));
+    console.log(`\n💾 Saved ${format === 'html' ? 'HTML' : 'Markdown'} report to: ${outputFile}`);
+  } catch (error) {
+    console.error('❌ Comparison failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -2,6 +2,30 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
 import { v4 as uuidv4 } from 'uuid';
+import { normalizeEntityName, resolveEntities } from '../src/lib/entity-resolution';
+import { linkEpisodes } from '../src/lib/episode-links';
+import { extractKeyPhrases, type KeyPhrase } from '../src/lib/key-phrases';
+import { findUnmappedRelationshipTypes, normalizeRelationship, type UnmappedRelationshipType } from '../src/lib/relationship-ontology';
+import type { CanonicalEntity, RelationshipCategory } from '../src/lib/types';
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_SIZE,
+  chunkTranscript,
+  mergeChunkExtractions,
+  mergeChunkReports,
+  type ChunkedExtraction,
+  type ChunkingOptions,
+  type ChunkMention,
+  type ChunkResult,
+  type ChunkSpan,
+  type TranscriptChunk
+} from './lib/chunking';
+import { CheckpointStore } from './lib/checkpoints';
+import { mergeModelExtractions, type ConsensusFields, type ConsensusOptions } from './lib/consensus';
+import { extractWithRepair, type EntityType, type ValidationReport } from './lib/extraction-schema';
+import { createProvider, getAvailableProviders, isRateLimited, type LLMProvider } from './lib/llm';
+import { loadEntityAliases } from './lib/outputs';
+import { loadPrompt, promptRef, renderPrompt, type PromptTemplate, type RenderedPrompt } from './lib/prompts';
 
 dotenv.config({ path: '.env.local' });
 
@@ -22,11 +46,13 @@ interface Entity {
   id: string;
   episode_id: string;
   name: string;
-  type: 'person' | 'place' | 'event' | 'object' | 'media' | 'product';
+  type: EntityType;
   context: string;
   amazon_searchable: boolean;
   amazon_keywords?: string[];
   confidence_score?: number;
+  canonical_id?: string;
+  chunk_mentions?: ChunkMention[];
 }
 
 interface Relationship {
@@ -40,6 +66,26 @@ interface Relationship {
   description: string;
   confidence_score?: number;
   is_cross_episode?: boolean;
+  source_chunks?: number[];
+  // The type as the model wrote it, before mapping onto the relationship ontology
+  extracted_type?: string;
+  category?: RelationshipCategory;
+}
+
+// A notable line of the episode, attributed to the entities that said or wrote it
+interface Quote {
+  id: string;
+  episode_id: string;
+  text: string;
+  speaker_id?: string;
+  speaker_name?: string;
+  // The book or other media entity the quote was read from
+  source_id?: string;
+  source_name?: string;
+  // Character offset in the transcript as extracted, null when it was not quoted word for word
+  offset: number | null;
+  confidence_score?: number;
+  source_chunks?: number[];
 }
 
 interface CrossEpisodeRelationship {
@@ -49,6 +95,7 @@ interface CrossEpisodeRelationship {
   episode2_id: string;
   episode2_title: string;
   shared_entities: string[];
+  shared_entity_ids?: string[];
   relationship_strength: number;
   common_themes: string[];
 }
@@ -61,41 +108,107 @@ interface EpisodeData {
   url?: string;
   entities: Entity[];
   relationships: Relationship[];
+  // Missing in outputs of prompts before graph-extraction@v3
+  quotes?: Quote[];
   extracted_by: string;
+  extracted_model: string;
   extracted_at: string;
+  // Prompt template the episode was extracted with, e.g. "graph-extraction@v2"
+  prompt_version: string;
+  validation: ValidationReport;
+  // Transcript ranges extracted separately; chunk_mentions and source_chunks index into these
+  chunks: ChunkSpan[];
+}
+
+// One episode merged from every model that extracted it
+interface ConsensusEpisodeData extends EpisodeData {
+  entities: (Entity & ConsensusFields)[];
+  relationships: (Relationship & ConsensusFields)[];
+  quotes: (Quote & ConsensusFields)[];
+  // Provider keys of the models merged, e.g. ["anthropic", "openai"]
+  models: string[];
+}
+
+// A local model server speaking the OpenAI chat-completions protocol (llama.cpp
+// server, vLLM, Ollama); unset fields fall back to the "local" provider in llm.config.json
+interface LocalModelOptions {
+  baseUrl?: string;
+  model?: string;
+}
+
+interface RunOptions {
+  // Reuse checkpoints of episodes already extracted with the same model and prompt
+  resume: boolean;
+  // Only extract episodes missing from the latest output of each model
+  onlyNew: boolean;
+  // Only re-extract episodes the latest output has from another prompt version
+  outdated?: boolean;
+  // Limit the run to these episode numbers
+  episodeNumbers?: number[];
 }
 
 interface GraphOutput {
   episodes: EpisodeData[];
   all_entities: Entity[];
   all_relationships: Relationship[];
+  all_quotes: Quote[];
   cross_episode_relationships: CrossEpisodeRelationship[];
   amazon_products: Entity[];
+  canonical_entities: CanonicalEntity[];
   extraction_metadata: {
     total_episodes: number;
     total_entities: number;
+    total_canonical_entities: number;
     total_relationships: number;
+    total_quotes: number;
     models_used: string[];
+    prompt_versions: string[];
     extracted_at: string;
+    // Relationship types the ontology does not cover yet
+    unmapped_relationship_types: UnmappedRelationshipType[];
+    // Set on the merged output of several models
+    consensus?: {
+      min_agreement: number;
+      unanimous_entities: number;
+      unanimous_relationships: number;
+    };
+    // Totals of the per-episode validation reports
+    validation: {
+      valid_episodes: number;
+      repaired_episodes: number;
+      dropped_entities: number;
+      dropped_relationships: number;
+      dropped_quotes: number;
+    };
   };
 }
 
 class ComprehensiveGraphExtractor {
-  private openaiApiKey: string;
-  private anthropicApiKey: string;
-  private groqApiKey: string;
-  private geminiApiKey: string;
-  private globalEntities: Map<string, Entity> = new Map();
+  private providers: Map<string, LLMProvider>;
+  // Key phrases of every input transcript, so a phrase's rarity is judged across the catalog
+  private keyPhrases: Map<string, KeyPhrase[]> = new Map();
   private testMode: boolean = false;
   private episodeLimit: number = 0;
-
-  constructor(testMode: boolean = false, episodeLimit: number = 0) {
-    this.openaiApiKey = process.env.OPENAI_API_KEY || process.env.openai || '';
-    this.anthropicApiKey = process.env.ANTHROPIC_API_KEY || process.env.anthropic || '';
-    this.groqApiKey = process.env.GROQ_API_KEY || ''; // Removed due to rate limiting issues
-    this.geminiApiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || process.env.gemini || '';
+  private chunking: ChunkingOptions;
+  private prompt: PromptTemplate;
+  private checkpoints = new CheckpointStore();
+
+  constructor(
+    testMode: boolean = false,
+    episodeLimit: number = 0,
+    localModel?: LocalModelOptions,
+    chunking: ChunkingOptions = { size: DEFAULT_CHUNK_SIZE, overlap: DEFAULT_CHUNK_OVERLAP },
+    promptVersion?: number
+  ) {
+    // Groq is left out because of its rate limits
+    const providers = localModel
+      ? [createProvider('local', 'extract-graph', localModel)]
+      : getAvailableProviders('extract-graph', ['openai', 'anthropic', 'gemini']);
+    this.providers = new Map(providers.map(provider => [provider.name, provider]));
     this.testMode = testMode;
     this.episodeLimit = episodeLimit;
+    this.chunking = chunking;
+    this.prompt = loadPrompt('graph-extraction', promptVersion);
   }
 
   private createEntityId(name: string, type: string, episodeId: string): string {
@@ -108,379 +221,80 @@ class ComprehensiveGraphExtractor {
     return `rel_${sorted[0]}_${sorted[1]}_${uuidv4().substring(0, 8)}`;
   }
 
-  private async makeOpenAIRequest(text: string, episodeTitle: string): Promise<any> {
-    const prompt = this.createEnhancedExtractionPrompt(text, episodeTitle);
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at extracting named entities and relationships from business podcast transcripts. You specialize in identifying Amazon-searchable products and creating knowledge graphs. Return only valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 4000
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    const content = data.choices[0].message.content.trim();
-    
-    // Handle cases where OpenAI returns JSON wrapped in markdown code blocks
-    const codeBlockMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/i);
-    if (codeBlockMatch) {
-      return JSON.parse(codeBlockMatch[1]);
-    }
-    
-    // Try to find JSON object in text
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    
-    // If no code blocks, try parsing directly
-    return JSON.parse(content);
-  }
-
-  private async makeAnthropicRequest(text: string, episodeTitle: string, retryCount: number = 0): Promise<any> {
-    const prompt = this.createEnhancedExtractionPrompt(text, episodeTitle);
-    
-    const maxRetries = 2;
-    
-    try {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'x-api-key': this.anthropicApiKey,
-          'Content-Type': 'application/json',
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: 'claude-3-5-sonnet-20241022',
-          max_tokens: 4000,
-          temperature: 0.1,
-          messages: [
-            {
-              role: 'user',
-              content: `You are an expert at extracting named entities and relationships from business podcast transcripts. You specialize in identifying Amazon-searchable products and creating knowledge graphs. 
-
-CRITICAL: You must return ONLY valid JSON. Do not include any explanations, comments, or text before or after the JSON.
-
-${prompt}`
-            }
-          ]
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data: any = await response.json();
-      const content = data.content[0].text.trim();
-      
-      // Multiple strategies to extract valid JSON
-      let jsonData;
-      
-      try {
-        // Strategy 1: Try parsing the content directly
-        jsonData = JSON.parse(content);
-      } catch (error) {
-        try {
-          // Strategy 2: Extract JSON from markdown code blocks
-          const codeBlockMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/i);
-          if (codeBlockMatch) {
-            jsonData = JSON.parse(codeBlockMatch[1]);
-          } else {
-            // Strategy 3: Find JSON object in text
-            const jsonMatch = content.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              jsonData = JSON.parse(jsonMatch[0]);
-            } else {
-              // Strategy 4: Try to clean and fix common JSON issues
-              let cleaned = content;
-              
-              // Remove common prefixes
-              cleaned = cleaned.replace(/^.*?(?=\{)/, '');
-              // Remove common suffixes  
-              cleaned = cleaned.replace(/\}[^}]*$/, '}');
-              // Fix trailing commas
-              cleaned = cleaned.replace(/,(\s*[}\]])/g, '$1');
-              // Fix unescaped quotes in values
-              cleaned = cleaned.replace(/: "([^"]*)"([^",}\]]*?)"/g, ': "$1$2"');
-              
-              jsonData = JSON.parse(cleaned);
-            }
-          }
-        } catch (secondError) {
-          throw error; // Throw the original parsing error
-        }
-      }
-
-      // Validate the JSON structure
-      if (!jsonData || typeof jsonData !== 'object') {
-        throw new Error('Invalid JSON structure: not an object');
-      }
-
-      // Ensure required fields exist with defaults
-      if (!jsonData.entities) {
-        jsonData.entities = [];
-      }
-      if (!jsonData.relationships) {
-        jsonData.relationships = [];
-      }
-
-      // Validate entities array
-      if (!Array.isArray(jsonData.entities)) {
-        jsonData.entities = [];
-      }
-
-      // Validate relationships array  
-      if (!Array.isArray(jsonData.relationships)) {
-        jsonData.relationships = [];
-      }
-
-      return jsonData;
-
-    } catch (error) {
-      console.warn(`Anthropic request failed (attempt ${retryCount + 1}/${maxRetries + 1}):`, error);
-      
-      if (retryCount < maxRetries) {
-        console.log(`Retrying Anthropic request in 2 seconds...`);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        return this.makeAnthropicRequest(text, episodeTitle, retryCount + 1);
-      }
-      
-      // After all retries failed, return a minimal valid response
-      console.warn(`All Anthropic retries failed. Returning minimal response.`);
-      return {
-        entities: [],
-        relationships: [],
-        error: `Failed after ${maxRetries + 1} attempts: ${error instanceof Error ? error.message : String(error)}`
-      };
-    }
+  private createQuoteId(episodeId: string): string {
+    return `quote_${episodeId.substring(0, 8)}_${uuidv4().substring(0, 8)}`;
   }
 
-  private async makeGroqRequest(text: string, episodeTitle: string): Promise<any> {
-    const prompt = this.createEnhancedExtractionPrompt(text, episodeTitle);
-    
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.groqApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama3-70b-8192',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at extracting named entities and relationships from business podcast transcripts. You specialize in identifying Amazon-searchable products and creating knowledge graphs. Return only valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 4000
-      })
-    });
+  private createEnhancedExtractionPrompt(chunk: TranscriptChunk, chunkCount: number, episodeTitle: string): RenderedPrompt {
+    const transcriptLabel = chunkCount > 1
+      ? `TRANSCRIPT (part ${chunk.index + 1} of ${chunkCount}):`
+      : 'TRANSCRIPT:';
 
-    if (!response.ok) {
-      throw new Error(`Groq API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    return JSON.parse(data.choices[0].message.content);
-  }
-
-  private async makeGeminiRequest(text: string, episodeTitle: string): Promise<any> {
-    const prompt = this.createEnhancedExtractionPrompt(text, episodeTitle);
-    
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent?key=${this.geminiApiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: `You are an expert at extracting named entities and relationships from business podcast transcripts. You specialize in identifying Amazon-searchable products and creating knowledge graphs. Return only valid JSON.\n\n${prompt}`
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 4000
-        }
-      })
+    return renderPrompt(this.prompt, {
+      episode_title: episodeTitle,
+      transcript_label: transcriptLabel,
+      transcript: chunk.text
     });
-
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    const content = data.candidates[0].content.parts[0].text;
-    
-    // Handle cases where Gemini returns explanation before JSON
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    
-    return JSON.parse(content);
-  }
-
-  private createEnhancedExtractionPrompt(text: string, episodeTitle: string): string {
-    return `Extract named entities and relationships from this business podcast episode for building a knowledge graph.
-
-EPISODE: "${episodeTitle}"
-
-CRITICAL ENTITY TYPES TO EXTRACT:
-
-1. PEOPLE: Founders, entrepreneurs, CEOs, investors, historical business figures, authors
-2. PLACES: Companies, organizations, countries, cities, institutions, brands
-3. EVENTS: Product launches, acquisitions, IPOs, business milestones, historical events, crises
-4. OBJECTS: Technologies, business strategies, methodologies, concepts, frameworks, inventions
-5. MEDIA: Books, documentaries, movies, podcasts, articles, publications, TV shows
-6. PRODUCTS: Physical/digital products, services, brands, tools, software, consumer goods
-
-AMAZON PRODUCT FOCUS:
-For each entity, determine if it's searchable on Amazon for affiliate purposes:
-- Books, audiobooks, e-books, magazines
-- Physical products, gadgets, tools, electronics
-- Software with physical versions, games
-- Branded merchandise, clothing, accessories  
-- Business tools, supplies, equipment
-- Movies, TV shows on DVD/Blu-ray
-
-For AMAZON-SEARCHABLE items, provide 2-4 specific keywords for Amazon search.
-
-RELATIONSHIP EXTRACTION:
-Extract detailed relationships showing:
-- Business relationships (founded, invested_in, acquired, competed_with, partnered_with)
-- Influence relationships (inspired_by, mentored_by, influenced, learned_from)
-- Product relationships (created, invented, used, recommended, endorsed)
-- Content relationships (wrote_book, appeared_in, featured_in, interviewed_by)
-- Family relationships (father_of, son_of, married_to)
-- Professional relationships (worked_for, hired, fired, succeeded_by)
-
-QUALITY REQUIREMENTS:
-- Focus on the most significant entities (minimum 0.7 confidence)
-- Prioritize people, companies, and products over generic concepts
-- Extract specific product names, not categories
-- Include both historical and contemporary figures
-- Capture competitive dynamics and business relationships
-
-Return ONLY valid JSON in this exact format:
-{
-  "entities": [
-    {
-      "name": "Exact Entity Name",
-      "type": "person|place|event|object|media|product",
-      "context": "Detailed description and significance in episode (50-100 words)",
-      "amazon_searchable": true/false,
-      "amazon_keywords": ["keyword1", "keyword2", "keyword3"] or null,
-      "confidence_score": 0.0-1.0
-    }
-  ],
-  "relationships": [
-    {
-      "entity1_name": "First Entity",
-      "entity2_name": "Second Entity", 
-      "relationship_type": "specific_relationship_type",
-      "description": "Detailed description of the relationship and its significance",
-      "confidence_score": 0.0-1.0
-    }
-  ]
-}
-
-IMPORTANT: Extract 8-15 high-quality entities and 5-12 meaningful relationships. Focus on business-relevant entities that would be valuable for a knowledge graph about entrepreneurship and business history.
-
-TRANSCRIPT (first 12000 characters):
-${text.substring(0, 12000)}`;
   }
 
   private processExtractedEntities(
-    extractedData: any, 
+    extraction: ChunkedExtraction, 
     episodeId: string, 
     episodeTitle: string
-  ): { entities: Entity[], relationships: Relationship[] } {
+  ): { entities: Entity[], relationships: Relationship[], quotes: Quote[] } {
     const entities: Entity[] = [];
     const relationships: Relationship[] = [];
+    const quotes: Quote[] = [];
 
-    // Process entities
-    if (extractedData.entities && Array.isArray(extractedData.entities)) {
-      for (const entityData of extractedData.entities) {
-        if (!entityData.name || !entityData.type) continue;
-        
-        const entityId = this.createEntityId(entityData.name, entityData.type, episodeId);
-        
-        const entity: Entity = {
-          id: entityId,
+    // Entities and relationships have been validated by extractWithRepair and merged across chunks
+    for (const entityData of extraction.entities) {
+      const entityId = this.createEntityId(entityData.name, entityData.type, episodeId);
+      
+      const entity: Entity = {
+        id: entityId,
+        episode_id: episodeId,
+        ...entityData
+      };
+
+      entities.push(entity);
+    }
+
+    for (const relData of extraction.relationships) {
+      const entity1Id = this.findEntityId(relData.entity1_name, entities);
+      const entity2Id = this.findEntityId(relData.entity2_name, entities);
+      
+      if (entity1Id && entity2Id) {
+        const relationship: Relationship = {
+          id: this.createRelationshipId(entity1Id, entity2Id),
           episode_id: episodeId,
-          name: entityData.name,
-          type: entityData.type,
-          context: entityData.context || '',
-          amazon_searchable: entityData.amazon_searchable || false,
-          amazon_keywords: entityData.amazon_keywords || undefined,
-          confidence_score: entityData.confidence_score || 0.8
+          entity1_id: entity1Id,
+          entity2_id: entity2Id,
+          ...relData,
+          is_cross_episode: false
         };
-
-        entities.push(entity);
         
-        // Add to global cache for cross-episode relationships
-        const globalKey = `${entity.name.toLowerCase()}_${entity.type}`;
-        if (!this.globalEntities.has(globalKey)) {
-          this.globalEntities.set(globalKey, entity);
-        }
+        // "co-founded" becomes "founded", "founded_by" a "founded" with its ends swapped
+        relationships.push(normalizeRelationship(relationship));
       }
     }
 
-    // Process relationships
-    if (extractedData.relationships && Array.isArray(extractedData.relationships)) {
-      for (const relData of extractedData.relationships) {
-        if (!relData.entity1_name || !relData.entity2_name) continue;
-        
-        const entity1Id = this.findEntityId(relData.entity1_name, entities);
-        const entity2Id = this.findEntityId(relData.entity2_name, entities);
-        
-        if (entity1Id && entity2Id) {
-          const relationship: Relationship = {
-            id: this.createRelationshipId(entity1Id, entity2Id),
-            episode_id: episodeId,
-            entity1_id: entity1Id,
-            entity1_name: relData.entity1_name,
-            entity2_id: entity2Id,
-            entity2_name: relData.entity2_name,
-            relationship_type: relData.relationship_type || 'related_to',
-            description: relData.description || '',
-            confidence_score: relData.confidence_score || 0.8,
-            is_cross_episode: false
-          };
-          
-          relationships.push(relationship);
-        }
-      }
+    // Speakers and sources the model did not extract as entities are kept by name
+    for (const quoteData of extraction.quotes) {
+      quotes.push({
+        id: this.createQuoteId(episodeId),
+        episode_id: episodeId,
+        text: quoteData.text,
+        speaker_id: quoteData.speaker ? this.findEntityId(quoteData.speaker, entities) ?? undefined : undefined,
+        speaker_name: quoteData.speaker,
+        source_id: quoteData.source ? this.findEntityId(quoteData.source, entities) ?? undefined : undefined,
+        source_name: quoteData.source,
+        offset: quoteData.offset,
+        confidence_score: quoteData.confidence_score,
+        source_chunks: quoteData.source_chunks
+      });
     }
 
-    return { entities, relationships };
+    return { entities, relationships, quotes };
   }
 
   private findEntityId(entityName: string, entities: Entity[]): string | null {
@@ -490,108 +304,96 @@ ${text.substring(0, 12000)}`;
     return found ? found.id : null;
   }
 
-  public detectCrossEpisodeRelationships(allEpisodeData: EpisodeData[]): CrossEpisodeRelationship[] {
-    const crossEpisodeRels: CrossEpisodeRelationship[] = [];
-    
-    for (let i = 0; i < allEpisodeData.length; i++) {
-      for (let j = i + 1; j < allEpisodeData.length; j++) {
-        const episode1 = allEpisodeData[i];
-        const episode2 = allEpisodeData[j];
-        
-        const sharedEntities = this.findSharedEntities(episode1.entities, episode2.entities);
-        
-        if (sharedEntities.length > 0) {
-          const relationshipStrength = this.calculateRelationshipStrength(sharedEntities, episode1, episode2);
-          
-          if (relationshipStrength > 0.3) {
-            crossEpisodeRels.push({
-              id: `cross_${episode1.episode_id}_${episode2.episode_id}`,
-              episode1_id: episode1.episode_id,
-              episode1_title: episode1.episode_title,
-              episode2_id: episode2.episode_id,
-              episode2_title: episode2.episode_title,
-              shared_entities: sharedEntities.map(e => e.name),
-              relationship_strength: relationshipStrength,
-              common_themes: this.extractCommonThemes(sharedEntities)
-            });
-          }
-        }
+  // Links episodes through the resolved entities and transcript key phrases they share
+  public detectCrossEpisodeRelationships(allEpisodeData: EpisodeData[], canonicalEntities: CanonicalEntity[]): CrossEpisodeRelationship[] {
+    const entitiesByEpisode = new Map<string, { id: string, name: string }[]>();
+    for (const canonical of canonicalEntities) {
+      for (const episodeId of canonical.episode_ids) {
+        entitiesByEpisode.set(episodeId, [...(entitiesByEpisode.get(episodeId) || []), { id: canonical.id, name: canonical.name }]);
       }
     }
-    
-    return crossEpisodeRels;
+
+    // Without transcripts (--merge-only) themes come from the entity descriptions
+    const withoutText = allEpisodeData.filter(epData => !this.keyPhrases.has(epData.episode_id));
+    const contextPhrases = extractKeyPhrases(new Map(withoutText.map(epData =>
+      [epData.episode_id, epData.entities.map(entity => entity.context).join('. ')]
+    )));
+
+    return linkEpisodes(allEpisodeData.map(epData => ({
+      episode_id: epData.episode_id,
+      episode_title: epData.episode_title,
+      entities: entitiesByEpisode.get(epData.episode_id) || [],
+      key_phrases: this.keyPhrases.get(epData.episode_id) || contextPhrases.get(epData.episode_id) || []
+    })));
   }
 
-  private findSharedEntities(entities1: Entity[], entities2: Entity[]): Entity[] {
-    const shared: Entity[] = [];
-    
-    for (const entity1 of entities1) {
-      for (const entity2 of entities2) {
-        if (entity1.name.toLowerCase() === entity2.name.toLowerCase() && 
-            entity1.type === entity2.type) {
-          shared.push(entity1);
-          break;
-        }
-      }
-    }
-    
-    return shared;
+  public resolveCanonicalEntities(allEntities: Entity[]): CanonicalEntity[] {
+    const canonicalEntities = resolveEntities(allEntities, loadEntityAliases());
+    const canonicalIds = new Map<string, string>();
+    canonicalEntities.forEach(canonical =>
+      canonical.mentions.forEach(mention => canonicalIds.set(mention.entity_id, canonical.id))
+    );
+    allEntities.forEach(entity => {
+      entity.canonical_id = canonicalIds.get(entity.id);
+    });
+    return canonicalEntities;
   }
 
-  private calculateRelationshipStrength(sharedEntities: Entity[], ep1: EpisodeData, ep2: EpisodeData): number {
-    const totalEntities1 = ep1.entities.length;
-    const totalEntities2 = ep2.entities.length;
-    
-    let weightedScore = 0;
-    for (const entity of sharedEntities) {
-      switch (entity.type) {
-        case 'person': weightedScore += 3; break;
-        case 'place': weightedScore += 2.5; break;
-        case 'product': weightedScore += 2; break;
-        case 'media': weightedScore += 1.5; break;
-        default: weightedScore += 1; break;
+  // Chunks are extracted one after another; a failed chunk is recorded in the
+  // validation report and only fails the episode when every chunk failed
+  private async extractChunks(provider: LLMProvider, episode: Episode, chunks: TranscriptChunk[]): Promise<ChunkResult[]> {
+    const results: ChunkResult[] = [];
+    const failures: ChunkResult[] = [];
+
+    for (const chunk of chunks) {
+      try {
+        const { system, prompt } = this.createEnhancedExtractionPrompt(chunk, chunks.length, episode.title);
+        const { extraction, report } = await extractWithRepair(provider, { system, prompt });
+        results.push({ chunk, extraction, report });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`  ⚠️ ${provider.name}: chunk ${chunk.index + 1}/${chunks.length} failed: ${message}`);
+        failures.push({
+          chunk,
+          extraction: { entities: [], relationships: [], quotes: [] },
+          report: {
+            model: provider.model,
+            valid: false,
+            repair_attempted: false,
+            repaired: false,
+            entities: 0,
+            relationships: 0,
+            quotes: 0,
+            dropped_entities: 0,
+            dropped_relationships: 0,
+            dropped_quotes: 0,
+            issues: [{ severity: 'error', path: '$', message: `Extraction failed: ${message}` }]
+          }
+        });
       }
     }
-    
-    return Math.min(1, (weightedScore / Math.max(totalEntities1, totalEntities2)) * 2);
-  }
 
-  private extractCommonThemes(sharedEntities: Entity[]): string[] {
-    const themes = new Set<string>();
-    
-    for (const entity of sharedEntities) {
-      if (entity.type === 'person') themes.add('Entrepreneurship');
-      if (entity.type === 'place' && entity.context.includes('company')) themes.add('Business Strategy');
-      if (entity.type === 'product') themes.add('Product Development');
-      if (entity.type === 'media' && entity.context.includes('book')) themes.add('Business Literature');
-      if (entity.amazon_searchable) themes.add('Recommended Products');
+    if (results.length === 0) {
+      throw new Error(`All ${chunks.length} chunks failed`);
     }
-    
-    return Array.from(themes);
+    return [...results, ...failures].sort((a, b) => a.chunk.index - b.chunk.index);
   }
 
   async extractFromEpisode(episode: Episode, modelName: string): Promise<EpisodeData> {
     console.log(`🤖 Extracting entities from "${episode.title}" using ${modelName}...`);
     
     try {
-      let extractedData;
-      
-      switch (modelName.toLowerCase()) {
-        case 'openai':
-          extractedData = await this.makeOpenAIRequest(episode.text, episode.title);
-          break;
-        case 'anthropic':
-          extractedData = await this.makeAnthropicRequest(episode.text, episode.title);
-          break;
-        case 'gemini':
-          extractedData = await this.makeGeminiRequest(episode.text, episode.title);
-          break;
-        default:
-          throw new Error(`Unsupported model: ${modelName}`);
+      const provider = this.providers.get(modelName.toLowerCase());
+      if (!provider) {
+        throw new Error(`Unsupported model: ${modelName}`);
       }
 
-      const { entities, relationships } = this.processExtractedEntities(
-        extractedData, 
+      const chunks = chunkTranscript(episode.text, this.chunking);
+      const chunkResults = await this.extractChunks(provider, episode, chunks);
+      const report = mergeChunkReports(chunkResults);
+
+      const { entities, relationships, quotes } = this.processExtractedEntities(
+        mergeChunkExtractions(chunkResults), 
         episode.episode_id, 
         episode.title
       );
@@ -604,8 +406,13 @@ ${text.substring(0, 12000)}`;
         url: episode.url,
         entities,
         relationships,
+        quotes,
         extracted_by: modelName,
-        extracted_at: new Date().toISOString()
+        extracted_model: provider.model,
+        extracted_at: new Date().toISOString(),
+        prompt_version: promptRef(this.prompt),
+        validation: report,
+        chunks: chunks.map(({ index, start, end }) => ({ index, start, end }))
       };
 
     } catch (error) {
@@ -614,11 +421,201 @@ ${text.substring(0, 12000)}`;
     }
   }
 
-  async processEpisodeWithAllModels(episode: Episode): Promise<Map<string, EpisodeData>> {
-    const availableModels: string[] = [];
-    if (this.openaiApiKey) availableModels.push('openai');
-    if (this.anthropicApiKey) availableModels.push('anthropic');
-    if (this.geminiApiKey) availableModels.push('gemini');
+  // Chunking changes what is extracted as much as the prompt does, so both name the checkpoint
+  private get checkpointVersion(): string {
+    return `${promptRef(this.prompt)}_${this.chunking.size}-${this.chunking.overlap}`;
+  }
+
+  private checkpointKey(episode: Episode, model: string) {
+    const provider = this.providers.get(model)!;
+    return { episodeId: episode.episode_id, model: `${provider.name}-${provider.model}`, promptVersion: this.checkpointVersion };
+  }
+
+  private outputSuffix(): string {
+    return this.testMode ? '-test' : '';
+  }
+
+  // Most recent data/nodejs-podcast-<model>_<timestamp>.json written by this script
+  private loadLatestOutput(model: string): GraphOutput | undefined {
+    const dataDir = path.join(process.cwd(), 'data');
+    if (!fs.existsSync(dataDir)) return undefined;
+
+    const pattern = new RegExp(`^nodejs-podcast-${model}${this.outputSuffix()}_\\d{14}\\.json$`);
+    const latest = fs.readdirSync(dataDir).filter(file => pattern.test(file)).sort().pop();
+    if (!latest) return undefined;
+
+    console.log(`📂 Latest ${model} output: ${latest}`);
+    return JSON.parse(fs.readFileSync(path.join(dataDir, latest), 'utf-8'));
+  }
+
+  // Writes data/nodejs-podcast-<name>_<timestamp>.json and its relationships file
+  private saveGraphOutput(name: string, episodeData: EpisodeData[], modelsUsed: string[], consensus?: GraphOutput['extraction_metadata']['consensus']): void {
+    console.log(`📊 Processing ${name.toUpperCase()} results...`);
+    
+    // Aggregate all entities and relationships
+    const allEntities: Entity[] = [];
+    const allRelationships: Relationship[] = [];
+    const allQuotes: Quote[] = [];
+    const amazonProducts: Entity[] = [];
+
+    for (const epData of episodeData) {
+      allEntities.push(...epData.entities);
+      allRelationships.push(...epData.relationships);
+      allQuotes.push(...(epData.quotes || []));
+      amazonProducts.push(...epData.entities.filter(e => e.amazon_searchable));
+    }
+
+    // Resolve the same person, company or book across episodes
+    const canonicalEntities = this.resolveCanonicalEntities(allEntities);
+    const crossEpisodeRels = this.detectCrossEpisodeRelationships(episodeData, canonicalEntities);
+    const unmappedTypes = findUnmappedRelationshipTypes(allRelationships);
+
+    // Create comprehensive output
+    const graphOutput: GraphOutput = {
+      episodes: episodeData,
+      all_entities: allEntities,
+      all_relationships: allRelationships,
+      all_quotes: allQuotes,
+      cross_episode_relationships: crossEpisodeRels,
+      amazon_products: amazonProducts,
+      canonical_entities: canonicalEntities,
+      extraction_metadata: {
+        total_episodes: episodeData.length,
+        total_entities: allEntities.length,
+        total_canonical_entities: canonicalEntities.length,
+        total_relationships: allRelationships.length,
+        total_quotes: allQuotes.length,
+        models_used: modelsUsed,
+        prompt_versions: Array.from(new Set(episodeData.map(epData => epData.prompt_version).filter(Boolean))).sort(),
+        extracted_at: new Date().toISOString(),
+        unmapped_relationship_types: unmappedTypes,
+        ...(consensus ? { consensus } : {}),
+        validation: {
+          valid_episodes: episodeData.filter(epData => epData.validation.valid).length,
+          repaired_episodes: episodeData.filter(epData => epData.validation.repaired).length,
+          dropped_entities: episodeData.reduce((sum, epData) => sum + epData.validation.dropped_entities, 0),
+          dropped_relationships: episodeData.reduce((sum, epData) => sum + epData.validation.dropped_relationships, 0),
+          dropped_quotes: episodeData.reduce((sum, epData) => sum + (epData.validation.dropped_quotes || 0), 0)
+        }
+      }
+    };
+
+    // Generate datetime stamp for filenames (YYYYMMDDHHMMSS format)
+    const now = new Date();
+    const dateTimeStamp = now.getFullYear().toString() +
+      (now.getMonth() + 1).toString().padStart(2, '0') +
+      now.getDate().toString().padStart(2, '0') +
+      now.getHours().toString().padStart(2, '0') +
+      now.getMinutes().toString().padStart(2, '0') +
+      now.getSeconds().toString().padStart(2, '0');
+    
+    // Save output file in data folder with datetime stamp
+    const outputSuffix = this.outputSuffix();
+    const outputFile = path.join(process.cwd(), 'data', `nodejs-podcast-${name}${outputSuffix}_${dateTimeStamp}.json`);
+    fs.writeFileSync(outputFile, JSON.stringify(graphOutput, null, 2));
+    console.log(`💾 Saved ${name} results to: ${outputFile}`);
+
+    // Save relationships file for this output in data folder with datetime stamp
+    const relationshipsFile = path.join(process.cwd(), 'data', `nodejs-podcast-relationships-${name}${outputSuffix}_${dateTimeStamp}.json`);
+    const relationshipsOutput = {
+      relationships: allRelationships,
+      cross_episode_relationships: crossEpisodeRels,
+      metadata: {
+        extracted_by: name,
+        extracted_at: new Date().toISOString(),
+        total_relationships: allRelationships.length,
+        cross_episode_relationships: crossEpisodeRels.length
+      }
+    };
+    fs.writeFileSync(relationshipsFile, JSON.stringify(relationshipsOutput, null, 2));
+    
+    console.log(`📊 ${name.toUpperCase()} FINAL RESULTS:`);
+    console.log(`   ✅ Episodes: ${episodeData.length}`);
+    console.log(`   🏷️ Entities: ${allEntities.length} (${canonicalEntities.length} after resolution)`);
+    console.log(`   🔗 Relationships: ${allRelationships.length}`);
+    console.log(`   💬 Quotes: ${allQuotes.length}`);
+    if (unmappedTypes.length > 0) {
+      console.log(`   🧭 Unmapped relationship types: ${unmappedTypes.map(unmapped => `${unmapped.type} (${unmapped.count})`).join(', ')}`);
+    }
+    console.log(`   🌐 Cross-episode connections: ${crossEpisodeRels.length}`);
+    console.log(`   🛒 Amazon products: ${amazonProducts.length}`);
+    const { validation } = graphOutput.extraction_metadata;
+    console.log(`   🧪 Valid episodes: ${validation.valid_episodes}/${episodeData.length} (${validation.repaired_episodes} repaired, ${validation.dropped_entities} entities, ${validation.dropped_relationships} relationships and ${validation.dropped_quotes} quotes dropped)\n`);
+  }
+
+  // Episodes are merged across the models that extracted them; an episode only one
+  // model extracted is kept with every fact at an agreement of 1
+  private saveConsensusOutput(modelData: Map<string, EpisodeData[]>, options: ConsensusOptions): void {
+    const byEpisode = new Map<string, { model: string; epData: EpisodeData }[]>();
+    modelData.forEach((episodes, model) => episodes.forEach(epData =>
+      byEpisode.set(epData.episode_id, [...(byEpisode.get(epData.episode_id) || []), { model, epData }])
+    ));
+
+    const episodes: ConsensusEpisodeData[] = Array.from(byEpisode.values()).map(extractions => {
+      const { entities, relationships, quotes } = mergeModelExtractions(
+        extractions.map(({ model, epData }) => ({ model, entities: epData.entities, relationships: epData.relationships, quotes: epData.quotes })),
+        options
+      );
+      const reports = extractions.filter(({ epData }) => epData.validation);
+
+      return {
+        ...extractions[0].epData,
+        entities,
+        relationships,
+        quotes,
+        extracted_by: 'consensus',
+        extracted_model: extractions.map(({ epData }) => epData.extracted_model).join(', '),
+        prompt_version: Array.from(new Set(extractions.map(({ epData }) => epData.prompt_version))).join(', '),
+        extracted_at: new Date().toISOString(),
+        validation: {
+          model: reports.map(({ epData }) => epData.validation.model).join(', '),
+          valid: reports.every(({ epData }) => epData.validation.valid),
+          repair_attempted: reports.some(({ epData }) => epData.validation.repair_attempted),
+          repaired: reports.some(({ epData }) => epData.validation.repaired),
+          entities: entities.length,
+          relationships: relationships.length,
+          quotes: quotes.length,
+          dropped_entities: reports.reduce((sum, { epData }) => sum + epData.validation.dropped_entities, 0),
+          dropped_relationships: reports.reduce((sum, { epData }) => sum + epData.validation.dropped_relationships, 0),
+          dropped_quotes: reports.reduce((sum, { epData }) => sum + (epData.validation.dropped_quotes || 0), 0),
+          issues: reports.flatMap(({ model, epData }) => epData.validation.issues.map(issue => ({ ...issue, path: `${model}.${issue.path}` })))
+        },
+        models: extractions.map(({ model }) => model)
+      };
+    });
+
+    this.saveGraphOutput('consensus', episodes, Array.from(modelData.keys()), {
+      min_agreement: options.minAgreement,
+      unanimous_entities: episodes.reduce((sum, epData) => sum + epData.entities.filter(entity => entity.agreement === epData.models.length).length, 0),
+      unanimous_relationships: episodes.reduce((sum, epData) => sum + epData.relationships.filter(rel => rel.agreement === epData.models.length).length, 0)
+    });
+  }
+
+  // Models with an output in data/, other than the consensus itself
+  private findOutputModels(): string[] {
+    const dataDir = path.join(process.cwd(), 'data');
+    if (!fs.existsSync(dataDir)) return [];
+
+    const pattern = new RegExp(`^nodejs-podcast-([a-z0-9]+)${this.outputSuffix()}_\\d{14}\\.json$`);
+    const models = fs.readdirSync(dataDir).map(file => pattern.exec(file)?.[1]).filter((model): model is string => !!model);
+    return Array.from(new Set(models)).filter(model => model !== 'consensus').sort();
+  }
+
+  // Merges the latest output of each model without extracting anything
+  mergeLatestOutputs(options: ConsensusOptions): void {
+    const modelData = new Map<string, EpisodeData[]>();
+    for (const model of this.findOutputModels()) {
+      const output = this.loadLatestOutput(model);
+      if (output) modelData.set(model, output.episodes);
+    }
+
+    if (modelData.size < 2) {
+      throw new Error(`Merging needs the output of at least two models, found ${modelData.size}`);
+    }
+    this.saveConsensusOutput(modelData, options);
+  }
+
+  async processEpisodeWithAllModels(episode: Episode, availableModels: string[] = Array.from(this.providers.keys())): Promise<Map<string, EpisodeData>> {
 
     const results = new Map<string, EpisodeData>();
     
@@ -640,7 +637,8 @@ ${text.substring(0, 12000)}`;
       
       if (promiseResult.status === 'fulfilled' && promiseResult.value.success && promiseResult.value.result) {
         results.set(model, promiseResult.value.result);
-        console.log(`  ✅ ${model}: ${promiseResult.value.result.entities.length} entities, ${promiseResult.value.result.relationships.length} relationships`);
+        const { entities, relationships, quotes } = promiseResult.value.result;
+        console.log(`  ✅ ${model}: ${entities.length} entities, ${relationships.length} relationships, ${(quotes || []).length} quotes`);
       } else {
         const errorMsg = promiseResult.status === 'rejected' 
           ? (promiseResult.reason instanceof Error ? promiseResult.reason.message : String(promiseResult.reason))
@@ -652,7 +650,11 @@ ${text.substring(0, 12000)}`;
     return results;
   }
 
-  async processWithAllModels(inputFile: string): Promise<void> {
+  async processWithAllModels(
+    inputFile: string,
+    options: RunOptions = { resume: false, onlyNew: false },
+    consensusOptions: ConsensusOptions = { minAgreement: 1 }
+  ): Promise<void> {
     // Check if input file exists
     if (!fs.existsSync(inputFile)) {
       throw new Error(`Input file not found: ${inputFile}`);
@@ -661,25 +663,47 @@ ${text.substring(0, 12000)}`;
     console.log(`📖 Reading podcast data from ${inputFile}...`);
     const rawData = fs.readFileSync(inputFile, 'utf-8');
     const podcastData: PodcastData = JSON.parse(rawData);
+    this.keyPhrases = extractKeyPhrases(new Map(podcastData.episodes.map(episode => [episode.episode_id, episode.text || ''])));
 
-    const availableModels = [];
-    if (this.openaiApiKey) availableModels.push('openai');
-    if (this.anthropicApiKey) availableModels.push('anthropic');
-    if (this.geminiApiKey) availableModels.push('gemini');
+    const availableModels = Array.from(this.providers.keys());
 
-    console.log(`🤖 Available AI models: ${availableModels.join(', ')}`);
+    console.log(`🤖 Available AI models: ${Array.from(this.providers.values()).map(provider => `${provider.name} (${provider.model})`).join(', ')}`);
     console.log(`📊 Found ${podcastData.episodes.length} episodes to process`);
 
-    const episodesToProcess = this.testMode 
-      ? podcastData.episodes.slice(0, this.episodeLimit)
+    const selectedEpisodes = options.episodeNumbers
+      ? podcastData.episodes.filter(episode => episode.episode_number !== undefined && options.episodeNumbers!.includes(episode.episode_number))
       : podcastData.episodes;
+    let episodesToProcess = this.testMode 
+      ? selectedEpisodes.slice(0, this.episodeLimit)
+      : selectedEpisodes;
 
     console.log(`🎯 Processing ${episodesToProcess.length} episodes${this.testMode ? ' (TEST MODE)' : ''}`);
+    console.log(`📝 Prompt: ${promptRef(this.prompt)}`);
+    if (options.resume) console.log(`♻️ Resuming from checkpoints (${this.checkpointVersion})`);
     console.log(`⚡ Using parallel processing for faster extraction\n`);
 
-    // Initialize model data storage
+    // Initialize model data storage. --only-new, --outdated and --episodes start from each
+    // model's latest output: --only-new keeps its episodes, --outdated those extracted with
+    // the current prompt, --episodes all but the selected ones
     const modelData = new Map<string, EpisodeData[]>();
-    availableModels.forEach(model => modelData.set(model, []));
+    const previousEpisodeIds = new Map<string, Set<string>>();
+    const outdatedIds = new Set<string>();
+    const selectedIds = new Set(episodesToProcess.map(episode => episode.episode_id));
+    const currentPrompt = promptRef(this.prompt);
+    availableModels.forEach(model => {
+      const previous = options.onlyNew || options.outdated || options.episodeNumbers ? this.loadLatestOutput(model)?.episodes || [] : [];
+      const kept = options.onlyNew ? previous
+        : options.outdated ? previous.filter(epData => epData.prompt_version === currentPrompt)
+        : previous.filter(epData => !selectedIds.has(epData.episode_id));
+      previous.filter(epData => !kept.includes(epData)).forEach(epData => outdatedIds.add(epData.episode_id));
+      modelData.set(model, [...kept]);
+      previousEpisodeIds.set(model, new Set(kept.map(epData => epData.episode_id)));
+    });
+    if (options.outdated) {
+      episodesToProcess = episodesToProcess.filter(episode => outdatedIds.has(episode.episode_id));
+      console.log(`🔁 ${episodesToProcess.length} episodes were extracted with another prompt than ${currentPrompt}`);
+    }
+    let reusedCount = 0;
 
     const startTime = Date.now();
 
@@ -692,19 +716,33 @@ ${text.substring(0, 12000)}`;
         continue;
       }
 
+      // Models that still need this episode; finished work is taken from checkpoints
+      const pendingModels = availableModels.filter(model => {
+        if (previousEpisodeIds.get(model)!.has(episode.episode_id)) return false;
+        const checkpoint = options.resume ? this.checkpoints.load<EpisodeData>(this.checkpointKey(episode, model)) : undefined;
+        if (checkpoint) {
+          modelData.get(model)!.push(checkpoint);
+          reusedCount++;
+          return false;
+        }
+        return true;
+      });
+      if (pendingModels.length === 0) continue;
+
       console.log(`🔄 Episode ${i + 1}/${episodesToProcess.length}: "${episode.title}"`);
       
       try {
         // Process all models in parallel for this episode
-        const episodeResults = await this.processEpisodeWithAllModels(episode);
+        const episodeResults = await this.processEpisodeWithAllModels(episode, pendingModels);
         
-        // Store results by model
+        // Store results by model, checkpointing each as soon as it is done
         episodeResults.forEach((result, model) => {
+          this.checkpoints.save(this.checkpointKey(episode, model), result);
           modelData.get(model)?.push(result);
         });
 
-        // Rate limiting between episodes (not between models)
-        if (i < episodesToProcess.length - 1) {
+        // Rate limiting between episodes (not between models); local servers have none
+        if (i < episodesToProcess.length - 1 && Array.from(this.providers.values()).some(isRateLimited)) {
           console.log(`  ⏱️ Waiting 3 seconds before next episode...\n`);
           await new Promise(resolve => setTimeout(resolve, 3000));
         }
@@ -716,86 +754,26 @@ ${text.substring(0, 12000)}`;
     }
 
     const processingTime = (Date.now() - startTime) / 1000;
-    console.log(`\n⏱️ Total processing time: ${processingTime.toFixed(1)} seconds\n`);
+    console.log(`\n⏱️ Total processing time: ${processingTime.toFixed(1)} seconds`);
+    console.log(`♻️ Reused ${reusedCount} checkpointed and ${Array.from(previousEpisodeIds.values()).reduce((sum, ids) => sum + ids.size, 0)} previously output episode extractions\n`);
 
     // Generate outputs for each model
     for (const model of availableModels) {
       const episodeData = modelData.get(model) || [];
-      const successCount = episodeData.length;
-
-      if (successCount > 0) {
-        console.log(`📊 Processing ${model.toUpperCase()} results...`);
-        
-        // Detect cross-episode relationships
-        const crossEpisodeRels = this.detectCrossEpisodeRelationships(episodeData);
-        
-        // Aggregate all entities and relationships
-        const allEntities: Entity[] = [];
-        const allRelationships: Relationship[] = [];
-        const amazonProducts: Entity[] = [];
-
-        for (const epData of episodeData) {
-          allEntities.push(...epData.entities);
-          allRelationships.push(...epData.relationships);
-          amazonProducts.push(...epData.entities.filter(e => e.amazon_searchable));
-        }
-
-        // Create comprehensive output
-        const graphOutput: GraphOutput = {
-          episodes: episodeData,
-          all_entities: allEntities,
-          all_relationships: allRelationships,
-          cross_episode_relationships: crossEpisodeRels,
-          amazon_products: amazonProducts,
-          extraction_metadata: {
-            total_episodes: successCount,
-            total_entities: allEntities.length,
-            total_relationships: allRelationships.length,
-            models_used: [model],
-            extracted_at: new Date().toISOString()
-          }
-        };
 
-        // Generate datetime stamp for filenames (YYYYMMDDHHMMSS format)
-        const now = new Date();
-        const dateTimeStamp = now.getFullYear().toString() +
-          (now.getMonth() + 1).toString().padStart(2, '0') +
-          now.getDate().toString().padStart(2, '0') +
-          now.getHours().toString().padStart(2, '0') +
-          now.getMinutes().toString().padStart(2, '0') +
-          now.getSeconds().toString().padStart(2, '0');
-        
-        // Save model-specific file in data folder with datetime stamp
-        const outputSuffix = this.testMode ? '-test' : '';
-        const modelOutputFile = path.join(process.cwd(), 'data', `nodejs-podcast-${model}${outputSuffix}_${dateTimeStamp}.json`);
-        fs.writeFileSync(modelOutputFile, JSON.stringify(graphOutput, null, 2));
-        console.log(`💾 Saved ${model} results to: ${modelOutputFile}`);
-
-        // Save relationships file for this model in data folder with datetime stamp
-        const relationshipsFile = path.join(process.cwd(), 'data', `nodejs-podcast-relationships-${model}${outputSuffix}_${dateTimeStamp}.json`);
-        const relationshipsOutput = {
-          relationships: allRelationships,
-          cross_episode_relationships: crossEpisodeRels,
-          metadata: {
-            extracted_by: model,
-            extracted_at: new Date().toISOString(),
-            total_relationships: allRelationships.length,
-            cross_episode_relationships: crossEpisodeRels.length
-          }
-        };
-        fs.writeFileSync(relationshipsFile, JSON.stringify(relationshipsOutput, null, 2));
-        
-        console.log(`📊 ${model.toUpperCase()} FINAL RESULTS:`);
-        console.log(`   ✅ Episodes: ${successCount}`);
-        console.log(`   🏷️ Entities: ${allEntities.length}`);
-        console.log(`   🔗 Relationships: ${allRelationships.length}`);
-        console.log(`   🌐 Cross-episode connections: ${crossEpisodeRels.length}`);
-        console.log(`   🛒 Amazon products: ${amazonProducts.length}\n`);
+      if (episodeData.length > 0) {
+        this.saveGraphOutput(model, episodeData, [model]);
       } else {
         console.log(`❌ No episodes successfully processed with ${model}\n`);
       }
     }
 
+    // Several models: one graph of what they agree on
+    const modelsWithResults = availableModels.filter(model => (modelData.get(model) || []).length > 0);
+    if (modelsWithResults.length > 1) {
+      this.saveConsensusOutput(new Map(modelsWithResults.map(model => [model, modelData.get(model)!])), consensusOptions);
+    }
+
     console.log(`🎉 Parallel graph entity extraction completed for all models!`);
     console.log(`⚡ Total time saved by parallel processing: ~${(processingTime * (availableModels.length - 1) / availableModels.length).toFixed(1)} seconds`);
   }
@@ -814,6 +792,52 @@ async function main() {
       ? 'nodejs-podcast-summary-test.json'
       : 'nodejs-podcast-summary.json';
 
+  // --local, --base-url=http://localhost:8080/v1 or --model=qwen2.5:14b use a local model server
+  const baseUrlArg = args.find(arg => arg.startsWith('--base-url='));
+  const modelArg = args.find(arg => arg.startsWith('--model='));
+  const localModel = args.includes('--local') || baseUrlArg || modelArg
+    ? { baseUrl: baseUrlArg?.split('=')[1], model: modelArg?.split('=')[1] }
+    : undefined;
+
+  // --resume reuses checkpoints, --only-new skips episodes in the latest output,
+  // --outdated re-extracts those from an older prompt version,
+  // --episodes=357,318 re-extracts those episodes into a copy of the latest output
+  const episodesArg = args.find(arg => arg.startsWith('--episodes='));
+  const runOptions = {
+    resume: args.includes('--resume'),
+    onlyNew: args.includes('--only-new'),
+    outdated: args.includes('--outdated'),
+    episodeNumbers: episodesArg ? episodesArg.split('=')[1].split(',').map(number => parseInt(number)) : undefined
+  };
+
+  // The models' outputs are merged into a consensus graph keeping facts at least
+  // --min-agreement models extracted; --merge-only merges the latest outputs without extracting
+  const minAgreementArg = args.find(arg => arg.startsWith('--min-agreement='));
+  const consensusOptions = {
+    minAgreement: minAgreementArg ? parseInt(minAgreementArg.split('=')[1]) : 1,
+    aliases: loadEntityAliases()
+  };
+
+  // --prompt-version=1 extracts with an earlier version of the graph-extraction prompt
+  const promptVersionArg = args.find(arg => arg.startsWith('--prompt-version='));
+  const promptVersion = promptVersionArg ? parseInt(promptVersionArg.split('=')[1]) : undefined;
+
+  // Transcripts are extracted in chunks of --chunk-size characters overlapping by --chunk-overlap
+  const chunkSizeArg = args.find(arg => arg.startsWith('--chunk-size='));
+  const chunkOverlapArg = args.find(arg => arg.startsWith('--chunk-overlap='));
+  const chunking = {
+    size: chunkSizeArg ? Number(chunkSizeArg.split('=')[1]) : DEFAULT_CHUNK_SIZE,
+    overlap: chunkOverlapArg ? Number(chunkOverlapArg.split('=')[1]) : DEFAULT_CHUNK_OVERLAP
+  };
+  if (!Number.isInteger(chunking.size) || chunking.size <= 0) {
+    console.error(`❌ --chunk-size must be a positive integer, got "${chunkSizeArg!.split('=')[1]}"`);
+    process.exit(1);
+  }
+  if (!Number.isInteger(chunking.overlap) || chunking.overlap < 0) {
+    console.error(`❌ --chunk-overlap must be a non-negative integer, got "${chunkOverlapArg!.split('=')[1]}"`);
+    process.exit(1);
+  }
+
   console.log('🎯 Comprehensive Graph Entity Extraction');
   console.log('=======================================');
   
@@ -821,10 +845,13 @@ async function main() {
     console.log(`🧪 TEST MODE: Processing ${episodeLimit} episodes only`);
   }
 
-  const extractor = new ComprehensiveGraphExtractor(isTestMode, episodeLimit);
-
   try {
-    await extractor.processWithAllModels(path.join(process.cwd(), inputFile));
+    const extractor = new ComprehensiveGraphExtractor(isTestMode, episodeLimit, localModel, chunking, promptVersion);
+    if (args.includes('--merge-only')) {
+      extractor.mergeLatestOutputs(consensusOptions);
+    } else {
+      await extractor.processWithAllModels(path.join(process.cwd(), inputFile), runOptions, consensusOptions);
+    }
   } catch (error) {
     console.error('❌ Fatal error:', error);
     process.exit(1);
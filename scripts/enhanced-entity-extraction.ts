@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { completeJson, getAvailableProviders, type LLMProvider } from './lib/llm';
+import { loadPrompt, renderPrompt, type RenderedPrompt } from './lib/prompts';
 
 // Load environment variables from .env.local manually
 try {
@@ -71,18 +73,16 @@ interface EpisodeData {
   relationships: Relationship[];
   extracted_by: string;
   extracted_at: string;
+  prompt_version: string;
 }
 
 class EnhancedEntityExtractor {
-  private openaiApiKey: string;
-  private anthropicApiKey: string;
-  private geminiApiKey: string;
+  readonly providers: LLMProvider[];
   private serpApiKey: string;
+  private prompt = loadPrompt('broad-extraction');
 
   constructor() {
-    this.openaiApiKey = process.env.OPENAI_API_KEY || '';
-    this.anthropicApiKey = process.env.ANTHROPIC_API_KEY || '';
-    this.geminiApiKey = process.env.GEMINI_API_KEY || '';
+    this.providers = getAvailableProviders('enhanced-entity-extraction', ['openai', 'anthropic', 'gemini']);
     this.serpApiKey = process.env.SERPAPI_KEY || '';
     
     if (!this.serpApiKey) {
@@ -158,160 +158,11 @@ class EnhancedEntityExtractor {
     return undefined;
   }
 
-  private createEnhancedExtractionPrompt(text: string, episodeTitle: string): string {
-    return `Extract named entities and relationships from this business podcast episode. 
-Use a LOWER THRESHOLD (0.4+) to capture MORE entities, including products that could be Amazon-searchable.
-
-EPISODE: "${episodeTitle}"
-
-ENTITY TYPES TO EXTRACT (with lower confidence threshold):
-1. PEOPLE: All mentioned individuals, even briefly referenced
-2. PLACES: Companies, organizations, locations, institutions  
-3. EVENTS: Any business events, launches, milestones
-4. OBJECTS: Technologies, strategies, methodologies, concepts
-5. MEDIA: Books, documentaries, movies, articles, ANY publications
-6. PRODUCTS: All physical/digital products, tools, software, brands
-
-AMAZON SEARCHABILITY CRITERIA (be very generous):
-Mark as amazon_searchable=true for:
-- Books, audiobooks, e-books, magazines, publications
-- Physical products, gadgets, electronics, devices
-- Tools, business supplies, equipment, office items
-- Software with retail versions, apps, platforms
-- Branded items, merchandise, clothing, accessories
-- Health, fitness, lifestyle products, supplements
-- Business tools, methodologies, frameworks (if they have book/course versions)
-- Technologies that have physical products or books about them
-- Any consumer goods, services with physical products
-- Educational content, courses, training materials
-- Even abstract concepts if they have related books or products
-
-For amazon_searchable items, provide 2-3 specific keywords for better Amazon search.
-
-Return ONLY valid JSON:
-{
-  "entities": [
-    {
-      "name": "Entity Name",
-      "type": "person|place|event|object|media|product", 
-      "context": "Why this entity is significant",
-      "amazon_searchable": true/false,
-      "amazon_keywords": ["keyword1", "keyword2"] or null,
-      "confidence_score": 0.4-1.0
-    }
-  ],
-  "relationships": [
-    {
-      "entity1_name": "First Entity",
-      "entity2_name": "Second Entity",
-      "relationship_type": "relationship_type", 
-      "description": "Description of relationship",
-      "confidence_score": 0.4-1.0
-    }
-  ]
-}
-
-TRANSCRIPT (first 6000 characters):
-${text.substring(0, 6000)}`;
-  }
-
-  private async makeOpenAIRequest(text: string, episodeTitle: string): Promise<any> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at extracting named entities from business podcasts. Use lower thresholds to extract more entities, especially Amazon-searchable products. Return only valid JSON.'
-          },
-          {
-            role: 'user',
-            content: this.createEnhancedExtractionPrompt(text, episodeTitle)
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 4000
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      throw new Error('Invalid OpenAI response format');
-    }
-    return JSON.parse(data.choices[0].message.content);
-  }
-
-  private async makeAnthropicRequest(text: string, episodeTitle: string): Promise<any> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST', 
-      headers: {
-        'x-api-key': this.anthropicApiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 4000,
-        temperature: 0.2,
-        messages: [{
-          role: 'user',
-          content: `You are an expert at extracting named entities from business podcasts. Use lower thresholds to extract more entities, especially Amazon-searchable products. Return only valid JSON.\n\n${this.createEnhancedExtractionPrompt(text, episodeTitle)}`
-        }]
-      })
+  private createEnhancedExtractionPrompt(text: string, episodeTitle: string): RenderedPrompt {
+    return renderPrompt(this.prompt, {
+      episode_title: episodeTitle,
+      transcript: text.substring(0, 6000)
     });
-
-    if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    if (!data.content || !data.content[0]) {
-      throw new Error('Invalid Anthropic response format');
-    }
-    const content = data.content[0].text;
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    return JSON.parse(jsonMatch ? jsonMatch[0] : content);
-  }
-
-  private async makeGeminiRequest(text: string, episodeTitle: string): Promise<any> {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${this.geminiApiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: `You are an expert at extracting named entities from business podcasts. Use lower thresholds to extract more entities, especially Amazon-searchable products. Return only valid JSON.\n\n${this.createEnhancedExtractionPrompt(text, episodeTitle)}`
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: 4000
-        }
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-      throw new Error('Invalid Gemini response format');
-    }
-    const content = data.candidates[0].content.parts[0].text;
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    return JSON.parse(jsonMatch ? jsonMatch[0] : content);
   }
 
   private async processExtractedEntities(
@@ -389,22 +240,14 @@ ${text.substring(0, 6000)}`;
     
     console.log(`\nExtracting entities from "${episode.title}" using ${modelName}...`);
     
-    let extractedData;
-    
-    switch (modelName.toLowerCase()) {
-      case 'openai':
-        extractedData = await this.makeOpenAIRequest(episode.text, episode.title);
-        break;
-      case 'anthropic':
-        extractedData = await this.makeAnthropicRequest(episode.text, episode.title);
-        break;
-      case 'gemini':
-        extractedData = await this.makeGeminiRequest(episode.text, episode.title);
-        break;
-      default:
-        throw new Error(`Unsupported model: ${modelName}`);
+    const provider = this.providers.find(candidate => candidate.name === modelName.toLowerCase());
+    if (!provider) {
+      throw new Error(`Unsupported model: ${modelName}`);
     }
 
+    const { system, prompt, version } = this.createEnhancedExtractionPrompt(episode.text, episode.title);
+    const { data: extractedData } = await completeJson(provider, { system, prompt, temperature: 0.2 });
+
     const { entities, relationships } = await this.processExtractedEntities(
       extractedData,
       episodeId,
@@ -417,7 +260,8 @@ ${text.substring(0, 6000)}`;
       entities,
       relationships,
       extracted_by: modelName,
-      extracted_at: new Date().toISOString()
+      extracted_at: new Date().toISOString(),
+      prompt_version: version
     };
   }
 }
@@ -432,7 +276,7 @@ async function main() {
     console.log(`Found ${podcastData.episodes.length} episodes`);
 
     const extractor = new EnhancedEntityExtractor();
-    const models = ['openai', 'anthropic', 'gemini'];
+    const models = extractor.providers.map(provider => provider.name);
     const testLimit = 1; // Test with 1 episode per model
 
     const allResults: { [key: string]: EpisodeData } = {};
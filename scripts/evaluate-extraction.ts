@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  evaluateExtraction,
+  type EvaluatedOutput,
+  type EvaluationReport,
+  type GoldEpisode,
+  type Score
+} from './lib/evaluation';
+import { findLatestOutputs, loadEntityAliases } from './lib/outputs';
+
+// F1 may drop this much below the baseline before the run fails
+const BASELINE_TOLERANCE = 0.01;
+
+interface SavedEvaluation {
+  output: string;
+  evaluated_at: string;
+  report: EvaluationReport;
+}
+
+function loadGold(goldDir: string): GoldEpisode[] {
+  if (!fs.existsSync(goldDir)) {
+    throw new Error(`Gold annotations not found: ${goldDir}`);
+  }
+  return fs.readdirSync(goldDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(goldDir, file), 'utf-8')) as GoldEpisode);
+}
+
+const formatScore = (label: string, score: Score) =>
+  `   ${label.padEnd(22)} P ${score.precision.toFixed(3)}  R ${score.recall.toFixed(3)}  F1 ${score.f1.toFixed(3)}  ` +
+  `(${score.true_positives} correct, ${score.false_positives} unexpected, ${score.false_negatives} missed)`;
+
+function printReport(file: string, report: EvaluationReport): void {
+  console.log(`\n📊 ${file}`);
+  console.log(formatScore('ENTITIES', report.entities));
+  Object.entries(report.entity_types).forEach(([type, score]) => console.log(formatScore(`  ${type}`, score)));
+  console.log(formatScore('RELATIONSHIPS', report.relationships));
+  Object.entries(report.relationship_types).forEach(([type, score]) => console.log(formatScore(`  ${type}`, score)));
+
+  for (const episode of report.episodes) {
+    console.log(`\n   🎙️ ${episode.episode_title}${episode.extracted ? '' : ' (not extracted)'}`);
+    if (episode.missed_entities.length > 0) console.log(`      ❌ Missed: ${episode.missed_entities.join(', ')}`);
+    if (episode.unexpected_entities.length > 0) console.log(`      ➕ Unexpected: ${episode.unexpected_entities.join(', ')}`);
+    if (episode.missed_relationships.length > 0) console.log(`      ❌ Missed: ${episode.missed_relationships.join('; ')}`);
+    if (episode.unexpected_relationships.length > 0) console.log(`      ➕ Unexpected: ${episode.unexpected_relationships.join('; ')}`);
+  }
+}
+
+// Overall, per-type F1 scores that fell more than the tolerance below the baseline
+function findRegressions(report: EvaluationReport, baseline: EvaluationReport): string[] {
+  const scores = (evaluation: EvaluationReport): Record<string, Score> => ({
+    entities: evaluation.entities,
+    relationships: evaluation.relationships,
+    ...Object.fromEntries(Object.entries(evaluation.entity_types).map(([type, score]) => [`entities.${type}`, score])),
+    ...Object.fromEntries(Object.entries(evaluation.relationship_types).map(([type, score]) => [`relationships.${type}`, score]))
+  });
+  const current = scores(report);
+
+  return Object.entries(scores(baseline))
+    .filter(([key, score]) => (current[key]?.f1 ?? 0) < score.f1 - BASELINE_TOLERANCE)
+    .map(([key, score]) => `${key}: F1 ${score.f1.toFixed(3)} → ${(current[key]?.f1 ?? 0).toFixed(3)}`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  // Outputs to score; by default the latest output of every model in data/
+  const files = args.filter(arg => !arg.startsWith('--'));
+  const outputFiles = files.length > 0 ? files : findLatestOutputs();
+
+  const goldArg = args.find(arg => arg.startsWith('--gold='));
+  const goldDir = goldArg ? goldArg.split('=')[1] : 'gold';
+  // --save=scores.json keeps the scores; --baseline=scores.json fails on a drop in F1
+  const saveArg = args.find(arg => arg.startsWith('--save='));
+  const baselineArg = args.find(arg => arg.startsWith('--baseline='));
+
+  console.log('🎯 Extraction Evaluation');
+  console.log('========================');
+
+  if (outputFiles.length === 0) {
+    console.error('❌ No extraction outputs to evaluate');
+    process.exit(1);
+  }
+  if (saveArg && outputFiles.length > 1) {
+    console.error('❌ --save needs a single output file');
+    process.exit(1);
+  }
+
+  try {
+    const gold = loadGold(goldDir);
+    const aliases = loadEntityAliases();
+    console.log(`📖 Loaded gold annotations for ${gold.length} episodes from ${goldDir}/`);
+
+    const baseline: SavedEvaluation | undefined = baselineArg
+      ? JSON.parse(fs.readFileSync(baselineArg.split('=')[1], 'utf-8'))
+      : undefined;
+    let regressed = false;
+
+    for (const file of outputFiles) {
+      const output = JSON.parse(fs.readFileSync(file, 'utf-8')) as EvaluatedOutput;
+      const report = evaluateExtraction(output, gold, aliases);
+      printReport(file, report);
+
+      if (saveArg) {
+        const saved: SavedEvaluation = { output: file, evaluated_at: new Date().toISOString(), report };
+        fs.writeFileSync(saveArg.split('=')[1], JSON.stringify(saved, null, 2));
+        console.log(`\n💾 Saved scores to: ${saveArg.split('=')[1]}`);
+      }
+
+      if (baseline) {
+        const regressions = findRegressions(report, baseline.report);
+        if (regressions.length > 0) {
+          regressed = true;
+          console.log(`\n⚠️ Worse than baseline ${baseline.output}:`);
+          regressions.forEach(regression => console.log(`   ${regression}`));
+        } else {
+          console.log(`\n✅ No regressions against baseline ${baseline.output}`);
+        }
+      }
+    }
+
+    if (regressed) process.exit(1);
+  } catch (error) {
+    console.error('❌ Evaluation failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,6 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { completeJson, getAvailableProviders, type LLMProvider } from './lib/llm';
+import { loadPrompt, renderPrompt, type RenderedPrompt } from './lib/prompts';
+import { resolveEntities } from '../src/lib/entity-resolution';
+import { linkEpisodes } from '../src/lib/episode-links';
+import { extractKeyPhrases, type KeyPhrase } from '../src/lib/key-phrases';
 
 // Simple UUID function using crypto
 function generateUUID(): string {
@@ -74,6 +79,7 @@ interface CrossEpisodeRelationship {
   episode2_id: string;
   episode2_title: string;
   shared_entities: string[];
+  shared_entity_ids?: string[];
   relationship_strength: number;
   common_themes: string[];
 }
@@ -88,6 +94,7 @@ interface EpisodeData {
   relationships: Relationship[];
   extracted_by: string;
   extracted_at: string;
+  prompt_version: string;
 }
 
 interface GraphOutput {
@@ -106,16 +113,13 @@ interface GraphOutput {
 }
 
 class GraphEntityExtractor {
-  private openaiApiKey: string;
-  private anthropicApiKey: string;
-  private groqApiKey: string;
+  readonly providers: LLMProvider[];
   private entityCache: Map<string, Entity[]> = new Map();
-  private globalEntities: Map<string, Entity> = new Map();
+  // The first graph prompt, over the opening 8000 characters; extract-graph uses later versions
+  private prompt = loadPrompt('graph-extraction', 1);
 
   constructor() {
-    this.openaiApiKey = process.env.openai || '';
-    this.anthropicApiKey = process.env.anthropic || '';
-    this.groqApiKey = process.env.groq || '';
+    this.providers = getAvailableProviders('extract-entities-graph', ['openai', 'anthropic', 'groq']);
   }
 
   private createEntityId(name: string, type: string, episodeId: string): string {
@@ -128,169 +132,11 @@ class GraphEntityExtractor {
     return `rel_${sorted[0]}_${sorted[1]}_${generateUUID().substring(0, 8)}`;
   }
 
-  private async makeOpenAIRequest(text: string, episodeTitle: string): Promise<any> {
-    const prompt = this.createEnhancedExtractionPrompt(text, episodeTitle);
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at extracting named entities and relationships from business podcast transcripts. You specialize in identifying Amazon-searchable products and creating knowledge graphs. Return only valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 4000
-      })
+  private createEnhancedExtractionPrompt(text: string, episodeTitle: string): RenderedPrompt {
+    return renderPrompt(this.prompt, {
+      episode_title: episodeTitle,
+      transcript: text.substring(0, 8000)
     });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    return JSON.parse(data.choices[0].message.content);
-  }
-
-  private async makeAnthropicRequest(text: string, episodeTitle: string): Promise<any> {
-    const prompt = this.createEnhancedExtractionPrompt(text, episodeTitle);
-    
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.anthropicApiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 4000,
-        temperature: 0.1,
-        messages: [
-          {
-            role: 'user',
-            content: `You are an expert at extracting named entities and relationships from business podcast transcripts. You specialize in identifying Amazon-searchable products and creating knowledge graphs. Return only valid JSON.\n\n${prompt}`
-          }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    const content = data.content[0].text;
-    
-    // Handle cases where Claude returns explanation before JSON
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    
-    return JSON.parse(content);
-  }
-
-  private async makeGroqRequest(text: string, episodeTitle: string): Promise<any> {
-    const prompt = this.createEnhancedExtractionPrompt(text, episodeTitle);
-    
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.groqApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama3-8b-8192',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at extracting named entities and relationships from business podcast transcripts. You specialize in identifying Amazon-searchable products and creating knowledge graphs. Return only valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 4000
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Groq API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    return JSON.parse(data.choices[0].message.content);
-  }
-
-  private createEnhancedExtractionPrompt(text: string, episodeTitle: string): string {
-    return `Extract named entities and relationships from this business podcast episode for building a knowledge graph.
-
-EPISODE: "${episodeTitle}"
-
-CRITICAL ENTITY TYPES TO EXTRACT:
-
-1. PEOPLE: Founders, entrepreneurs, CEOs, investors, historical business figures
-2. PLACES: Companies, organizations, countries, cities, institutions
-3. EVENTS: Product launches, acquisitions, IPOs, business milestones, historical events
-4. OBJECTS: Technologies, business strategies, methodologies, concepts, frameworks
-5. MEDIA: Books, documentaries, movies, podcasts, articles, publications
-6. PRODUCTS: Physical/digital products, services, brands, tools, software
-
-AMAZON PRODUCT FOCUS:
-For each entity, determine if it's searchable on Amazon for affiliate purposes:
-- Books, audiobooks, e-books
-- Physical products, gadgets, tools
-- Software with physical versions
-- Branded merchandise
-- Business tools and supplies
-
-For AMAZON-SEARCHABLE items, provide specific keywords for Amazon search.
-
-RELATIONSHIP EXTRACTION:
-Extract detailed relationships showing:
-- Business relationships (founded, invested_in, acquired, competed_with)
-- Influence relationships (inspired_by, mentored_by, influenced)
-- Product relationships (created, used, recommended)
-- Content relationships (wrote_book, appeared_in, featured_in)
-
-Return ONLY valid JSON in this exact format:
-{
-  "entities": [
-    {
-      "name": "Exact Entity Name",
-      "type": "person|place|event|object|media|product",
-      "context": "Detailed description and significance in episode",
-      "amazon_searchable": true/false,
-      "amazon_keywords": ["keyword1", "keyword2"] or null,
-      "confidence_score": 0.0-1.0
-    }
-  ],
-  "relationships": [
-    {
-      "entity1_name": "First Entity",
-      "entity2_name": "Second Entity", 
-      "relationship_type": "specific_relationship_type",
-      "description": "Detailed description of the relationship",
-      "confidence_score": 0.0-1.0
-    }
-  ]
-}
-
-TRANSCRIPT (first 8000 characters):
-${text.substring(0, 8000)}`;
   }
 
   private processExtractedEntities(
@@ -318,12 +164,6 @@ ${text.substring(0, 8000)}`;
         };
 
         entities.push(entity);
-        
-        // Add to global cache for cross-episode relationships
-        const globalKey = `${entity.name.toLowerCase()}_${entity.type}`;
-        if (!this.globalEntities.has(globalKey)) {
-          this.globalEntities.set(globalKey, entity);
-        }
       }
     }
 
@@ -362,87 +202,21 @@ ${text.substring(0, 8000)}`;
     return found ? found.id : null;
   }
 
-  public detectCrossEpisodeRelationships(allEpisodeData: EpisodeData[]): CrossEpisodeRelationship[] {
-    const crossEpisodeRels: CrossEpisodeRelationship[] = [];
-    
-    for (let i = 0; i < allEpisodeData.length; i++) {
-      for (let j = i + 1; j < allEpisodeData.length; j++) {
-        const episode1 = allEpisodeData[i];
-        const episode2 = allEpisodeData[j];
-        
-        const sharedEntities = this.findSharedEntities(episode1.entities, episode2.entities);
-        
-        if (sharedEntities.length > 0) {
-          const relationshipStrength = this.calculateRelationshipStrength(sharedEntities, episode1, episode2);
-          
-          if (relationshipStrength > 0.3) { // Threshold for meaningful connection
-            crossEpisodeRels.push({
-              id: `cross_${episode1.episode_id}_${episode2.episode_id}`,
-              episode1_id: episode1.episode_id,
-              episode1_title: episode1.episode_title,
-              episode2_id: episode2.episode_id,
-              episode2_title: episode2.episode_title,
-              shared_entities: sharedEntities.map(e => e.name),
-              relationship_strength: relationshipStrength,
-              common_themes: this.extractCommonThemes(sharedEntities)
-            });
-          }
-        }
-      }
-    }
-    
-    return crossEpisodeRels;
-  }
-
-  private findSharedEntities(entities1: Entity[], entities2: Entity[]): Entity[] {
-    const shared: Entity[] = [];
-    
-    for (const entity1 of entities1) {
-      for (const entity2 of entities2) {
-        if (entity1.name.toLowerCase() === entity2.name.toLowerCase() && 
-            entity1.type === entity2.type) {
-          shared.push(entity1);
-          break;
-        }
-      }
-    }
-    
-    return shared;
-  }
-
-  private calculateRelationshipStrength(sharedEntities: Entity[], ep1: EpisodeData, ep2: EpisodeData): number {
-    const totalEntities1 = ep1.entities.length;
-    const totalEntities2 = ep2.entities.length;
-    const sharedCount = sharedEntities.length;
-    
-    // Weight by entity types (people and companies are more significant)
-    let weightedScore = 0;
-    for (const entity of sharedEntities) {
-      switch (entity.type) {
-        case 'person': weightedScore += 3; break;
-        case 'place': weightedScore += 2.5; break;
-        case 'product': weightedScore += 2; break;
-        case 'media': weightedScore += 1.5; break;
-        default: weightedScore += 1; break;
+  // Links episodes through the entities (resolved across episodes) and transcript key phrases they share
+  public detectCrossEpisodeRelationships(allEpisodeData: EpisodeData[], keyPhrases: Map<string, KeyPhrase[]>): CrossEpisodeRelationship[] {
+    const entitiesByEpisode = new Map<string, { id: string, name: string }[]>();
+    for (const canonical of resolveEntities(allEpisodeData.flatMap(epData => epData.entities))) {
+      for (const episodeId of canonical.episode_ids) {
+        entitiesByEpisode.set(episodeId, [...(entitiesByEpisode.get(episodeId) || []), { id: canonical.id, name: canonical.name }]);
       }
     }
-    
-    return Math.min(1, (weightedScore / Math.max(totalEntities1, totalEntities2)) * 2);
-  }
 
-  private extractCommonThemes(sharedEntities: Entity[]): string[] {
-    const themes = new Set<string>();
-    
-    for (const entity of sharedEntities) {
-      // Extract themes based on entity types and context
-      if (entity.type === 'person') themes.add('Entrepreneurship');
-      if (entity.type === 'place' && entity.context.includes('company')) themes.add('Business Strategy');
-      if (entity.type === 'product') themes.add('Product Development');
-      if (entity.type === 'media' && entity.context.includes('book')) themes.add('Business Literature');
-      if (entity.amazon_searchable) themes.add('Recommended Products');
-    }
-    
-    return Array.from(themes);
+    return linkEpisodes(allEpisodeData.map(epData => ({
+      episode_id: epData.episode_id,
+      episode_title: epData.episode_title,
+      entities: entitiesByEpisode.get(epData.episode_id) || [],
+      key_phrases: keyPhrases.get(epData.episode_title) || []
+    })));
   }
 
   async extractFromEpisode(episode: Episode, modelName: string): Promise<EpisodeData> {
@@ -451,22 +225,14 @@ ${text.substring(0, 8000)}`;
     console.log(`Extracting entities from "${episode.title}" using ${modelName}...`);
     
     try {
-      let extractedData;
-      
-      switch (modelName.toLowerCase()) {
-        case 'openai':
-          extractedData = await this.makeOpenAIRequest(episode.text, episode.title);
-          break;
-        case 'anthropic':
-          extractedData = await this.makeAnthropicRequest(episode.text, episode.title);
-          break;
-        case 'groq':
-          extractedData = await this.makeGroqRequest(episode.text, episode.title);
-          break;
-        default:
-          throw new Error(`Unsupported model: ${modelName}`);
+      const provider = this.providers.find(candidate => candidate.name === modelName.toLowerCase());
+      if (!provider) {
+        throw new Error(`Unsupported model: ${modelName}`);
       }
 
+      const { system, prompt, version } = this.createEnhancedExtractionPrompt(episode.text, episode.title);
+      const { data: extractedData } = await completeJson(provider, { system, prompt });
+
       const { entities, relationships } = this.processExtractedEntities(
         extractedData, 
         episodeId, 
@@ -482,7 +248,8 @@ ${text.substring(0, 8000)}`;
         entities,
         relationships,
         extracted_by: modelName,
-        extracted_at: new Date().toISOString()
+        extracted_at: new Date().toISOString(),
+        prompt_version: version
       };
 
     } catch (error) {
@@ -505,9 +272,11 @@ async function main() {
     const podcastData: PodcastData = JSON.parse(rawData);
 
     console.log(`Found ${podcastData.episodes.length} episodes`);
+    // Keyed by title, since episode ids are generated during extraction
+    const keyPhrases = extractKeyPhrases(new Map(podcastData.episodes.map(episode => [episode.title, episode.text || ''])));
 
     const extractor = new GraphEntityExtractor();
-    const models = ['openai', 'anthropic', 'groq'];
+    const models = extractor.providers.map(provider => provider.name);
     const processLimit = 5; // Process first 5 episodes
 
     for (const model of models) {
@@ -541,7 +310,7 @@ async function main() {
 
       if (successCount > 0) {
         // Detect cross-episode relationships
-        const crossEpisodeRels = extractor.detectCrossEpisodeRelationships(episodeData);
+        const crossEpisodeRels = extractor.detectCrossEpisodeRelationships(episodeData, keyPhrases);
         
         // Aggregate all entities and relationships
         const allEntities: Entity[] = [];
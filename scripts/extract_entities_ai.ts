@@ -2,6 +2,8 @@
 
 import * as fs from 'fs';
 import * as crypto from 'crypto';
+import { getAvailableProviders, parseJsonResponse, withRetry, type CompletionResponse, type LLMProvider } from './lib/llm';
+import { loadPrompt, promptRef, renderPrompt, type RenderedPrompt } from './lib/prompts';
 
 // Simple UUID function using crypto
 function generateUUID(): string {
@@ -85,16 +87,16 @@ interface AIEpisodeData {
   relationships: AIRelationship[];
   processing_timestamp: string;
   model_used: string;
+  prompt_version?: string;
   token_usage?: number;
 }
 
 class AIEntityExtractor {
-  private openaiApiKey: string;
-  private anthropicApiKey: string;
+  readonly providers: LLMProvider[];
+  readonly prompt = loadPrompt('entity-extraction');
 
   constructor() {
-    this.openaiApiKey = process.env.OPENAI_API_KEY || process.env.openai || '';
-    this.anthropicApiKey = process.env.ANTHROPIC_API_KEY || process.env.anthropic || '';
+    this.providers = getAvailableProviders('extract-entities', ['openai', 'anthropic']);
   }
 
   generateEpisodeId(episode: Episode): string {
@@ -110,149 +112,22 @@ class AIEntityExtractor {
   }
 
   // Create the prompt for AI entity extraction
-  createExtractionPrompt(text: string, episodeTitle: string): string {
-    return `You are an expert entity extraction system. Analyze the following podcast episode transcript and extract structured information.
-
-EPISODE TITLE: "${episodeTitle}"
-
-EPISODE TRANSCRIPT:
-${text.substring(0, 12000)} ${text.length > 12000 ? '...[TRUNCATED]' : ''}
-
-INSTRUCTIONS:
-Extract entities in the following categories with HIGH ACCURACY:
-
-1. PERSON - Names of individuals (founders, entrepreneurs, historical figures, etc.)
-2. COMPANY - Business entities, organizations, corporations
-3. PRODUCT - Specific products, especially those available on Amazon (books, electronics, etc.)
-4. MEDIA - Books, movies, documentaries, podcasts, articles
-5. PLACE - Geographic locations, cities, countries, buildings
-6. EVENT - Historical events, business milestones, significant occurrences
-7. CONCEPT - Business concepts, strategies, principles, methodologies
-
-For PRODUCTS and MEDIA, prioritize items that could be found on Amazon for affiliate marketing.
-
-Also extract RELATIONSHIPS between entities (who founded what, who worked with whom, what happened where, etc.).
-
-Return your response as a JSON object with this EXACT structure:
-
-{
-  "entities": [
-    {
-      "name": "Entity Name",
-      "type": "PERSON|COMPANY|PRODUCT|MEDIA|PLACE|EVENT|CONCEPT",
-      "confidence": 0.0-1.0,
-      "context": "Brief context from text",
-      "amazon_searchable": true/false,
-      "category": "Books|Electronics|Business|etc",
-      "description": "Brief description",
-      "aliases": ["Alternative names"]
-    }
-  ],
-  "relationships": [
-    {
-      "source_entity": "Entity Name 1",
-      "target_entity": "Entity Name 2", 
-      "relationship_type": "FOUNDED_BY|AUTHORED_BY|WORKED_WITH|BASED_IN|RELATED_TO|etc",
-      "confidence": 0.0-1.0,
-      "context": "Context from text showing this relationship"
-    }
-  ]
-}
-
-Focus on:
-- High-confidence entities only (confidence > 0.7)
-- Amazon-searchable products and media (books especially)
-- Clear, unambiguous relationships
-- Proper categorization for affiliate linking
-
-Return ONLY the JSON object, no other text.`;
-  }
-
-  // Call OpenAI API
-  async callOpenAI(prompt: string): Promise<any> {
-    if (!this.openaiApiKey) {
-      throw new Error('OpenAI API key not found in .env.local');
-    }
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-1106-preview',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert entity extraction system that returns only valid JSON responses.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.1
-      })
+  createExtractionPrompt(text: string, episodeTitle: string): RenderedPrompt {
+    return renderPrompt(this.prompt, {
+      episode_title: episodeTitle,
+      transcript: `${text.substring(0, 12000)}${text.length > 12000 ? ' ...[TRUNCATED]' : ''}`
     });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    return {
-      content: data.choices[0].message.content,
-      usage: data.usage
-    };
   }
 
-  // Call Anthropic API
-  async callAnthropic(prompt: string): Promise<any> {
-    if (!this.anthropicApiKey) {
-      throw new Error('Anthropic API key not found in .env.local');
-    }
-
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': this.anthropicApiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 4000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-    return {
-      content: data.content[0].text,
-      usage: data.usage
-    };
+  // Call the model, retrying rate limits and server errors
+  async callModel(provider: LLMProvider, { system, prompt }: RenderedPrompt): Promise<CompletionResponse> {
+    return withRetry(`${provider.name} (${provider.model})`, () => provider.complete({ system, prompt }));
   }
 
   // Process extraction result
-  processAIResponse(response: any, episodeId: string, modelName: string): AIEpisodeData {
+  processAIResponse(response: CompletionResponse, episodeId: string, modelName: string): AIEpisodeData {
     try {
-      let jsonContent = response.content;
-      
-      // Clean up the response to ensure it's valid JSON
-      jsonContent = jsonContent.replace(/```json/g, '').replace(/```/g, '').trim();
-      
-      const parsed = JSON.parse(jsonContent);
+      const parsed = parseJsonResponse(response.content);
       
       const entities: AIEntity[] = (parsed.entities || []).map((entity: any) => ({
         id: this.generateEntityId(),
@@ -304,7 +179,8 @@ Return ONLY the JSON object, no other text.`;
   }
 
   // Process single episode with AI
-  async processEpisodeWithAI(episode: Episode, episodeId: string, modelName: 'openai' | 'anthropic'): Promise<AIEpisodeData> {
+  async processEpisodeWithAI(episode: Episode, episodeId: string, provider: LLMProvider): Promise<AIEpisodeData> {
+    const modelName = provider.name;
     const text = episode.text || '';
     if (!text || text.length < 100) {
       console.log(`⚠️  Insufficient text content for episode: ${episode.title}`);
@@ -325,15 +201,11 @@ Return ONLY the JSON object, no other text.`;
     try {
       console.log(`🤖 [${modelName.toUpperCase()}] Processing: ${episode.title}`);
       
-      let response;
-      if (modelName === 'openai') {
-        response = await this.callOpenAI(prompt);
-      } else {
-        response = await this.callAnthropic(prompt);
-      }
+      const response = await this.callModel(provider, prompt);
 
       const result = this.processAIResponse(response, episodeId, modelName);
       result.episode_number = episode.episode_number;
+      result.prompt_version = prompt.version;
       result.title = episode.title || 'Untitled';
 
       console.log(`   📋 Extracted ${result.entities.length} entities, ${result.relationships.length} relationships`);
@@ -375,22 +247,19 @@ async function processAllEpisodesWithAI() {
   const extractor = new AIEntityExtractor();
   
   // Check which AI models are available
-  const availableModels: Array<'openai' | 'anthropic'> = [];
-  if (process.env.OPENAI_API_KEY || process.env.openai) availableModels.push('openai');
-  if (process.env.ANTHROPIC_API_KEY || process.env.anthropic) availableModels.push('anthropic');
-  
-  if (availableModels.length === 0) {
-    throw new Error('❌ No AI API keys found in .env.local. Please add OPENAI_API_KEY or ANTHROPIC_API_KEY');
+  if (extractor.providers.length === 0) {
+    throw new Error('❌ No AI API keys found in .env.local. Please add OPENAI_API_KEY or ANTHROPIC_API_KEY, or set LLM_PROVIDERS=mock');
   }
 
-  console.log(`🤖 Available AI models: ${availableModels.join(', ').toUpperCase()}`);
+  console.log(`🤖 Available AI models: ${extractor.providers.map(provider => `${provider.name} (${provider.model})`).join(', ')}`);
   
   // Process a subset of episodes for testing (first 5 episodes)
   const testEpisodes = podcastData.episodes.slice(0, 5);
   console.log(`📊 Processing ${testEpisodes.length} episodes for testing...`);
 
   // Process with each available model
-  for (const modelName of availableModels) {
+  for (const provider of extractor.providers) {
+    const modelName = provider.name;
     console.log(`\n🚀 Starting ${modelName.toUpperCase()} processing...`);
     
     const modelResults: AIEpisodeData[] = [];
@@ -400,7 +269,7 @@ async function processAllEpisodesWithAI() {
     for (const episode of testEpisodes) {
       try {
         const episodeId = extractor.generateEpisodeId(episode);
-        const result = await extractor.processEpisodeWithAI(episode, episodeId, modelName);
+        const result = await extractor.processEpisodeWithAI(episode, episodeId, provider);
         
         modelResults.push(result);
         totalTokens += result.token_usage || 0;
@@ -419,6 +288,7 @@ async function processAllEpisodesWithAI() {
       metadata: {
         source_file: inputFile,
         model_used: modelName,
+        prompt_version: promptRef(extractor.prompt),
         total_episodes: processedCount,
         total_entities: modelResults.reduce((sum, ep) => sum + ep.entities.length, 0),
         total_relationships: modelResults.reduce((sum, ep) => sum + ep.relationships.length, 0),
@@ -0,0 +1,67 @@
+// Per-episode extraction results saved as soon as they are produced, so a long run
+// that stops part way can pick up where it left off. A checkpoint is keyed by the
+// episode, the exact model and the prompt version: changing either one means the
+// episode is extracted again instead of reusing a result from a different setup.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_CHECKPOINT_DIR = path.join('data', 'checkpoints');
+
+export interface CheckpointKey {
+  episodeId: string;
+  model: string;
+  promptVersion: string;
+}
+
+interface Checkpoint<T> {
+  episode_id: string;
+  model: string;
+  prompt_version: string;
+  saved_at: string;
+  data: T;
+}
+
+const toFileName = (value: string) => value.replace(/[^A-Za-z0-9._-]+/g, '_');
+
+export class CheckpointStore {
+  private root: string;
+
+  constructor(root: string = path.join(process.cwd(), DEFAULT_CHECKPOINT_DIR)) {
+    this.root = root;
+  }
+
+  private filePath(key: CheckpointKey): string {
+    return path.join(this.root, toFileName(key.model), toFileName(key.promptVersion), `${toFileName(key.episodeId)}.json`);
+  }
+
+  load<T>(key: CheckpointKey): T | undefined {
+    const file = this.filePath(key);
+    if (!fs.existsSync(file)) return undefined;
+
+    try {
+      return (JSON.parse(fs.readFileSync(file, 'utf-8')) as Checkpoint<T>).data;
+    } catch (error) {
+      // A checkpoint cut short by a crash is treated as missing
+      console.warn(`⚠️ Ignoring unreadable checkpoint ${file}:`, error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  }
+
+  // Written to a temporary file first so an interrupted write never leaves a partial checkpoint
+  save<T>(key: CheckpointKey, data: T): void {
+    const file = this.filePath(key);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    const checkpoint: Checkpoint<T> = {
+      episode_id: key.episodeId,
+      model: key.model,
+      prompt_version: key.promptVersion,
+      saved_at: new Date().toISOString(),
+      data
+    };
+    const temporary = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(checkpoint, null, 2));
+    fs.renameSync(temporary, file);
+  }
+}
@@ -0,0 +1,222 @@
+// Splits a full transcript into overlapping chunks small enough for one extraction
+// request, and merges the per-chunk extractions back into one per episode. Chunks
+// end on a timestamp marker where possible, otherwise on a paragraph or sentence
+// break, so a passage is rarely cut in half; the overlap catches the rest.
+
+import { normalizeEntityName } from '../../src/lib/entity-resolution';
+import { findQuote, normalizeQuote, parseTranscriptSegments } from '../../src/lib/transcript';
+import type { ExtractedEntity, ExtractedQuote, ExtractedRelationship, Extraction, ValidationReport } from './extraction-schema';
+
+export const DEFAULT_CHUNK_SIZE = 12000;
+export const DEFAULT_CHUNK_OVERLAP = 1000;
+
+export interface ChunkingOptions {
+  size: number;
+  overlap: number;
+}
+
+// Character range of a chunk in the transcript as stored
+export interface ChunkSpan {
+  index: number;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptChunk extends ChunkSpan {
+  text: string;
+}
+
+// One chunk an entity was extracted from; offset is where its name first occurs in
+// that chunk, null when the model paraphrased it
+export interface ChunkMention {
+  chunk: number;
+  offset: number | null;
+}
+
+export interface ChunkedEntity extends ExtractedEntity {
+  chunk_mentions: ChunkMention[];
+}
+
+export interface ChunkedRelationship extends ExtractedRelationship {
+  source_chunks: number[];
+}
+
+// offset is where the quote starts in the transcript as stored, null when the model
+// did not quote it word for word
+export interface ChunkedQuote extends ExtractedQuote {
+  offset: number | null;
+  source_chunks: number[];
+}
+
+export interface ChunkedExtraction {
+  entities: ChunkedEntity[];
+  relationships: ChunkedRelationship[];
+  quotes: ChunkedQuote[];
+}
+
+export interface ChunkResult {
+  chunk: TranscriptChunk;
+  extraction: Extraction;
+  report: ValidationReport;
+}
+
+// A break strictly inside (from, to): timestamp markers first, then paragraph, sentence
+// and word breaks
+function findBreak(text: string, from: number, to: number, markers: number[], pick: 'first' | 'last'): number | undefined {
+  const inRange = markers.filter(offset => offset > from && offset < to);
+  if (inRange.length > 0) return pick === 'first' ? inRange[0] : inRange[inRange.length - 1];
+
+  const window = text.slice(from, to);
+  for (const pattern of [/(?:<br>\s*){2,}|\n\s*\n/g, /[.!?]["')\]]?\s+/g, /\s+/g]) {
+    const ends = Array.from(window.matchAll(pattern), match => from + match.index! + match[0].length).filter(end => end < to);
+    if (ends.length > 0) return pick === 'first' ? ends[0] : ends[ends.length - 1];
+  }
+  return undefined;
+}
+
+export function chunkTranscript(text: string, options: ChunkingOptions = { size: DEFAULT_CHUNK_SIZE, overlap: DEFAULT_CHUNK_OVERLAP }): TranscriptChunk[] {
+  const { size } = options;
+  if (!(size > 0)) {
+    throw new Error(`Chunk size must be positive, got ${size}`);
+  }
+  const overlap = Math.max(0, Math.min(options.overlap, Math.floor(size / 2)));
+  const markers = parseTranscriptSegments(text).map(segment => segment.offset);
+  const chunks: TranscriptChunk[] = [];
+
+  let start = 0;
+  while (start < text.length) {
+    const end = start + size >= text.length
+      ? text.length
+      : findBreak(text, start + Math.floor(size / 2), start + size, markers, 'last') ?? start + size;
+    chunks.push({ index: chunks.length, start, end, text: text.slice(start, end) });
+    if (end >= text.length) break;
+
+    // The next chunk starts at the first clean break inside the overlap, and always
+    // after the current one starts
+    const next = findBreak(text, end - overlap, end, markers, 'first') ?? end - overlap;
+    start = next > start ? next : Math.max(end, start + 1);
+  }
+
+  return chunks;
+}
+
+const entityKey = (entity: ExtractedEntity) => `${entity.type}:${normalizeEntityName(entity.name)}`;
+
+function findOffset(chunk: TranscriptChunk, name: string): number | null {
+  const index = chunk.text.toLowerCase().indexOf(name.toLowerCase());
+  return index === -1 ? null : chunk.start + index;
+}
+
+function findQuoteOffset(chunk: TranscriptChunk, text: string): number | null {
+  const found = findQuote(chunk.text, text, []);
+  return found ? chunk.start + found.offset : null;
+}
+
+// Entities and relationships found in several chunks are merged: the highest
+// confidence wins, along with its context or description, and every chunk is recorded.
+// A quote from the overlap of two chunks is kept once, with the attribution either gave it
+export function mergeChunkExtractions(results: ChunkResult[]): ChunkedExtraction {
+  const entities = new Map<string, ChunkedEntity>();
+  const relationships = new Map<string, ChunkedRelationship>();
+  const quotes = new Map<string, ChunkedQuote>();
+
+  for (const { chunk, extraction } of results) {
+    const keysByName = new Map<string, string>();
+
+    for (const entity of extraction.entities) {
+      const key = entityKey(entity);
+      keysByName.set(entity.name.toLowerCase(), key);
+      const mention = { chunk: chunk.index, offset: findOffset(chunk, entity.name) };
+      const existing = entities.get(key);
+
+      if (!existing) {
+        entities.set(key, { ...entity, chunk_mentions: [mention] });
+        continue;
+      }
+
+      const keywords = Array.from(new Set([...(existing.amazon_keywords || []), ...(entity.amazon_keywords || [])]));
+      const better = entity.confidence_score > existing.confidence_score ? entity : existing;
+      entities.set(key, {
+        ...existing,
+        context: better.context || existing.context || entity.context,
+        confidence_score: better.confidence_score,
+        amazon_searchable: existing.amazon_searchable || entity.amazon_searchable,
+        amazon_keywords: keywords.length > 0 ? keywords : undefined,
+        chunk_mentions: [...existing.chunk_mentions, mention]
+      });
+    }
+
+    for (const relationship of extraction.relationships) {
+      const source = entities.get(keysByName.get(relationship.entity1_name.toLowerCase())!)!;
+      const target = entities.get(keysByName.get(relationship.entity2_name.toLowerCase())!)!;
+      const key = `${entityKey(source)}|${relationship.relationship_type.toLowerCase()}|${entityKey(target)}`;
+      const existing = relationships.get(key);
+      const merged = { ...relationship, entity1_name: source.name, entity2_name: target.name };
+
+      if (!existing) {
+        relationships.set(key, { ...merged, source_chunks: [chunk.index] });
+      } else {
+        const better = relationship.confidence_score > existing.confidence_score ? merged : existing;
+        relationships.set(key, {
+          ...better,
+          source_chunks: existing.source_chunks.includes(chunk.index) ? existing.source_chunks : [...existing.source_chunks, chunk.index]
+        });
+      }
+    }
+
+    for (const quote of extraction.quotes) {
+      const key = normalizeQuote(quote.text);
+      const existing = quotes.get(key);
+      const merged: ChunkedQuote = {
+        ...quote,
+        speaker: quote.speaker && entities.get(keysByName.get(quote.speaker.toLowerCase()) || '')?.name || quote.speaker,
+        source: quote.source && entities.get(keysByName.get(quote.source.toLowerCase()) || '')?.name || quote.source,
+        offset: findQuoteOffset(chunk, quote.text),
+        source_chunks: [chunk.index]
+      };
+
+      if (!existing) {
+        quotes.set(key, merged);
+        continue;
+      }
+
+      const better = quote.confidence_score > existing.confidence_score ? merged : existing;
+      quotes.set(key, {
+        ...better,
+        speaker: better.speaker || existing.speaker || merged.speaker,
+        source: better.source || existing.source || merged.source,
+        offset: existing.offset ?? merged.offset,
+        source_chunks: existing.source_chunks.includes(chunk.index) ? existing.source_chunks : [...existing.source_chunks, chunk.index]
+      });
+    }
+  }
+
+  return {
+    entities: Array.from(entities.values()),
+    relationships: Array.from(relationships.values()),
+    quotes: Array.from(quotes.values())
+  };
+}
+
+// One report per episode: counts are summed and issue paths name their chunk
+export function mergeChunkReports(results: ChunkResult[]): ValidationReport {
+  const reports = results.map(result => result.report);
+  const prefix = (index: number, issues: ValidationReport['issues']) =>
+    issues.map(issue => ({ ...issue, path: `chunks[${index}].${issue.path}` }));
+  const initialIssues = results.flatMap(({ chunk, report }) => report.initial_issues ? prefix(chunk.index, report.initial_issues) : []);
+
+  return {
+    model: reports[0]?.model || '',
+    valid: reports.every(report => report.valid),
+    repair_attempted: reports.some(report => report.repair_attempted),
+    repaired: reports.some(report => report.repaired),
+    entities: reports.reduce((sum, report) => sum + report.entities, 0),
+    relationships: reports.reduce((sum, report) => sum + report.relationships, 0),
+    quotes: reports.reduce((sum, report) => sum + report.quotes, 0),
+    dropped_entities: reports.reduce((sum, report) => sum + report.dropped_entities, 0),
+    dropped_relationships: reports.reduce((sum, report) => sum + report.dropped_relationships, 0),
+    dropped_quotes: reports.reduce((sum, report) => sum + report.dropped_quotes, 0),
+    issues: results.flatMap(({ chunk, report }) => prefix(chunk.index, report.issues)),
+    ...(initialIssues.length > 0 ? { initial_issues: initialIssues } : {})
+  };
+}
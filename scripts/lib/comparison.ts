@@ -0,0 +1,226 @@
+// Compares two or more extraction outputs (models, or prompt versions of one model)
+// episode by episode. Entities are aligned the same way the consensus merge aligns
+// them, so "unique to a model" here means the merge would give it an agreement of 1.
+
+import { resolveEntities, type EntityAliasMap } from '../../src/lib/entity-resolution';
+
+// The parts of an extraction output the comparison reads
+export interface ComparableOutput {
+  episodes: {
+    episode_id: string;
+    episode_title: string;
+    episode_number?: number;
+    entities: { id: string; episode_id: string; name: string; type: string; context: string; confidence_score?: number }[];
+    relationships: { entity1_id: string; entity2_id: string; relationship_type: string; confidence_score?: number }[];
+  }[];
+  extraction_metadata?: { models_used?: string[] };
+}
+
+export interface LabelledOutput {
+  label: string;
+  output: ComparableOutput;
+}
+
+// Ten buckets of 0.1; a score of 1 goes in the last one
+export type ConfidenceHistogram = number[];
+
+export interface OutputSummary {
+  label: string;
+  models_used: string[];
+  episodes: number;
+  entities: number;
+  relationships: number;
+  entity_types: Record<string, number>;
+  entity_confidence: ConfidenceHistogram;
+  relationship_confidence: ConfidenceHistogram;
+}
+
+export interface PairScore {
+  a: string;
+  b: string;
+  shared_entities: number;
+  entity_jaccard: number;
+  shared_relationships: number;
+  relationship_jaccard: number;
+}
+
+export interface TypeDifference {
+  entity: string;
+  types: Record<string, string>;
+}
+
+export interface EpisodeComparison {
+  episode_id: string;
+  episode_title: string;
+  episode_number?: number;
+  // Missing for an output that has no extraction of the episode
+  counts: Record<string, { entities: number; relationships: number } | undefined>;
+  pairs: PairScore[];
+  unique_entities: Record<string, string[]>;
+  unique_relationships: Record<string, string[]>;
+  type_differences: TypeDifference[];
+}
+
+export interface ComparisonReport {
+  generated_at: string;
+  outputs: OutputSummary[];
+  // Summed over the episodes both outputs extracted
+  pairs: PairScore[];
+  episodes: EpisodeComparison[];
+}
+
+function histogram(scores: (number | undefined)[]): ConfidenceHistogram {
+  const buckets: ConfidenceHistogram = new Array(10).fill(0);
+  scores.forEach(score => {
+    if (score === undefined) return;
+    buckets[Math.min(9, Math.max(0, Math.floor(score * 10)))]++;
+  });
+  return buckets;
+}
+
+function summarize({ label, output }: LabelledOutput): OutputSummary {
+  const entities = output.episodes.flatMap(episode => episode.entities);
+  const relationships = output.episodes.flatMap(episode => episode.relationships);
+  const entityTypes: Record<string, number> = {};
+  entities.forEach(entity => { entityTypes[entity.type] = (entityTypes[entity.type] || 0) + 1; });
+
+  return {
+    label,
+    models_used: output.extraction_metadata?.models_used || [],
+    episodes: output.episodes.length,
+    entities: entities.length,
+    relationships: relationships.length,
+    entity_types: entityTypes,
+    entity_confidence: histogram(entities.map(entity => entity.confidence_score)),
+    relationship_confidence: histogram(relationships.map(rel => rel.confidence_score))
+  };
+}
+
+const jaccard = (shared: number, a: number, b: number) =>
+  a + b - shared === 0 ? 1 : Math.round((shared / (a + b - shared)) * 1000) / 1000;
+
+const intersectionSize = (a: Set<string>, b: Set<string>) => Array.from(a).filter(key => b.has(key)).length;
+
+interface EpisodeFacts {
+  entities: Map<string, Set<string>>;
+  relationships: Map<string, Set<string>>;
+}
+
+function compareEpisode(
+  episodeId: string,
+  outputs: LabelledOutput[],
+  aliases: EntityAliasMap
+): { comparison: EpisodeComparison; facts: EpisodeFacts } {
+  const episodes = outputs.map(({ label, output }) => ({ label, episode: output.episodes.find(ep => ep.episode_id === episodeId) }));
+  const present = episodes.filter(({ episode }) => episode);
+  const first = present[0].episode!;
+
+  // Types are ignored while aligning, so a type disagreement is still a shared entity
+  const groups = resolveEntities(
+    present.flatMap(({ label, episode }) => episode!.entities.map(entity => ({ ...entity, id: `${label}|${entity.id}`, type: 'entity' }))),
+    aliases
+  );
+  const groupOf = new Map<string, { key: string; name: string }>();
+  groups.forEach(group => group.mentions.forEach(mention => groupOf.set(mention.entity_id, { key: group.id, name: group.name })));
+
+  const facts: EpisodeFacts = { entities: new Map(), relationships: new Map() };
+  const names = new Map<string, string>();
+  const typesByGroup = new Map<string, Record<string, string>>();
+  for (const { label, episode } of present) {
+    const entityKeys = new Set<string>();
+    const relationshipKeys = new Set<string>();
+    for (const entity of episode!.entities) {
+      const group = groupOf.get(`${label}|${entity.id}`);
+      if (!group) continue;
+      entityKeys.add(group.key);
+      names.set(group.key, group.name);
+      typesByGroup.set(group.key, { ...(typesByGroup.get(group.key) || {}), [label]: entity.type });
+    }
+    for (const rel of episode!.relationships) {
+      const source = groupOf.get(`${label}|${rel.entity1_id}`);
+      const target = groupOf.get(`${label}|${rel.entity2_id}`);
+      if (!source || !target) continue;
+      const key = `${source.key}|${rel.relationship_type.trim().toLowerCase()}|${target.key}`;
+      relationshipKeys.add(key);
+      names.set(key, `${source.name} —${rel.relationship_type.trim().toLowerCase()}→ ${target.name}`);
+    }
+    facts.entities.set(label, entityKeys);
+    facts.relationships.set(label, relationshipKeys);
+  }
+
+  const pairs: PairScore[] = [];
+  for (let i = 0; i < present.length; i++) {
+    for (let j = i + 1; j < present.length; j++) {
+      pairs.push(scorePair(present[i].label, present[j].label, [facts]));
+    }
+  }
+
+  const uniqueTo = (sets: Map<string, Set<string>>, label: string) => Array.from(sets.get(label)!)
+    .filter(key => present.every(other => other.label === label || !sets.get(other.label)!.has(key)))
+    .map(key => names.get(key)!)
+    .sort();
+
+  return {
+    facts,
+    comparison: {
+      episode_id: episodeId,
+      episode_title: first.episode_title,
+      episode_number: first.episode_number,
+      counts: Object.fromEntries(episodes.map(({ label, episode }) => [
+        label,
+        episode ? { entities: episode.entities.length, relationships: episode.relationships.length } : undefined
+      ])),
+      pairs,
+      unique_entities: Object.fromEntries(present.map(({ label }) => [label, uniqueTo(facts.entities, label)])),
+      unique_relationships: Object.fromEntries(present.map(({ label }) => [label, uniqueTo(facts.relationships, label)])),
+      type_differences: Array.from(typesByGroup.entries())
+        .filter(([, types]) => new Set(Object.values(types)).size > 1)
+        .map(([key, types]) => ({ entity: names.get(key)!, types }))
+    }
+  };
+}
+
+function scorePair(a: string, b: string, episodes: EpisodeFacts[]): PairScore {
+  let shared = 0, totalA = 0, totalB = 0, sharedRels = 0, totalRelsA = 0, totalRelsB = 0;
+  for (const facts of episodes) {
+    const [entitiesA, entitiesB] = [facts.entities.get(a), facts.entities.get(b)];
+    const [relsA, relsB] = [facts.relationships.get(a), facts.relationships.get(b)];
+    if (!entitiesA || !entitiesB || !relsA || !relsB) continue;
+    shared += intersectionSize(entitiesA, entitiesB);
+    totalA += entitiesA.size;
+    totalB += entitiesB.size;
+    sharedRels += intersectionSize(relsA, relsB);
+    totalRelsA += relsA.size;
+    totalRelsB += relsB.size;
+  }
+
+  return {
+    a,
+    b,
+    shared_entities: shared,
+    entity_jaccard: jaccard(shared, totalA, totalB),
+    shared_relationships: sharedRels,
+    relationship_jaccard: jaccard(sharedRels, totalRelsA, totalRelsB)
+  };
+}
+
+export function compareOutputs(outputs: LabelledOutput[], aliases: EntityAliasMap = {}): ComparisonReport {
+  const episodeIds = Array.from(new Set(outputs.flatMap(({ output }) => output.episodes.map(episode => episode.episode_id))));
+  const compared = episodeIds.map(episodeId => compareEpisode(episodeId, outputs, aliases));
+
+  const pairs: PairScore[] = [];
+  for (let i = 0; i < outputs.length; i++) {
+    for (let j = i + 1; j < outputs.length; j++) {
+      pairs.push(scorePair(outputs[i].label, outputs[j].label, compared.map(({ facts }) => facts)));
+    }
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    outputs: outputs.map(summarize),
+    pairs,
+    episodes: compared
+      .map(({ comparison }) => comparison)
+      .sort((a, b) => (b.episode_number ?? 0) - (a.episode_number ?? 0))
+  };
+}
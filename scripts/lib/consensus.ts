@@ -0,0 +1,218 @@
+// Merges the extractions several models made of the same episode into one. Entities
+// are aligned the way entities are resolved across episodes (normalized names,
+// acronyms and the alias map), relationships by their aligned ends and type, quotes
+// by their words. Each merged fact keeps how many models agreed on it and which
+// records it came from.
+
+import { resolveEntities, type EntityAliasMap } from '../../src/lib/entity-resolution';
+import { normalizeQuote } from '../../src/lib/transcript';
+
+// Minimal shapes of one model's extraction, so the extraction script can pass its own types
+export interface ModelEntity {
+  id: string;
+  episode_id: string;
+  name: string;
+  type: string;
+  context: string;
+  amazon_searchable: boolean;
+  amazon_keywords?: string[];
+  confidence_score?: number;
+}
+
+export interface ModelRelationship {
+  id: string;
+  entity1_id: string;
+  entity1_name: string;
+  entity2_id: string;
+  entity2_name: string;
+  relationship_type: string;
+  description: string;
+  confidence_score?: number;
+}
+
+export interface ModelQuote {
+  id: string;
+  text: string;
+  speaker_id?: string;
+  speaker_name?: string;
+  source_id?: string;
+  source_name?: string;
+  confidence_score?: number;
+}
+
+export interface ModelExtraction<E extends ModelEntity, R extends ModelRelationship, Q extends ModelQuote = ModelQuote> {
+  // Provider key, e.g. "openai"
+  model: string;
+  entities: E[];
+  relationships: R[];
+  // Missing from extractions made before quotes were extracted
+  quotes?: Q[];
+}
+
+// One model's record of a merged fact
+export interface Provenance {
+  model: string;
+  id: string;
+  name: string;
+  confidence_score?: number;
+}
+
+export interface ConsensusFields {
+  // Number of models that extracted the fact
+  agreement: number;
+  models: string[];
+  // Confidence of each agreeing model summed and divided by the number of models
+  // that extracted the episode, so a fact one model of three found scores a third
+  consensus_confidence: number;
+  provenance: Provenance[];
+}
+
+export interface ConsensusOptions {
+  // Facts extracted by fewer models are left out
+  minAgreement: number;
+  aliases?: EntityAliasMap;
+}
+
+export interface ConsensusExtraction<E extends ModelEntity, R extends ModelRelationship, Q extends ModelQuote = ModelQuote> {
+  entities: (E & ConsensusFields)[];
+  relationships: (R & ConsensusFields)[];
+  quotes: (Q & ConsensusFields)[];
+}
+
+const confidence = (item: { confidence_score?: number }) => item.confidence_score ?? 0;
+
+function consensusFields(records: { model: string; item: { id: string; confidence_score?: number }; name: string }[], modelCount: number): ConsensusFields {
+  // A model that produced the fact twice (e.g. under two types) counts once, at its best confidence
+  const bestByModel = new Map<string, number>();
+  records.forEach(({ model, item }) => bestByModel.set(model, Math.max(bestByModel.get(model) ?? 0, confidence(item))));
+  const total = Array.from(bestByModel.values()).reduce((sum, value) => sum + value, 0);
+
+  return {
+    agreement: bestByModel.size,
+    models: Array.from(bestByModel.keys()).sort(),
+    consensus_confidence: Math.round((total / modelCount) * 1000) / 1000,
+    provenance: records.map(({ model, item, name }) => ({ model, id: item.id, name, confidence_score: item.confidence_score }))
+  };
+}
+
+// The type most models gave; ties go to the most confident record
+function pickType<E extends ModelEntity>(records: { model: string; item: E }[]): string {
+  const votes = new Map<string, Set<string>>();
+  records.forEach(({ model, item }) => votes.set(item.type, (votes.get(item.type) || new Set()).add(model)));
+  const best = Math.max(...Array.from(votes.values()).map(models => models.size));
+  const tied = records.filter(({ item }) => votes.get(item.type)!.size === best);
+  return tied.sort((a, b) => confidence(b.item) - confidence(a.item))[0].item.type;
+}
+
+// Models quoting more or less of the same passage agree on it, so a quote joins the
+// first group whose words contain it or are contained in it
+function groupQuotes<Q extends ModelQuote>(extractions: { model: string; quotes?: Q[] }[]): { model: string; item: Q }[][] {
+  const groups: { words: string; members: { model: string; item: Q }[] }[] = [];
+  for (const { model, quotes } of extractions) {
+    for (const item of quotes || []) {
+      const words = normalizeQuote(item.text);
+      if (!words) continue;
+      const group = groups.find(candidate => candidate.words.includes(words) || words.includes(candidate.words));
+      if (group) {
+        group.members.push({ model, item });
+      } else {
+        groups.push({ words, members: [{ model, item }] });
+      }
+    }
+  }
+  return groups.map(group => group.members);
+}
+
+export function mergeModelExtractions<E extends ModelEntity, R extends ModelRelationship, Q extends ModelQuote = ModelQuote>(
+  extractions: ModelExtraction<E, R, Q>[],
+  options: ConsensusOptions = { minAgreement: 1 }
+): ConsensusExtraction<E, R, Q> {
+  const modelCount = extractions.length;
+  const records = new Map<string, { model: string; item: E }>();
+  extractions.forEach(({ model, entities }) => entities.forEach(item => records.set(`${model}|${item.id}`, { model, item })));
+
+  // Types are ignored while aligning so a model calling Amazon a place still agrees
+  // with one calling it a product; the majority type is kept
+  const groups = resolveEntities(
+    Array.from(records.entries()).map(([key, { item }]) => ({ ...item, id: key, type: 'entity' })),
+    options.aliases
+  );
+
+  const entities: (E & ConsensusFields)[] = [];
+  const entityIds = new Map<string, E & ConsensusFields>();
+  for (const group of groups) {
+    const members = group.mentions.map(mention => records.get(mention.entity_id)!);
+    const fields = consensusFields(members.map(({ model, item }) => ({ model, item, name: item.name })), modelCount);
+    if (fields.agreement < options.minAgreement) continue;
+
+    const type = pickType(members);
+    const representative = members
+      .filter(({ item }) => item.type === type)
+      .sort((a, b) => confidence(b.item) - confidence(a.item))[0].item;
+    const keywords = Array.from(new Set(members.flatMap(({ item }) => item.amazon_keywords || [])));
+    const entity = {
+      ...representative,
+      name: group.name,
+      amazon_searchable: members.some(({ item }) => item.amazon_searchable),
+      amazon_keywords: keywords.length > 0 ? keywords : undefined,
+      confidence_score: fields.consensus_confidence,
+      ...fields
+    };
+    entities.push(entity);
+    members.forEach(({ model, item }) => entityIds.set(`${model}|${item.id}`, entity));
+  }
+
+  const relationshipGroups = new Map<string, { model: string; item: R; source: E & ConsensusFields; target: E & ConsensusFields }[]>();
+  for (const { model, relationships } of extractions) {
+    for (const item of relationships) {
+      const source = entityIds.get(`${model}|${item.entity1_id}`);
+      const target = entityIds.get(`${model}|${item.entity2_id}`);
+      if (!source || !target || source === target) continue;
+
+      const key = `${source.id}|${item.relationship_type.trim().toLowerCase()}|${target.id}`;
+      relationshipGroups.set(key, [...(relationshipGroups.get(key) || []), { model, item, source, target }]);
+    }
+  }
+
+  const relationships: (R & ConsensusFields)[] = [];
+  for (const members of Array.from(relationshipGroups.values())) {
+    const fields = consensusFields(members.map(({ model, item }) => ({ model, item, name: item.relationship_type })), modelCount);
+    if (fields.agreement < options.minAgreement) continue;
+
+    const { item, source, target } = members.sort((a, b) => confidence(b.item) - confidence(a.item))[0];
+    relationships.push({
+      ...item,
+      entity1_id: source.id,
+      entity1_name: source.name,
+      entity2_id: target.id,
+      entity2_name: target.name,
+      confidence_score: fields.consensus_confidence,
+      ...fields
+    });
+  }
+
+  // Attributions point at the merged entities; one whose entity was left out keeps its name only
+  const quotes: (Q & ConsensusFields)[] = [];
+  for (const members of groupQuotes(extractions)) {
+    const fields = consensusFields(members.map(({ model, item }) => ({ model, item, name: item.text })), modelCount);
+    if (fields.agreement < options.minAgreement) continue;
+
+    const ranked = members.sort((a, b) => confidence(b.item) - confidence(a.item));
+    const attribution = (idField: 'speaker_id' | 'source_id', nameField: 'speaker_name' | 'source_name') => {
+      const attributed = ranked.find(({ item }) => item[nameField]);
+      if (!attributed) return { [idField]: undefined, [nameField]: undefined };
+      const entity = attributed.item[idField] ? entityIds.get(`${attributed.model}|${attributed.item[idField]}`) : undefined;
+      return { [idField]: entity?.id, [nameField]: entity ? entity.name : attributed.item[nameField] };
+    };
+
+    quotes.push({
+      ...ranked[0].item,
+      ...attribution('speaker_id', 'speaker_name'),
+      ...attribution('source_id', 'source_name'),
+      confidence_score: fields.consensus_confidence,
+      ...fields
+    });
+  }
+
+  return { entities, relationships, quotes };
+}
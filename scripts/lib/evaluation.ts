@@ -0,0 +1,213 @@
+// Scores an extraction output against hand-labelled gold annotations (gold/*.json),
+// reporting precision, recall and F1 per entity type and per relationship type. Names
+// are compared the way entities are resolved across episodes, so "Jimmy Choo Ltd."
+// matches a gold "Jimmy Choo"; gold aliases cover names that normalize differently.
+
+import { normalizeEntityName, type EntityAliasMap } from '../../src/lib/entity-resolution';
+
+export interface GoldEntity {
+  name: string;
+  type: string;
+  aliases?: string[];
+  // Neither credited nor penalized, e.g. sponsors read out in the episode
+  optional?: boolean;
+}
+
+export interface GoldRelationship {
+  entity1_name: string;
+  entity2_name: string;
+  relationship_type: string;
+  // Other types that describe the relationship just as well
+  accepted_types?: string[];
+}
+
+export interface GoldEpisode {
+  episode_id: string;
+  episode_number?: number;
+  episode_title: string;
+  entities: GoldEntity[];
+  relationships: GoldRelationship[];
+}
+
+// The parts of an extraction output the evaluation reads
+export interface EvaluatedOutput {
+  episodes: {
+    episode_id: string;
+    entities: { id: string; name: string; type: string }[];
+    relationships: { entity1_id: string; entity2_id: string; relationship_type: string }[];
+  }[];
+}
+
+export interface Score {
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EpisodeEvaluation {
+  episode_id: string;
+  episode_title: string;
+  // False when the output has no extraction of the episode; it then scores as all misses
+  extracted: boolean;
+  missed_entities: string[];
+  unexpected_entities: string[];
+  missed_relationships: string[];
+  unexpected_relationships: string[];
+}
+
+export interface EvaluationReport {
+  entities: Score;
+  relationships: Score;
+  entity_types: Record<string, Score>;
+  relationship_types: Record<string, Score>;
+  episodes: EpisodeEvaluation[];
+}
+
+interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function toScore({ tp, fp, fn }: Counts): Score {
+  const precision = tp + fp === 0 ? 0 : tp / (tp + fp);
+  const recall = tp + fn === 0 ? 0 : tp / (tp + fn);
+  return {
+    true_positives: tp,
+    false_positives: fp,
+    false_negatives: fn,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall))
+  };
+}
+
+export const normalizeRelationshipLabel = (type: string) => type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+function count(counts: Map<string, Counts>, key: string, field: keyof Counts) {
+  const entry = counts.get(key) || { tp: 0, fp: 0, fn: 0 };
+  entry[field]++;
+  counts.set(key, entry);
+}
+
+function total(counts: Map<string, Counts>): Counts {
+  return Array.from(counts.values()).reduce((sum, entry) => ({ tp: sum.tp + entry.tp, fp: sum.fp + entry.fp, fn: sum.fn + entry.fn }), { tp: 0, fp: 0, fn: 0 });
+}
+
+export function evaluateExtraction(output: EvaluatedOutput, gold: GoldEpisode[], aliases: EntityAliasMap = {}): EvaluationReport {
+  const aliasMap = new Map(Object.entries(aliases).map(([alias, target]) => [normalizeEntityName(alias), normalizeEntityName(target)]));
+  const nameKey = (name: string) => {
+    const key = normalizeEntityName(name);
+    return aliasMap.get(key) || key;
+  };
+
+  const entityCounts = new Map<string, Counts>();
+  const relationshipCounts = new Map<string, Counts>();
+  const episodes: EpisodeEvaluation[] = [];
+
+  for (const goldEpisode of gold) {
+    const extracted = output.episodes.find(episode => episode.episode_id === goldEpisode.episode_id);
+    const evaluation: EpisodeEvaluation = {
+      episode_id: goldEpisode.episode_id,
+      episode_title: goldEpisode.episode_title,
+      extracted: !!extracted,
+      missed_entities: [],
+      unexpected_entities: [],
+      missed_relationships: [],
+      unexpected_relationships: []
+    };
+
+    // Gold entities under every spelling of their name
+    const goldByName = new Map<string, GoldEntity[]>();
+    for (const entity of goldEpisode.entities) {
+      for (const name of [entity.name, ...(entity.aliases || [])]) {
+        const key = nameKey(name);
+        goldByName.set(key, [...(goldByName.get(key) || []).filter(other => other !== entity), entity]);
+      }
+    }
+    const findGold = (name: string, type?: string) =>
+      (goldByName.get(nameKey(name)) || []).find(entity => type === undefined || entity.type === type);
+    // A relationship end is compared by the gold entity's main name, so either "Jimmy Choo"
+    // (the cobbler or the company) can be meant
+    const endKey = (name: string) => nameKey(findGold(name)?.name ?? name);
+
+    // Entities: a prediction is correct when a gold entity has its name and type
+    const matchedEntities = new Set<GoldEntity>();
+    const predictedById = new Map<string, GoldEntity | undefined>();
+    const seen = new Set<string>();
+    for (const entity of extracted?.entities || []) {
+      const gold = findGold(entity.name, entity.type);
+      predictedById.set(entity.id, gold || findGold(entity.name));
+      const key = `${entity.type}:${nameKey(entity.name)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (gold?.optional || (!gold && findGold(entity.name)?.optional)) continue;
+      if (gold && !matchedEntities.has(gold)) {
+        matchedEntities.add(gold);
+        count(entityCounts, entity.type, 'tp');
+      } else {
+        count(entityCounts, entity.type, 'fp');
+        evaluation.unexpected_entities.push(`${entity.name} (${entity.type})`);
+      }
+    }
+    for (const entity of goldEpisode.entities) {
+      if (entity.optional || matchedEntities.has(entity)) continue;
+      count(entityCounts, entity.type, 'fn');
+      evaluation.missed_entities.push(`${entity.name} (${entity.type})`);
+    }
+
+    // Relationships: both ends must name the gold ends, in order, with an accepted type
+    const matchedRelationships = new Set<GoldRelationship>();
+    const predictedRelationships = new Set<string>();
+    const namesById = new Map((extracted?.entities || []).map(entity => [entity.id, entity.name]));
+    for (const rel of extracted?.relationships || []) {
+      const source = predictedById.get(rel.entity1_id);
+      const target = predictedById.get(rel.entity2_id);
+      const type = normalizeRelationshipLabel(rel.relationship_type);
+      if (source?.optional || target?.optional) continue;
+
+      const label = `${source?.name ?? namesById.get(rel.entity1_id) ?? rel.entity1_id} —${type}→ ${target?.name ?? namesById.get(rel.entity2_id) ?? rel.entity2_id}`;
+      if (predictedRelationships.has(label)) continue;
+      predictedRelationships.add(label);
+
+      const gold = source && target && goldEpisode.relationships.find(candidate =>
+        !matchedRelationships.has(candidate) &&
+        endKey(candidate.entity1_name) === nameKey(source.name) &&
+        endKey(candidate.entity2_name) === nameKey(target.name) &&
+        [candidate.relationship_type, ...(candidate.accepted_types || [])].map(normalizeRelationshipLabel).includes(type)
+      );
+      if (gold) {
+        matchedRelationships.add(gold);
+        count(relationshipCounts, normalizeRelationshipLabel(gold.relationship_type), 'tp');
+      } else {
+        count(relationshipCounts, type, 'fp');
+        evaluation.unexpected_relationships.push(label);
+      }
+    }
+    for (const rel of goldEpisode.relationships) {
+      if (matchedRelationships.has(rel)) continue;
+      const type = normalizeRelationshipLabel(rel.relationship_type);
+      count(relationshipCounts, type, 'fn');
+      evaluation.missed_relationships.push(`${rel.entity1_name} —${type}→ ${rel.entity2_name}`);
+    }
+
+    episodes.push(evaluation);
+  }
+
+  const byKey = (counts: Map<string, Counts>) =>
+    Object.fromEntries(Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([key, entry]) => [key, toScore(entry)]));
+
+  return {
+    entities: toScore(total(entityCounts)),
+    relationships: toScore(total(relationshipCounts)),
+    entity_types: byKey(entityCounts),
+    relationship_types: byKey(relationshipCounts),
+    episodes
+  };
+}
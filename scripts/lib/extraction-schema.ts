@@ -0,0 +1,407 @@
+// Validation of the entity/relationship/quote payload a model returns for one episode.
+// Problems are collected rather than thrown: bad items are dropped or corrected and
+// each one is recorded as an issue, so the saved output says what was changed. When
+// a response has errors the model gets one chance to fix them (extractWithRepair).
+
+import { LLMResponseParseError, parseJsonResponse, withRetry, type CompletionRequest, type LLMProvider } from './llm';
+
+export const ENTITY_TYPES = ['person', 'place', 'event', 'object', 'media', 'product'] as const;
+
+export type EntityType = typeof ENTITY_TYPES[number];
+
+// Confidence recorded when the model gives none
+export const DEFAULT_CONFIDENCE = 0.8;
+
+// Types models commonly use instead of the ones the prompt asks for
+const TYPE_ALIASES: Record<string, EntityType> = {
+  people: 'person',
+  company: 'place',
+  organization: 'place',
+  brand: 'place',
+  book: 'media',
+  podcast: 'media',
+  film: 'media',
+  movie: 'media',
+  concept: 'object',
+  technology: 'object',
+  strategy: 'object'
+};
+
+export interface ExtractedEntity {
+  name: string;
+  type: EntityType;
+  context: string;
+  amazon_searchable: boolean;
+  amazon_keywords?: string[];
+  confidence_score: number;
+}
+
+export interface ExtractedRelationship {
+  entity1_name: string;
+  entity2_name: string;
+  relationship_type: string;
+  description: string;
+  confidence_score: number;
+}
+
+// speaker and source are entity names: who said or wrote the quote, and the media
+// entity (usually a book) it was read from
+export interface ExtractedQuote {
+  text: string;
+  speaker?: string;
+  source?: string;
+  confidence_score: number;
+}
+
+export interface Extraction {
+  entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
+  quotes: ExtractedQuote[];
+}
+
+// Errors drop an item (or the whole payload); warnings are corrected in place
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  extraction: Extraction;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationReport {
+  model: string;
+  valid: boolean;
+  repair_attempted: boolean;
+  // The repaired response was kept
+  repaired: boolean;
+  entities: number;
+  relationships: number;
+  quotes: number;
+  dropped_entities: number;
+  dropped_relationships: number;
+  dropped_quotes: number;
+  issues: ValidationIssue[];
+  // Issues of the first response when a repair was attempted
+  initial_issues?: ValidationIssue[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+function validateConfidence(value: unknown, path: string, issues: ValidationIssue[]): number {
+  if (value === undefined || value === null) {
+    issues.push({ severity: 'warning', path, message: `Missing confidence, recorded as ${DEFAULT_CONFIDENCE}` });
+    return DEFAULT_CONFIDENCE;
+  }
+
+  const confidence = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof confidence !== 'number' || isNaN(confidence)) {
+    issues.push({ severity: 'warning', path, message: `Confidence ${JSON.stringify(value)} is not a number, recorded as ${DEFAULT_CONFIDENCE}` });
+    return DEFAULT_CONFIDENCE;
+  }
+
+  if (confidence < 0 || confidence > 1) {
+    const clamped = Math.min(Math.max(confidence, 0), 1);
+    issues.push({ severity: 'warning', path, message: `Confidence ${confidence} clamped to ${clamped}` });
+    return clamped;
+  }
+
+  return confidence;
+}
+
+function validateEntity(value: unknown, path: string, issues: ValidationIssue[]): ExtractedEntity | null {
+  if (!isObject(value)) {
+    issues.push({ severity: 'error', path, message: 'Entity is not an object' });
+    return null;
+  }
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    issues.push({ severity: 'error', path: `${path}.name`, message: 'Entity has no name' });
+    return null;
+  }
+
+  const rawType = typeof value.type === 'string' ? value.type.trim().toLowerCase() : '';
+  let type = ENTITY_TYPES.find(allowed => allowed === rawType);
+  if (!type && TYPE_ALIASES[rawType]) {
+    type = TYPE_ALIASES[rawType];
+    issues.push({ severity: 'warning', path: `${path}.type`, message: `Type "${value.type}" recorded as "${type}"` });
+  }
+  if (!type) {
+    issues.push({
+      severity: 'error',
+      path: `${path}.type`,
+      message: `"${name}" has type ${JSON.stringify(value.type)}, expected one of ${ENTITY_TYPES.join(', ')}`
+    });
+    return null;
+  }
+
+  const keywords = Array.isArray(value.amazon_keywords)
+    ? value.amazon_keywords.filter((keyword: unknown): keyword is string => typeof keyword === 'string' && keyword.trim() !== '')
+    : [];
+
+  return {
+    name,
+    type,
+    context: typeof value.context === 'string' ? value.context : '',
+    amazon_searchable: value.amazon_searchable === true,
+    amazon_keywords: keywords.length > 0 ? keywords : undefined,
+    confidence_score: validateConfidence(value.confidence_score, `${path}.confidence_score`, issues)
+  };
+}
+
+function validateRelationship(
+  value: unknown,
+  path: string,
+  entitiesByName: Map<string, ExtractedEntity>,
+  issues: ValidationIssue[]
+): ExtractedRelationship | null {
+  if (!isObject(value)) {
+    issues.push({ severity: 'error', path, message: 'Relationship is not an object' });
+    return null;
+  }
+
+  const ends: ExtractedEntity[] = [];
+  for (const field of ['entity1_name', 'entity2_name']) {
+    const name = typeof value[field] === 'string' ? value[field] : '';
+    const entity = entitiesByName.get(nameKey(name));
+    if (!entity) {
+      issues.push({
+        severity: 'error',
+        path: `${path}.${field}`,
+        message: name ? `"${name}" is not one of the extracted entities` : 'Missing entity name'
+      });
+      return null;
+    }
+    ends.push(entity);
+  }
+
+  if (ends[0] === ends[1]) {
+    issues.push({ severity: 'error', path, message: `"${ends[0].name}" is related to itself` });
+    return null;
+  }
+
+  let relationshipType = typeof value.relationship_type === 'string' ? value.relationship_type.trim() : '';
+  if (!relationshipType) {
+    issues.push({ severity: 'warning', path: `${path}.relationship_type`, message: 'Missing relationship type, recorded as "related_to"' });
+    relationshipType = 'related_to';
+  }
+
+  return {
+    entity1_name: ends[0].name,
+    entity2_name: ends[1].name,
+    relationship_type: relationshipType,
+    description: typeof value.description === 'string' ? value.description : '',
+    confidence_score: validateConfidence(value.confidence_score, `${path}.confidence_score`, issues)
+  };
+}
+
+// Quote marks around the whole quote are the model's, not the transcript's
+const stripQuoteMarks = (text: string) => text.replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').trim();
+
+// Attributions are corrected rather than dropped: the quote itself is still worth keeping
+function validateQuote(
+  value: unknown,
+  path: string,
+  entitiesByName: Map<string, ExtractedEntity>,
+  issues: ValidationIssue[]
+): ExtractedQuote | null {
+  if (!isObject(value)) {
+    issues.push({ severity: 'error', path, message: 'Quote is not an object' });
+    return null;
+  }
+
+  const text = typeof value.text === 'string' ? stripQuoteMarks(value.text.trim()) : '';
+  if (!text) {
+    issues.push({ severity: 'error', path: `${path}.text`, message: 'Quote has no text' });
+    return null;
+  }
+
+  const quote: ExtractedQuote = {
+    text,
+    confidence_score: validateConfidence(value.confidence_score, `${path}.confidence_score`, issues)
+  };
+
+  const speaker = typeof value.speaker === 'string' ? value.speaker.trim() : '';
+  if (speaker) {
+    const entity = entitiesByName.get(nameKey(speaker));
+    if (!entity) {
+      issues.push({ severity: 'warning', path: `${path}.speaker`, message: `"${speaker}" is not one of the extracted entities, recorded by name only` });
+    }
+    quote.speaker = entity ? entity.name : speaker;
+  }
+
+  const source = typeof value.source === 'string' ? value.source.trim() : '';
+  if (source) {
+    const entity = entitiesByName.get(nameKey(source));
+    if (!entity) {
+      issues.push({ severity: 'warning', path: `${path}.source`, message: `"${source}" is not one of the extracted entities, recorded by name only` });
+      quote.source = source;
+    } else if (entity.type !== 'media') {
+      issues.push({ severity: 'warning', path: `${path}.source`, message: `"${entity.name}" is a ${entity.type}, not a media entity; source dropped` });
+    } else {
+      quote.source = entity.name;
+    }
+  }
+
+  return quote;
+}
+
+export function validateExtraction(payload: unknown): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const extraction: Extraction = { entities: [], relationships: [], quotes: [] };
+
+  if (!isObject(payload)) {
+    issues.push({ severity: 'error', path: '$', message: 'Response is not a JSON object' });
+    return { extraction, issues };
+  }
+
+  if (!Array.isArray(payload.entities)) {
+    issues.push({ severity: 'error', path: 'entities', message: 'Missing "entities" array' });
+  }
+  if (payload.relationships !== undefined && !Array.isArray(payload.relationships)) {
+    issues.push({ severity: 'error', path: 'relationships', message: '"relationships" is not an array' });
+  }
+  // Prompts before graph-extraction@v3 ask for no quotes
+  if (payload.quotes !== undefined && !Array.isArray(payload.quotes)) {
+    issues.push({ severity: 'error', path: 'quotes', message: '"quotes" is not an array' });
+  }
+
+  const entitiesByName = new Map<string, ExtractedEntity>();
+  (Array.isArray(payload.entities) ? payload.entities : []).forEach((value: unknown, index: number) => {
+    const entity = validateEntity(value, `entities[${index}]`, issues);
+    if (!entity) return;
+    if (entitiesByName.has(nameKey(entity.name))) {
+      issues.push({ severity: 'warning', path: `entities[${index}]`, message: `Duplicate entity "${entity.name}" dropped` });
+      return;
+    }
+    entitiesByName.set(nameKey(entity.name), entity);
+    extraction.entities.push(entity);
+  });
+
+  (Array.isArray(payload.relationships) ? payload.relationships : []).forEach((value: unknown, index: number) => {
+    const relationship = validateRelationship(value, `relationships[${index}]`, entitiesByName, issues);
+    if (relationship) extraction.relationships.push(relationship);
+  });
+
+  const quoteTexts = new Set<string>();
+  (Array.isArray(payload.quotes) ? payload.quotes : []).forEach((value: unknown, index: number) => {
+    const quote = validateQuote(value, `quotes[${index}]`, entitiesByName, issues);
+    if (!quote) return;
+    if (quoteTexts.has(nameKey(quote.text))) {
+      issues.push({ severity: 'warning', path: `quotes[${index}]`, message: 'Duplicate quote dropped' });
+      return;
+    }
+    quoteTexts.add(nameKey(quote.text));
+    extraction.quotes.push(quote);
+  });
+
+  return { extraction, issues };
+}
+
+const errorCount = (issues: ValidationIssue[]) => issues.filter(issue => issue.severity === 'error').length;
+
+function parseAndValidate(content: string): ValidationResult {
+  try {
+    return validateExtraction(parseJsonResponse(content));
+  } catch (error) {
+    if (!(error instanceof LLMResponseParseError)) throw error;
+    return {
+      extraction: { entities: [], relationships: [], quotes: [] },
+      issues: [{ severity: 'error', path: '$', message: 'Response is not valid JSON' }]
+    };
+  }
+}
+
+function createRepairPrompt(request: CompletionRequest, content: string, issues: ValidationIssue[]): string {
+  const problems = issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => `- ${issue.path}: ${issue.message}`)
+    .join('\n');
+
+  return `${request.prompt}
+
+YOUR PREVIOUS RESPONSE:
+${content}
+
+That response had these problems:
+${problems}
+
+Entity types must be one of: ${ENTITY_TYPES.join(', ')}. Every relationship must connect two different entities from the "entities" list, using their exact names. Every quote needs its text. Return the corrected JSON only, in the same format.`;
+}
+
+function countDropped(payloadContent: string, extraction: Extraction): { entities: number; relationships: number; quotes: number } {
+  try {
+    const payload = parseJsonResponse(payloadContent);
+    return {
+      entities: Math.max(0, (Array.isArray(payload?.entities) ? payload.entities.length : 0) - extraction.entities.length),
+      relationships: Math.max(0, (Array.isArray(payload?.relationships) ? payload.relationships.length : 0) - extraction.relationships.length),
+      quotes: Math.max(0, (Array.isArray(payload?.quotes) ? payload.quotes.length : 0) - extraction.quotes.length)
+    };
+  } catch {
+    return { entities: 0, relationships: 0, quotes: 0 };
+  }
+}
+
+// Requests an extraction and validates it; a response with errors is sent back once
+// with the list of problems, and whichever response has fewer errors is kept. Throws
+// when neither response is a JSON object.
+export async function extractWithRepair(
+  provider: LLMProvider,
+  request: CompletionRequest
+): Promise<{ extraction: Extraction; report: ValidationReport }> {
+  const label = `${provider.name} (${provider.model})`;
+  const first = await withRetry(label, () => provider.complete(request));
+  let content = first.content;
+  let result = parseAndValidate(content);
+  const initialIssues = result.issues;
+  let repairAttempted = false;
+  let repaired = false;
+
+  if (errorCount(result.issues) > 0) {
+    repairAttempted = true;
+    console.log(`  🔧 ${provider.name}: ${errorCount(result.issues)} validation errors, asking for a repair...`);
+    try {
+      const repair = await withRetry(label, () => provider.complete({
+        ...request,
+        prompt: createRepairPrompt(request, content, result.issues)
+      }));
+      const repairedResult = parseAndValidate(repair.content);
+      if (errorCount(repairedResult.issues) < errorCount(result.issues)) {
+        content = repair.content;
+        result = repairedResult;
+        repaired = true;
+      }
+    } catch (error) {
+      console.warn(`  ⚠️ ${provider.name}: repair request failed:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (result.issues.some(issue => issue.path === '$')) {
+    throw new Error(`${label} did not return an extraction: ${result.issues[0].message}`);
+  }
+
+  const dropped = countDropped(content, result.extraction);
+  return {
+    extraction: result.extraction,
+    report: {
+      model: provider.model,
+      valid: errorCount(result.issues) === 0,
+      repair_attempted: repairAttempted,
+      repaired,
+      entities: result.extraction.entities.length,
+      relationships: result.extraction.relationships.length,
+      quotes: result.extraction.quotes.length,
+      dropped_entities: dropped.entities,
+      dropped_relationships: dropped.relationships,
+      dropped_quotes: dropped.quotes,
+      issues: result.issues,
+      ...(repairAttempted ? { initial_issues: initialIssues } : {})
+    }
+  };
+}
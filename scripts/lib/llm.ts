@@ -0,0 +1,457 @@
+// Model access shared by the extraction scripts. Each script asks for providers by
+// name and sends prompts through the LLMProvider interface; the model each provider
+// uses comes from llm.config.json, and retries and JSON parsing are handled here so
+// every script treats a rate limit or a chatty response the same way.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'groq' | 'local' | 'mock';
+
+// Providers that need no API key, so they only run when asked for by name
+const KEYLESS_PROVIDERS: ProviderName[] = ['local', 'mock'];
+
+export interface CompletionRequest {
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface CompletionResponse {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+// Per-run settings that take precedence over llm.config.json and the environment
+export interface ProviderOverrides {
+  model?: string;
+  baseUrl?: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface ProviderSettings {
+  model: string;
+  api_key_env?: string[];
+  base_url?: string;
+}
+
+interface LLMConfig {
+  defaults: { temperature: number; max_tokens: number };
+  retry: { max_attempts: number; initial_delay_ms: number; max_delay_ms: number };
+  providers: Record<ProviderName, ProviderSettings>;
+  // Per-script model overrides, keyed by npm script name (file name for scripts without one)
+  scripts: Record<string, Partial<Record<ProviderName, string>>>;
+}
+
+export class LLMRequestError extends Error {
+  provider: ProviderName;
+  // HTTP status, undefined when the request never got a response
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(provider: ProviderName, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Rate limits and server errors are worth another attempt, bad requests and auth failures are not
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export class LLMResponseParseError extends Error {
+  content: string;
+
+  constructor(message: string, content: string) {
+    super(message);
+    this.name = 'LLMResponseParseError';
+    this.content = content;
+  }
+}
+
+let cachedConfig: LLMConfig | null = null;
+
+// LLM_CONFIG points at another config file, e.g. for a one-off comparison run
+export function loadLLMConfig(): LLMConfig {
+  if (!cachedConfig) {
+    const configPath = process.env.LLM_CONFIG || path.join(process.cwd(), 'llm.config.json');
+    cachedConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as LLMConfig;
+  }
+  return cachedConfig;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  const { retry } = loadLLMConfig();
+  return {
+    maxAttempts: retry.max_attempts,
+    initialDelayMs: retry.initial_delay_ms,
+    maxDelayMs: retry.max_delay_ms
+  };
+}
+
+// LLM_MODEL_<PROVIDER> wins over the script's override, which wins over the provider default
+export function resolveModel(provider: ProviderName, script?: string, overrides: ProviderOverrides = {}): string {
+  const config = loadLLMConfig();
+  return overrides.model ||
+    process.env[`LLM_MODEL_${provider.toUpperCase()}`] ||
+    (script && config.scripts[script]?.[provider]) ||
+    config.providers[provider].model;
+}
+
+function resolveBaseUrl(provider: ProviderName, overrides: ProviderOverrides): string | undefined {
+  const baseUrl = overrides.baseUrl ||
+    process.env[`LLM_BASE_URL_${provider.toUpperCase()}`] ||
+    loadLLMConfig().providers[provider].base_url;
+  return baseUrl?.replace(/\/+$/, '');
+}
+
+function findApiKey(provider: ProviderName): string {
+  const envNames = loadLLMConfig().providers[provider].api_key_env || [];
+  for (const envName of envNames) {
+    if (process.env[envName]) return process.env[envName] as string;
+  }
+  return '';
+}
+
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get('retry-after');
+  const seconds = header ? parseFloat(header) : NaN;
+  return isNaN(seconds) ? undefined : seconds * 1000;
+}
+
+async function postJson(provider: ProviderName, url: string, headers: Record<string, string>, body: unknown): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+  } catch (error) {
+    throw new LLMRequestError(provider, `${provider} request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LLMRequestError(
+      provider,
+      `${provider} API error: ${response.status} ${response.statusText}${detail ? ` - ${detail.substring(0, 200)}` : ''}`,
+      response.status,
+      retryAfterMs(response)
+    );
+  }
+
+  return response.json();
+}
+
+// OpenAI's chat completions API, also spoken by Groq and by local model servers
+// (llama.cpp server, vLLM, Ollama), which usually need no API key
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(readonly name: ProviderName, readonly model: string, private apiKey: string, private baseUrl: string) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const { defaults } = loadLLMConfig();
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    const headers: Record<string, string> = this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {};
+    const data = await postJson(this.name, `${this.baseUrl}/chat/completions`, headers, {
+      model: this.model,
+      messages,
+      temperature: request.temperature ?? defaults.temperature,
+      max_tokens: request.maxTokens ?? defaults.max_tokens
+    });
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMRequestError(this.name, `Invalid ${this.name} response format`);
+    }
+
+    return {
+      content: content.trim(),
+      model: this.model,
+      usage: data.usage && {
+        input_tokens: data.usage.prompt_tokens,
+        output_tokens: data.usage.completion_tokens,
+        total_tokens: data.usage.total_tokens
+      }
+    };
+  }
+}
+
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+
+  constructor(readonly model: string, private apiKey: string) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const { defaults } = loadLLMConfig();
+    const data = await postJson(this.name, 'https://api.anthropic.com/v1/messages', {
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01'
+    }, {
+      model: this.model,
+      system: request.system,
+      max_tokens: request.maxTokens ?? defaults.max_tokens,
+      temperature: request.temperature ?? defaults.temperature,
+      messages: [{ role: 'user', content: request.prompt }]
+    });
+
+    const content = data.content?.[0]?.text;
+    if (typeof content !== 'string') {
+      throw new LLMRequestError(this.name, 'Invalid anthropic response format');
+    }
+
+    const usage = data.usage || {};
+    return {
+      content: content.trim(),
+      model: this.model,
+      usage: {
+        input_tokens: usage.input_tokens,
+        output_tokens: usage.output_tokens,
+        total_tokens: (usage.input_tokens || 0) + (usage.output_tokens || 0)
+      }
+    };
+  }
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+
+  constructor(readonly model: string, private apiKey: string) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const { defaults } = loadLLMConfig();
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`;
+    const data = await postJson(this.name, url, {}, {
+      ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+      contents: [{ parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        temperature: request.temperature ?? defaults.temperature,
+        maxOutputTokens: request.maxTokens ?? defaults.max_tokens
+      }
+    });
+
+    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof content !== 'string') {
+      throw new LLMRequestError(this.name, 'Invalid gemini response format');
+    }
+
+    const usage = data.usageMetadata || {};
+    return {
+      content: content.trim(),
+      model: this.model,
+      usage: {
+        input_tokens: usage.promptTokenCount,
+        output_tokens: usage.candidatesTokenCount,
+        total_tokens: usage.totalTokenCount
+      }
+    };
+  }
+}
+
+// Offline stand-in for a real model. Replies with the contents of LLM_MOCK_RESPONSE
+// when set, otherwise with entities guessed from capitalized phrases in the longest
+// paragraph of the prompt (the transcript), and quotes from sentences naming them, in
+// the extract-graph response format.
+class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  constructor(readonly model: string) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const content = process.env.LLM_MOCK_RESPONSE
+      ? fs.readFileSync(process.env.LLM_MOCK_RESPONSE, 'utf-8')
+      : JSON.stringify(mockExtraction(request.prompt), null, 2);
+
+    const inputTokens = Math.ceil(((request.system || '').length + request.prompt.length) / 4);
+    const outputTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      model: this.model,
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+    };
+  }
+}
+
+function mockExtraction(prompt: string) {
+  const transcript = prompt.split(/\n\s*\n/).reduce((longest, paragraph) =>
+    paragraph.length > longest.length ? paragraph : longest, '');
+
+  const counts = new Map<string, number>();
+  for (const match of transcript.matchAll(/\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,3}\b/g)) {
+    counts.set(match[0], (counts.get(match[0]) || 0) + 1);
+  }
+
+  const names = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 10);
+
+  const entities = names.map(([name, count]) => {
+    const index = transcript.indexOf(name);
+    return {
+      name,
+      type: name.split(/\s+/).length === 2 ? 'person' : 'place',
+      context: transcript.substring(Math.max(0, index - 80), index + name.length + 120).trim(),
+      amazon_searchable: false,
+      amazon_keywords: null,
+      confidence_score: Math.min(0.5 + count / 10, 1)
+    };
+  });
+
+  const relationships = entities.slice(1, 6).map((entity, index) => ({
+    entity1_name: entities[index].name,
+    entity2_name: entity.name,
+    relationship_type: 'related_to',
+    description: `${entities[index].name} and ${entity.name} are mentioned in the same episode`,
+    confidence_score: 0.5
+  }));
+
+  // Sentences naming one of the people, attributed to them
+  const quotes = (transcript.match(/[^.!?]+[.!?]/g) || [])
+    .map(sentence => sentence.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.length >= 60 && sentence.length <= 280)
+    .map(sentence => ({ sentence, speaker: entities.find(entity => entity.type === 'person' && sentence.includes(entity.name)) }))
+    .filter(({ speaker }) => speaker)
+    .slice(0, 3)
+    .map(({ sentence, speaker }) => ({ text: sentence, speaker: speaker!.name, source: null, confidence_score: 0.5 }));
+
+  return { entities, relationships, quotes };
+}
+
+// Throws when the provider's API key is not set
+export function createProvider(name: ProviderName, script?: string, overrides: ProviderOverrides = {}): LLMProvider {
+  const config = loadLLMConfig();
+  const settings = config.providers[name];
+  if (!settings) throw new Error(`Unknown LLM provider: ${name}`);
+
+  const model = resolveModel(name, script, overrides);
+  if (name === 'mock') return new MockProvider(model);
+
+  const apiKey = findApiKey(name);
+  if (name === 'local') {
+    const baseUrl = resolveBaseUrl(name, overrides);
+    if (!baseUrl) throw new Error('No base URL for the local model server; set LLM_BASE_URL_LOCAL');
+    return new OpenAICompatibleProvider(name, model, apiKey, baseUrl);
+  }
+
+  if (!apiKey) {
+    throw new Error(`No API key for ${name}; set one of ${(settings.api_key_env || []).join(', ')}`);
+  }
+
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleProvider(name, model, apiKey, resolveBaseUrl(name, overrides) || 'https://api.openai.com/v1');
+    case 'groq':
+      return new OpenAICompatibleProvider(name, model, apiKey, resolveBaseUrl(name, overrides) || 'https://api.groq.com/openai/v1');
+    case 'anthropic':
+      return new AnthropicProvider(model, apiKey);
+    case 'gemini':
+      return new GeminiProvider(model, apiKey);
+  }
+}
+
+// Providers the script can use: those named in LLM_PROVIDERS (e.g. "mock" for an
+// offline run), otherwise every candidate whose API key is set
+export function getAvailableProviders(script: string, candidates: ProviderName[]): LLMProvider[] {
+  const requested = process.env.LLM_PROVIDERS;
+  if (requested) {
+    return requested.split(',').map(name => createProvider(name.trim() as ProviderName, script));
+  }
+
+  return candidates
+    .filter(name => KEYLESS_PROVIDERS.includes(name) || findApiKey(name))
+    .map(name => createProvider(name, script));
+}
+
+// Local servers and the mock have no rate limits to wait out
+export function isRateLimited(provider: LLMProvider): boolean {
+  return !KEYLESS_PROVIDERS.includes(provider.name);
+}
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof LLMRequestError ? error.retryable : true;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter; a Retry-After header from the API takes precedence
+export async function withRetry<T>(label: string, operation: () => Promise<T>, policy: RetryPolicy = getRetryPolicy()): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error)) throw error;
+
+      const backoff = Math.min(policy.initialDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+      const delay = (error instanceof LLMRequestError && error.retryAfterMs) || backoff * (0.8 + Math.random() * 0.4);
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ ${label} failed (attempt ${attempt}/${policy.maxAttempts}): ${message}. Retrying in ${(delay / 1000).toFixed(1)}s...`);
+      await sleep(delay);
+    }
+  }
+}
+
+// Models wrap JSON in code fences, explanations or trailing commas; each strategy
+// is tried in turn before giving up
+export function parseJsonResponse(content: string): any {
+  const candidates: string[] = [content.trim()];
+
+  const codeBlock = content.match(/```(?:json)?\s*([\[{][\s\S]*?[\]}])\s*```/i);
+  if (codeBlock) candidates.push(codeBlock[1]);
+
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    const object = content.substring(start, end + 1);
+    candidates.push(object, object.replace(/,(\s*[}\]])/g, '$1'));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next strategy
+    }
+  }
+
+  throw new LLMResponseParseError(`Response is not valid JSON: ${content.substring(0, 200)}`, content);
+}
+
+export interface JsonCompletion extends CompletionResponse {
+  data: any;
+}
+
+// Sends the request and parses the reply as JSON, retrying failed requests and
+// unparseable replies alike
+export function completeJson(provider: LLMProvider, request: CompletionRequest, policy?: RetryPolicy): Promise<JsonCompletion> {
+  return withRetry(`${provider.name} (${provider.model})`, async () => {
+    const response = await provider.complete(request);
+    return { ...response, data: parseJsonResponse(response.content) };
+  }, policy);
+}
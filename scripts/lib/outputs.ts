@@ -0,0 +1,22 @@
+// Locating the extraction outputs saved in data/ and the files they are read with.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EntityAliasMap } from '../../src/lib/entity-resolution';
+
+// Latest data/nodejs-podcast-<model>_<timestamp>.json of every model, consensus included
+export function findLatestOutputs(dataDir: string = path.join(process.cwd(), 'data')): string[] {
+  if (!fs.existsSync(dataDir)) return [];
+
+  const latest = new Map<string, string>();
+  fs.readdirSync(dataDir).sort().forEach(file => {
+    const match = /^nodejs-podcast-([a-z0-9]+)_\d{14}\.json$/.exec(file);
+    if (match) latest.set(match[1], path.join(dataDir, file));
+  });
+  return Array.from(latest.values());
+}
+
+export function loadEntityAliases(): EntityAliasMap {
+  const aliasesFile = path.join(process.cwd(), 'src', 'data-entity-aliases.json');
+  return fs.existsSync(aliasesFile) ? JSON.parse(fs.readFileSync(aliasesFile, 'utf-8')) : {};
+}
@@ -0,0 +1,108 @@
+// Extraction prompts are named, versioned templates kept in prompts/<name>/v<N>.txt,
+// so a run can name the exact prompt it used and an older run can be reproduced. A
+// published version is never edited: a changed prompt is saved as the next version.
+//
+// A template file holds a system prompt and a user prompt, each after its marker line:
+//
+//   === system ===
+//   You are an expert at ...
+//   === prompt ===
+//   EPISODE: "{{episode_title}}"
+//
+// {{name}} placeholders are filled in by renderPrompt.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  system?: string;
+  template: string;
+}
+
+export interface RenderedPrompt {
+  system?: string;
+  prompt: string;
+  // e.g. "graph-extraction@v2", recorded with every extraction made with the prompt
+  version: string;
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const SECTION_MARKER = /^=== (system|prompt) ===$/gm;
+
+// PROMPTS_DIR points at another prompt directory, e.g. for trying out a draft
+function promptsDir(): string {
+  return process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+}
+
+export function promptRef(prompt: Pick<PromptTemplate, 'name' | 'version'>): string {
+  return `${prompt.name}@v${prompt.version}`;
+}
+
+export function listPromptVersions(name: string): number[] {
+  const dir = path.join(promptsDir(), name);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .map(file => /^v(\d+)\.txt$/.exec(file)?.[1])
+    .filter((version): version is string => !!version)
+    .map(version => parseInt(version))
+    .sort((a, b) => a - b);
+}
+
+function parseTemplate(name: string, version: number, content: string): PromptTemplate {
+  const sections: Record<string, string> = {};
+  const markers = Array.from(content.matchAll(SECTION_MARKER));
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index! : content.length;
+    sections[marker[1]] = content.slice(start, end).replace(/^\n/, '').replace(/\s+$/, '');
+  });
+
+  if (!sections.prompt) {
+    throw new PromptTemplateError(`${promptRef({ name, version })} has no "=== prompt ===" section`);
+  }
+  return { name, version, system: sections.system, template: sections.prompt };
+}
+
+// The latest version unless one is asked for
+export function loadPrompt(name: string, version?: number): PromptTemplate {
+  const versions = listPromptVersions(name);
+  const selected = version ?? versions[versions.length - 1];
+  if (selected === undefined || !versions.includes(selected)) {
+    throw new PromptTemplateError(
+      `Unknown prompt ${version === undefined ? name : promptRef({ name, version })}` +
+      (versions.length > 0 ? ` (available: ${versions.map(v => `v${v}`).join(', ')})` : '')
+    );
+  }
+
+  const file = path.join(promptsDir(), name, `v${selected}.txt`);
+  return parseTemplate(name, selected, fs.readFileSync(file, 'utf-8'));
+}
+
+// "graph-extraction@v1" or "graph-extraction" for the latest version
+export function loadPromptRef(ref: string): PromptTemplate {
+  const [name, version] = ref.split('@v');
+  return loadPrompt(name, version === undefined ? undefined : parseInt(version));
+}
+
+// Every placeholder must be given a value, so a template and the script using it cannot drift apart silently
+export function renderPrompt(prompt: PromptTemplate, values: Record<string, string>): RenderedPrompt {
+  const missing = new Set<string>();
+  const rendered = prompt.template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
+    if (!(key in values)) missing.add(key);
+    return values[key] ?? '';
+  });
+
+  if (missing.size > 0) {
+    throw new PromptTemplateError(`${promptRef(prompt)} needs values for: ${Array.from(missing).join(', ')}`);
+  }
+  return { system: prompt.system, prompt: rendered, version: promptRef(prompt) };
+}
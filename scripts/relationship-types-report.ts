@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RELATIONSHIP_CATEGORIES,
+  findUnmappedRelationshipTypes,
+  normalizeRelationship,
+  type OntologyRelationship,
+  type UnmappedRelationshipType
+} from '../src/lib/relationship-ontology';
+import type { RelationshipCategory } from '../src/lib/types';
+
+// A relationships bundle ({ relationships }) or an extraction output ({ all_relationships })
+interface RelationshipSource {
+  relationships?: OntologyRelationship[];
+  all_relationships?: OntologyRelationship[];
+}
+
+interface CategorySummary {
+  category: RelationshipCategory;
+  count: number;
+  // Ontology type → relationships mapped onto it
+  types: Record<string, number>;
+}
+
+interface RelationshipTypesReport {
+  source: string;
+  generated_at: string;
+  total_relationships: number;
+  mapped_relationships: number;
+  categories: CategorySummary[];
+  unmapped: UnmappedRelationshipType[];
+}
+
+function loadRelationships(file: string): OntologyRelationship[] {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Relationships file not found: ${file}`);
+  }
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as RelationshipSource;
+  return data.relationships || data.all_relationships || [];
+}
+
+function buildReport(source: string, relationships: OntologyRelationship[]): RelationshipTypesReport {
+  const normalized = relationships.map(normalizeRelationship);
+  const categories = RELATIONSHIP_CATEGORIES.map(category => {
+    const types: Record<string, number> = {};
+    const inCategory = normalized.filter(rel => rel.category === category);
+    inCategory.forEach(rel => { types[rel.relationship_type] = (types[rel.relationship_type] || 0) + 1; });
+    return {
+      category,
+      count: inCategory.length,
+      types: Object.fromEntries(Object.entries(types).sort(([, a], [, b]) => b - a))
+    };
+  });
+
+  return {
+    source,
+    generated_at: new Date().toISOString(),
+    total_relationships: relationships.length,
+    mapped_relationships: normalized.filter(rel => rel.category !== 'other').length,
+    categories,
+    unmapped: findUnmappedRelationshipTypes(relationships)
+  };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  // Relationships to check; by default the bundle the site is built from
+  const inputFile = args.find(arg => !arg.startsWith('--')) || path.join('src', 'data-relationships-claude.json');
+  // --output=unmapped.json saves the report, e.g. to review before extending the ontology
+  const outputArg = args.find(arg => arg.startsWith('--output='));
+
+  console.log('🧭 Relationship Types Report');
+  console.log('============================');
+
+  try {
+    console.log(`📖 Reading ${inputFile}...`);
+    const report = buildReport(inputFile, loadRelationships(inputFile));
+    const share = report.total_relationships > 0 ? (report.mapped_relationships / report.total_relationships) * 100 : 0;
+
+    console.log(`\n🔗 ${report.mapped_relationships}/${report.total_relationships} relationships mapped onto the ontology (${share.toFixed(1)}%)`);
+    for (const summary of report.categories.filter(summary => summary.category !== 'other')) {
+      console.log(`\n   ${summary.category.toUpperCase()} (${summary.count})`);
+      Object.entries(summary.types).forEach(([type, count]) => console.log(`      ${type}: ${count}`));
+    }
+
+    console.log(`\n❓ Unmapped types: ${report.unmapped.length}`);
+    report.unmapped.forEach(unmapped =>
+      console.log(`   ${unmapped.type} (${unmapped.count}), e.g. ${unmapped.examples[0]}`)
+    );
+
+    if (outputArg) {
+      fs.writeFileSync(outputArg.split('=')[1], JSON.stringify(report, null, 2));
+      console.log(`\n💾 Saved report to: ${outputArg.split('=')[1]}`);
+    }
+  } catch (error) {
+    console.error('❌ Report failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
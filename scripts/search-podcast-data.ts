@@ -1,5 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { QueryParseError } from '../src/lib/query';
+import { normalizeRelationship } from '../src/lib/relationship-ontology';
+import {
+  buildSearchIndex,
+  searchIndex,
+  type DocumentAttributes,
+  type IndexMatch,
+  type SearchDocumentInput,
+  type SearchIndex
+} from '../src/lib/search-index';
 
 interface Episode {
   title: string;
@@ -76,6 +86,8 @@ class PodcastSearchEngine {
   private summaryData: PodcastData | null = null;
   private entityData: GraphOutput | null = null;
   private relationshipData: any | null = null;
+  // Field texts of each indexed document, for exact phrase matching
+  private documentTexts = new Map<string, string[]>();
 
   constructor() {}
 
@@ -128,6 +140,10 @@ class PodcastSearchEngine {
       console.log(`📊 Loading entity data from: ${entityFiles[0]}`);
       const entityRawData = fs.readFileSync(entityPath, 'utf-8');
       this.entityData = JSON.parse(entityRawData);
+      // Typed as in the data layer and /api/search, so rel: filters and facets use ontology types
+      if (this.entityData) {
+        this.entityData.all_relationships = this.entityData.all_relationships.map(normalizeRelationship);
+      }
       
       console.log(`🔗 Loading relationship data from: ${relationshipFiles[0]}`);
       const relationshipRawData = fs.readFileSync(relationshipPath, 'utf-8');
@@ -141,217 +157,142 @@ class PodcastSearchEngine {
     }
   }
 
-  private calculateRelevanceScore(searchTerm: string, text: string, matchType: string): number {
-    const lowerSearchTerm = searchTerm.toLowerCase();
-    const lowerText = text.toLowerCase();
-    
-    // Exact match gets highest score
-    if (lowerText.includes(lowerSearchTerm)) {
-      // Calculate how many times the term appears
-      const matches = (lowerText.match(new RegExp(lowerSearchTerm, 'g')) || []).length;
-      
-      // Base score by match type
-      let baseScore = 0;
-      switch (matchType) {
-        case 'episode_title': baseScore = 100; break;
-        case 'entity_name': baseScore = 90; break;
-        case 'relationship_description': baseScore = 80; break;
-        case 'entity_context': baseScore = 70; break;
-        case 'episode_text': baseScore = 60; break;
-        default: baseScore = 50; break;
-      }
-      
-      // Bonus for multiple matches
-      const matchBonus = Math.min(matches * 10, 50);
-      
-      // Penalty for longer text (diluted relevance)
-      const lengthPenalty = Math.max(0, (text.length - 100) / 100);
-      
-      return Math.max(1, baseScore + matchBonus - lengthPenalty);
-    }
-    
-    // Fuzzy matching for partial relevance
-    const words = lowerSearchTerm.split(' ');
-    const matchingWords = words.filter(word => lowerText.includes(word));
-    
-    if (matchingWords.length > 0) {
-      const wordMatchRatio = matchingWords.length / words.length;
-      return Math.round(wordMatchRatio * 30); // Max 30 for partial matches
-    }
-    
-    return 0;
-  }
-
   private findEpisodeById(episodeId: string): Episode | null {
     if (!this.summaryData) return null;
     return this.summaryData.episodes.find(ep => ep.episode_id === episodeId) || null;
   }
 
-  private searchInEpisodeText(searchTerm: string): SearchResult[] {
-    if (!this.summaryData) return [];
-    
-    const results: SearchResult[] = [];
-    const lowerSearchTerm = searchTerm.toLowerCase();
-
-    for (const episode of this.summaryData.episodes) {
-      let matchFound = false;
-      let matchType: SearchResult['match_type'] = 'episode_text';
-      let matchDetails = '';
-      let relevanceScore = 0;
-
-      // Check episode title
-      if (episode.title.toLowerCase().includes(lowerSearchTerm)) {
-        matchFound = true;
-        matchType = 'episode_title';
-        matchDetails = `Found "${searchTerm}" in episode title: "${episode.title}"`;
-        relevanceScore = this.calculateRelevanceScore(searchTerm, episode.title, 'episode_title');
-      }
-      // Check episode text
-      else if (episode.text && episode.text.toLowerCase().includes(lowerSearchTerm)) {
-        matchFound = true;
-        matchType = 'episode_text';
-        
-        // Extract context around the match
-        const textLower = episode.text.toLowerCase();
-        const matchIndex = textLower.indexOf(lowerSearchTerm);
-        const contextStart = Math.max(0, matchIndex - 100);
-        const contextEnd = Math.min(episode.text.length, matchIndex + searchTerm.length + 100);
-        const context = episode.text.substring(contextStart, contextEnd);
-        
-        matchDetails = `Found "${searchTerm}" in episode text: "...${context}..."`;
-        relevanceScore = this.calculateRelevanceScore(searchTerm, episode.text, 'episode_text');
-      }
-
-      if (matchFound) {
-        // Get entities and relationships for this episode
-        const episodeEntities = this.entityData?.all_entities.filter(e => e.episode_id === episode.episode_id) || [];
-        const episodeRelationships = this.entityData?.all_relationships.filter(r => r.episode_id === episode.episode_id) || [];
-
-        results.push({
-          episode_id: episode.episode_id,
-          episode_title: episode.title,
-          episode_number: episode.episode_number,
-          episode_url: episode.url,
-          episode_date: episode.date,
-          match_type: matchType,
-          match_details: matchDetails,
-          entities_linked: episodeEntities,
-          relationships_linked: episodeRelationships,
-          relevance_score: relevanceScore
-        });
-      }
-    }
+  private episodeAttributes(episodeId: string): Pick<DocumentAttributes, 'episode_number' | 'date'> {
+    const episode = this.findEpisodeById(episodeId);
+    return {
+      episode_number: episode?.episode_number,
+      date: episode?.date ? episode.date.substring(0, 10) : undefined
+    };
+  }
 
-    return results;
+  private relationshipTypes(predicate: (relationship: Relationship) => boolean): string[] {
+    const relationships = (this.entityData?.all_relationships || []).filter(predicate);
+    return Array.from(new Set(relationships.map(r => r.relationship_type)));
   }
 
-  private searchInEntities(searchTerm: string): SearchResult[] {
-    if (!this.entityData) return [];
-    
-    const results: SearchResult[] = [];
-    const lowerSearchTerm = searchTerm.toLowerCase();
-    const processedEpisodes = new Set<string>();
-
-    for (const entity of this.entityData.all_entities) {
-      let matchFound = false;
-      let matchType: SearchResult['match_type'] = 'entity_context';
-      let matchDetails = '';
-      let relevanceScore = 0;
-
-      // Check entity name
-      if (entity.name.toLowerCase().includes(lowerSearchTerm)) {
-        matchFound = true;
-        matchType = 'entity_name';
-        matchDetails = `Found "${searchTerm}" in entity name: "${entity.name}" (${entity.type})`;
-        relevanceScore = this.calculateRelevanceScore(searchTerm, entity.name, 'entity_name');
-      }
-      // Check entity context
-      else if (entity.context && entity.context.toLowerCase().includes(lowerSearchTerm)) {
-        matchFound = true;
-        matchType = 'entity_context';
-        matchDetails = `Found "${searchTerm}" in entity context for "${entity.name}": "${entity.context}"`;
-        relevanceScore = this.calculateRelevanceScore(searchTerm, entity.context, 'entity_context');
-      }
+  // Index episodes, entities and relationships with the same document fields and
+  // filter attributes the web search uses, so both accept the same queries and are
+  // ranked by the shared BM25 module
+  private buildIndex(): SearchIndex {
+    const documents: SearchDocumentInput[] = [];
+
+    for (const episode of this.summaryData?.episodes || []) {
+      documents.push({
+        id: episode.episode_id,
+        type: 'episode',
+        title: episode.title,
+        description: '',
+        url: episode.url,
+        episode_id: episode.episode_id,
+        attributes: {
+          ...this.episodeAttributes(episode.episode_id),
+          relationship_types: this.relationshipTypes(r => r.episode_id === episode.episode_id)
+        },
+        fields: {
+          title: episode.title,
+          transcript: episode.text || ''
+        }
+      });
+    }
 
-      if (matchFound && !processedEpisodes.has(entity.episode_id)) {
-        processedEpisodes.add(entity.episode_id);
-        
-        const episode = this.findEpisodeById(entity.episode_id);
-        if (episode) {
-          // Get all entities and relationships for this episode
-          const episodeEntities = this.entityData.all_entities.filter(e => e.episode_id === entity.episode_id);
-          const episodeRelationships = this.entityData.all_relationships.filter(r => r.episode_id === entity.episode_id);
-
-          results.push({
-            episode_id: entity.episode_id,
-            episode_title: episode.title,
-            episode_number: episode.episode_number,
-            episode_url: episode.url,
-            episode_date: episode.date,
-            match_type: matchType,
-            match_details: matchDetails,
-            entities_linked: episodeEntities,
-            relationships_linked: episodeRelationships,
-            relevance_score: relevanceScore
-          });
+    for (const entity of this.entityData?.all_entities || []) {
+      documents.push({
+        id: entity.id,
+        type: 'entity',
+        title: entity.name,
+        description: entity.context || '',
+        episode_id: entity.episode_id,
+        attributes: {
+          ...this.episodeAttributes(entity.episode_id),
+          entity_type: entity.type.toLowerCase(),
+          relationship_types: this.relationshipTypes(r => r.entity1_id === entity.id || r.entity2_id === entity.id)
+        },
+        fields: {
+          name: entity.name,
+          context: entity.context || ''
         }
-      }
+      });
+    }
+
+    for (const relationship of this.entityData?.all_relationships || []) {
+      documents.push({
+        id: relationship.id,
+        type: 'relationship',
+        title: `${relationship.entity1_name} ${relationship.relationship_type} ${relationship.entity2_name}`,
+        description: relationship.description || '',
+        episode_id: relationship.episode_id,
+        attributes: {
+          ...this.episodeAttributes(relationship.episode_id),
+          relationship_types: [relationship.relationship_type]
+        },
+        fields: {
+          relationship_type: relationship.relationship_type,
+          entity_names: `${relationship.entity1_name} ${relationship.entity2_name}`,
+          description: relationship.description || ''
+        }
+      });
     }
 
-    return results;
+    this.documentTexts = new Map(documents.map(document => [document.id, Object.values(document.fields)]));
+    return buildSearchIndex(documents);
   }
 
-  private searchInRelationships(searchTerm: string): SearchResult[] {
-    if (!this.entityData) return [];
-    
-    const results: SearchResult[] = [];
-    const lowerSearchTerm = searchTerm.toLowerCase();
-    const processedEpisodes = new Set<string>();
-
-    for (const relationship of this.entityData.all_relationships) {
-      let matchFound = false;
-      let matchDetails = '';
-      let relevanceScore = 0;
-
-      // Check relationship description
-      if (relationship.description && relationship.description.toLowerCase().includes(lowerSearchTerm)) {
-        matchFound = true;
-        matchDetails = `Found "${searchTerm}" in relationship: "${relationship.entity1_name}" ${relationship.relationship_type} "${relationship.entity2_name}" - ${relationship.description}`;
-        relevanceScore = this.calculateRelevanceScore(searchTerm, relationship.description, 'relationship_description');
-      }
-      // Check relationship type
-      else if (relationship.relationship_type.toLowerCase().includes(lowerSearchTerm)) {
-        matchFound = true;
-        matchDetails = `Found "${searchTerm}" in relationship type: "${relationship.entity1_name}" ${relationship.relationship_type} "${relationship.entity2_name}"`;
-        relevanceScore = this.calculateRelevanceScore(searchTerm, relationship.relationship_type, 'relationship_description');
+  private extractTextContext(text: string, terms: string[]): string {
+    const textLower = text.toLowerCase();
+    const matchIndex = terms
+      .map(term => textLower.indexOf(term))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b)[0] ?? 0;
+    const contextStart = Math.max(0, matchIndex - 100);
+    const contextEnd = Math.min(text.length, matchIndex + 100);
+    return text.substring(contextStart, contextEnd);
+  }
+
+  private describeMatch(match: IndexMatch, searchTerm: string): { matchType: SearchResult['match_type'], matchDetails: string } {
+    const { document } = match;
+    const bestField = match.matched_fields[0];
+
+    if (document.type === 'episode') {
+      if (bestField === 'title') {
+        return {
+          matchType: 'episode_title',
+          matchDetails: `Found "${searchTerm}" in episode title: "${document.title}"`
+        };
       }
+      const episode = this.findEpisodeById(document.id);
+      const context = this.extractTextContext(episode?.text || '', match.matched_terms);
+      return {
+        matchType: 'episode_text',
+        matchDetails: `Found "${searchTerm}" in episode text: "...${context}..."`
+      };
+    }
 
-      if (matchFound && !processedEpisodes.has(relationship.episode_id)) {
-        processedEpisodes.add(relationship.episode_id);
-        
-        const episode = this.findEpisodeById(relationship.episode_id);
-        if (episode) {
-          // Get all entities and relationships for this episode
-          const episodeEntities = this.entityData.all_entities.filter(e => e.episode_id === relationship.episode_id);
-          const episodeRelationships = this.entityData.all_relationships.filter(r => r.episode_id === relationship.episode_id);
-
-          results.push({
-            episode_id: relationship.episode_id,
-            episode_title: episode.title,
-            episode_number: episode.episode_number,
-            episode_url: episode.url,
-            episode_date: episode.date,
-            match_type: 'relationship_description',
-            match_details: matchDetails,
-            entities_linked: episodeEntities,
-            relationships_linked: episodeRelationships,
-            relevance_score: relevanceScore
-          });
-        }
+    if (document.type === 'entity') {
+      const entity = this.entityData?.all_entities.find(e => e.id === document.id);
+      if (bestField === 'name') {
+        return {
+          matchType: 'entity_name',
+          matchDetails: `Found "${searchTerm}" in entity name: "${document.title}" (${entity?.type})`
+        };
       }
+      return {
+        matchType: 'entity_context',
+        matchDetails: `Found "${searchTerm}" in entity context for "${document.title}": "${document.description}"`
+      };
     }
 
-    return results;
+    const relationship = this.entityData?.all_relationships.find(r => r.id === document.id);
+    return {
+      matchType: 'relationship_description',
+      matchDetails: bestField === 'description'
+        ? `Found "${searchTerm}" in relationship: "${relationship?.entity1_name}" ${relationship?.relationship_type} "${relationship?.entity2_name}" - ${document.description}`
+        : `Found "${searchTerm}" in relationship type: "${relationship?.entity1_name}" ${relationship?.relationship_type} "${relationship?.entity2_name}"`
+    };
   }
 
   public search(searchTerm: string, model: string = 'gemini'): SearchResult[] {
@@ -361,25 +302,38 @@ class PodcastSearchEngine {
     this.loadSummaryData();
     this.loadModelData(model);
 
-    // Perform searches
-    const episodeResults = this.searchInEpisodeText(searchTerm);
-    const entityResults = this.searchInEntities(searchTerm);
-    const relationshipResults = this.searchInRelationships(searchTerm);
+    const matches = searchIndex(this.buildIndex(), searchTerm, {
+      documentTexts: document => this.documentTexts.get(document.id) || []
+    });
 
-    // Combine and deduplicate results
-    const allResults = [...episodeResults, ...entityResults, ...relationshipResults];
+    // Keep the best-ranked match per episode
     const uniqueResults = new Map<string, SearchResult>();
 
-    for (const result of allResults) {
-      const existing = uniqueResults.get(result.episode_id);
-      if (!existing || result.relevance_score > existing.relevance_score) {
-        uniqueResults.set(result.episode_id, result);
-      }
+    for (const match of matches) {
+      const episodeId = match.document.episode_id;
+      if (!episodeId || uniqueResults.has(episodeId)) continue;
+
+      const episode = this.findEpisodeById(episodeId);
+      if (!episode) continue;
+
+      const { matchType, matchDetails } = this.describeMatch(match, searchTerm);
+
+      uniqueResults.set(episodeId, {
+        episode_id: episodeId,
+        episode_title: episode.title,
+        episode_number: episode.episode_number,
+        episode_url: episode.url,
+        episode_date: episode.date,
+        match_type: matchType,
+        match_details: matchDetails,
+        entities_linked: this.entityData?.all_entities.filter(e => e.episode_id === episodeId) || [],
+        relationships_linked: this.entityData?.all_relationships.filter(r => r.episode_id === episodeId) || [],
+        relevance_score: Math.round(match.score * 100) / 100
+      });
     }
 
-    // Sort by relevance score (descending)
-    const sortedResults = Array.from(uniqueResults.values())
-      .sort((a, b) => b.relevance_score - a.relevance_score);
+    // Matches are already sorted by BM25 score (descending)
+    const sortedResults = Array.from(uniqueResults.values());
 
     console.log(`📊 Found ${sortedResults.length} episodes matching "${searchTerm}"`);
     
@@ -445,7 +399,13 @@ function main() {
     const results = searchEngine.search(searchTerm, model);
     searchEngine.displayResults(results, limit);
   } catch (error) {
-    console.error('❌ Search failed:', error);
+    if (error instanceof QueryParseError) {
+      console.error(`❌ Invalid query: ${error.message}`);
+      console.error(`   ${searchTerm}`);
+      console.error(`   ${' '.repeat(error.position)}^`);
+    } else {
+      console.error('❌ Search failed:', error);
+    }
     process.exit(1);
   }
 }
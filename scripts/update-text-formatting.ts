@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseTranscriptSegments } from '../src/lib/transcript';
+import type { TranscriptSegment } from '../src/lib/types';
 
 interface Episode {
   episode_id: string;
@@ -8,6 +10,7 @@ interface Episode {
   date: string;
   url: string;
   text: string;
+  segments?: TranscriptSegment[];
   [key: string]: any;
 }
 
@@ -100,6 +103,7 @@ async function updateEpisodeTextFormatting() {
   let updatedCount = 0;
   let alreadyFormattedCount = 0;
   let emptyTextCount = 0;
+  let timestampedCount = 0;
   
   // Process each episode
   for (const episode of episodeData.episodes) {
@@ -125,6 +129,12 @@ async function updateEpisodeTextFormatting() {
         console.log(`   Preview: ${formattedText.substring(0, 200)}...`);
       }
     }
+
+    // Segment offsets refer to the formatted text, so they are recomputed on every run
+    episode.segments = parseTranscriptSegments(episode.text);
+    if (episode.segments.length > 0) {
+      timestampedCount++;
+    }
   }
   
   // Save updated data
@@ -149,6 +159,7 @@ async function updateEpisodeTextFormatting() {
   console.log(`   Updated with <br> formatting: ${updatedCount}`);
   console.log(`   Already formatted: ${alreadyFormattedCount}`);
   console.log(`   Empty text: ${emptyTextCount}`);
+  console.log(`   With timestamp segments: ${timestampedCount}`);
   
   // Show a sample of the formatting
   const sampleEpisode = episodeData.episodes.find(ep => ep.text.includes('<br>') && ep.text.length > 500);
@@ -163,7 +174,7 @@ async function updateEpisodeTextFormatting() {
   }
   
   // Replace the original file with the updated version
-  if (updatedCount > 0) {
+  if (updatedCount > 0 || timestampedCount > 0) {
     console.log(`\n🔄 Replacing original file: ${path.basename(inputFile)}`);
     fs.writeFileSync(inputFile, JSON.stringify(episodeData, null, 2));
     console.log('✅ Original file updated successfully!');
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEntityDetail } from '../../../../lib/data'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const detail = getEntityDetail(id)
+
+  if (!detail) {
+    return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(detail)
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRandomEpisodes, toEpisodeResult } from '../../../lib/data'
+
+// Random episode cards for the landing page, e.g. /api/episodes?sample=3
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const sample = Math.min(parseInt(searchParams.get('sample') || '3', 10) || 3, 20)
+
+  return NextResponse.json({ results: getRandomEpisodes(sample).map(episode => toEpisodeResult(episode)) })
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_NODE_RESULTS, searchGraphNodes } from '../../../../lib/graph'
+import type { GraphNodeKind } from '../../../../lib/types'
+
+// GET /api/graph/nodes?q=jim+simons[&kind=entity][&limit=8]
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const query = searchParams.get('q')?.trim() || ''
+  const kind = searchParams.get('kind')
+  const kinds: GraphNodeKind[] = kind === 'entity' || kind === 'episode' ? [kind] : ['entity', 'episode']
+  const requestedLimit = parseInt(searchParams.get('limit') || '', 10)
+  const limit = requestedLimit > 0 ? Math.min(requestedLimit, 50) : MAX_NODE_RESULTS
+
+  return NextResponse.json({ query, nodes: searchGraphNodes(query, kinds, limit) })
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEntityNeighborhood, getEpisodeNeighborhood, MAX_NEIGHBORHOOD_EDGES } from '../../../lib/graph'
+
+function parseConfidence(value: string | null): number {
+  const parsed = value ? parseFloat(value) : NaN
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), 1) : 0
+}
+
+// GET /api/graph?entity=<id>|episode=<id>[&min_confidence=0.8][&limit=40]
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const entityId = searchParams.get('entity')
+  const episodeId = searchParams.get('episode')
+
+  if (!entityId && !episodeId) {
+    return NextResponse.json({ error: 'Query parameter entity or episode is required' }, { status: 400 })
+  }
+
+  const minConfidence = parseConfidence(searchParams.get('min_confidence'))
+  const requestedLimit = parseInt(searchParams.get('limit') || '', 10)
+  const limit = requestedLimit > 0 ? Math.min(requestedLimit, 200) : MAX_NEIGHBORHOOD_EDGES
+  const neighborhood = entityId
+    ? getEntityNeighborhood(entityId, minConfidence, limit)
+    : getEpisodeNeighborhood(episodeId!, minConfidence, limit)
+
+  if (!neighborhood) {
+    return NextResponse.json({ error: entityId ? 'Entity not found' : 'Episode not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(neighborhood)
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_MAX_PATHS, findConnections, type PathMode } from '../../../lib/paths'
+
+// GET /api/paths?from=<node id>&to=<node id>[&via=relationships][&max_paths=5]
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+
+  if (!from || !to) {
+    return NextResponse.json({ error: 'Query parameters from and to are required' }, { status: 400 })
+  }
+
+  const mode: PathMode = searchParams.get('via') === 'relationships' ? 'relationships' : 'all'
+  const requestedPaths = parseInt(searchParams.get('max_paths') || '', 10)
+  const maxPaths = requestedPaths > 0 ? Math.min(requestedPaths, 20) : DEFAULT_MAX_PATHS
+  const connections = findConnections(from, to, mode, maxPaths)
+
+  if (!connections) {
+    return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(connections)
+}
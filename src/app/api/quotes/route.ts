@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_QUOTE_PAGE_SIZE, MAX_QUOTE_PAGE_SIZE, searchQuotes } from '../../../lib/quotes'
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Quote library, e.g. /api/quotes?q=accountants; without q every quote is listed
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const query = searchParams.get('q')?.trim() || ''
+  const page = parsePositiveInt(searchParams.get('page'), 1)
+  const pageSize = Math.min(parsePositiveInt(searchParams.get('pageSize'), DEFAULT_QUOTE_PAGE_SIZE), MAX_QUOTE_PAGE_SIZE)
+
+  try {
+    return NextResponse.json(searchQuotes(query, page, pageSize))
+  } catch (error) {
+    console.error('Quote search error:', error)
+    return NextResponse.json({ error: 'Failed to search quotes' }, { status: 500 })
+  }
+}
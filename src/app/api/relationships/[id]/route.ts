@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRelationshipDetail } from '../../../../lib/data'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const detail = getRelationshipDetail(id)
+
+  if (!detail) {
+    return NextResponse.json({ error: 'Relationship not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(detail)
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasFacetSelection, parseFacetSelection } from '../../../lib/facets'
+import { QueryParseError } from '../../../lib/query'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, search } from '../../../lib/search'
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const query = searchParams.get('q')?.trim() || ''
+  const facets = parseFacetSelection(searchParams)
+
+  if (!query && !hasFacetSelection(facets)) {
+    return NextResponse.json({ error: 'Query parameter q or a facet filter is required' }, { status: 400 })
+  }
+
+  const page = parsePositiveInt(searchParams.get('page'), 1)
+  const pageSize = Math.min(parsePositiveInt(searchParams.get('pageSize'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+
+  try {
+    return NextResponse.json(search(query, page, pageSize, facets))
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      return NextResponse.json({ error: error.message, position: error.position }, { status: 400 })
+    }
+    console.error('Search error:', error)
+    return NextResponse.json({ error: 'Failed to search' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import DetailPageLayout from '../../../components/DetailPageLayout'
+import { EntityDetailView } from '../../../components/DetailViews'
+import { getAllEntities, getEntity, getEntityDetail, getEpisode, getRelationships, toEpisodeSummary } from '../../../lib/data'
+import { formatDisplayText, truncateDescription } from '../../../lib/format'
+import { detailPath } from '../../../lib/site'
+import { entityJsonLd, schemaTypeFor } from '../../../lib/structured-data'
+
+type EntityPageProps = { params: Promise<{ id: string }> }
+
+export function generateStaticParams() {
+  return getAllEntities().map(entity => ({ id: entity.id }))
+}
+
+export async function generateMetadata({ params }: EntityPageProps): Promise<Metadata> {
+  const { id } = await params
+  const entity = getEntity(id)
+  if (!entity) return {}
+
+  const episode = getEpisode(entity.episode_id)
+  const title = episode ? `${entity.name} in ${episode.episode_title}` : entity.name
+  const description = truncateDescription(entity.context)
+  return {
+    title,
+    description,
+    alternates: { canonical: detailPath('entity', id) },
+    openGraph: {
+      type: schemaTypeFor(entity) === 'Book' ? 'book' : schemaTypeFor(entity) === 'Person' ? 'profile' : 'website',
+      title: `${formatDisplayText(entity.name)} (${formatDisplayText(entity.type)})`,
+      description,
+      url: detailPath('entity', id),
+      images: entity.amazon_products?.find(product => product.thumbnail)?.thumbnail
+    }
+  }
+}
+
+export default async function EntityPage({ params }: EntityPageProps) {
+  const { id } = await params
+  const detail = getEntityDetail(id)
+
+  if (!detail) {
+    notFound()
+  }
+
+  const episode = getEpisode(detail.entity.episode_id)
+  const jsonLd = entityJsonLd(detail.entity, episode && toEpisodeSummary(episode), getRelationships())
+
+  return (
+    <DetailPageLayout jsonLd={jsonLd}>
+      <EntityDetailView detail={detail} />
+    </DetailPageLayout>
+  )
+}
@@ -0,0 +1,49 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import DetailPageLayout from '../../../components/DetailPageLayout'
+import { EpisodeDetailView } from '../../../components/DetailViews'
+import { getEpisode, getEpisodeDetail, getEpisodes, getEpisodeText } from '../../../lib/data'
+import { extractDescription } from '../../../lib/format'
+import { detailPath } from '../../../lib/site'
+import { episodeJsonLd } from '../../../lib/structured-data'
+
+type EpisodePageProps = { params: Promise<{ id: string }> }
+
+export function generateStaticParams() {
+  return getEpisodes().map(episode => ({ id: episode.episode_id }))
+}
+
+export async function generateMetadata({ params }: EpisodePageProps): Promise<Metadata> {
+  const { id } = await params
+  const episode = getEpisode(id)
+  if (!episode) return {}
+
+  const description = extractDescription(episode, getEpisodeText(id))
+  return {
+    title: episode.episode_title,
+    description,
+    alternates: { canonical: detailPath('episode', id) },
+    openGraph: {
+      type: 'article',
+      title: episode.episode_title,
+      description,
+      url: detailPath('episode', id),
+      publishedTime: episode.date || undefined
+    }
+  }
+}
+
+export default async function EpisodePage({ params }: EpisodePageProps) {
+  const { id } = await params
+  const detail = getEpisodeDetail(id)
+
+  if (!detail) {
+    notFound()
+  }
+
+  return (
+    <DetailPageLayout jsonLd={episodeJsonLd(detail.episode, extractDescription(detail.episode, getEpisodeText(id)))}>
+      <EpisodeDetailView detail={detail} />
+    </DetailPageLayout>
+  )
+}
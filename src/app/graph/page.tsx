@@ -0,0 +1,25 @@
+import type { Metadata } from 'next'
+import DetailPageLayout from '../../components/DetailPageLayout'
+import GraphExplorer, { type GraphRoot } from '../../components/GraphExplorer'
+
+type GraphPageProps = { searchParams: Promise<{ entity?: string, episode?: string }> }
+
+export const metadata: Metadata = {
+  title: 'Graph Explorer',
+  description: 'Explore how founders, companies, books and episodes are connected',
+  alternates: { canonical: '/graph' }
+}
+
+// /graph?entity=<id> or /graph?episode=<id> starts from that node
+export default async function GraphPage({ searchParams }: GraphPageProps) {
+  const { entity, episode } = await searchParams
+  const initialRoot: GraphRoot | null = entity
+    ? { id: entity, kind: 'entity' }
+    : episode ? { id: episode, kind: 'episode' } : null
+
+  return (
+    <DetailPageLayout wide>
+      <GraphExplorer initialRoot={initialRoot} />
+    </DetailPageLayout>
+  )
+}
@@ -1,9 +1,18 @@
 import type { Metadata } from 'next'
+import { SITE_NAME, SITE_URL } from '../lib/site'
 import './globals.css'
 
 export const metadata: Metadata = {
-  title: 'Founders Search',
+  metadataBase: new URL(SITE_URL),
+  title: {
+    default: SITE_NAME,
+    template: `%s | ${SITE_NAME}`
+  },
   description: 'Search for podcast episodes, entities and relationships',
+  openGraph: {
+    siteName: SITE_NAME,
+    type: 'website'
+  }
 }
 
 export default function RootLayout({
@@ -1,180 +1,228 @@
 'use client'
 
 import { useEffect, useRef, useState } from 'react'
-import episodesData from '../data-episodes-claude.json'
-import relationshipsData from '../data-relationships-claude.json'
-import episodesTextData from '../data-episodes-text.json'
-
-interface AmazonProduct {
-  url: string
-  title: string
-  thumbnail?: string
+import DetailModal, { type ModalTarget } from '../components/DetailModal'
+import { QuoteList, type OpenDetail, type TranscriptPassage } from '../components/DetailViews'
+import type {
+  Entity,
+  EpisodeSummary,
+  QuoteSearchResponse,
+  QuoteSearchResult,
+  Relationship,
+  ResultType,
+  FacetSelection,
+  SearchFacets,
+  SearchResponse,
+  SearchResult,
+  Snippet
+} from '../lib/types'
+import { emptyFacetSelection, hasFacetSelection, parseFacetSelection, writeFacetSelection } from '../lib/facets'
+import { formatDisplayText } from '../lib/format'
+import { episodeUrlAtTime, formatTimestamp } from '../lib/transcript'
+
+interface ModalData extends ModalTarget {
+  isOpen: boolean
 }
 
-interface Entity {
-  id: string
-  name: string
-  type: string
-  context: string
-  episode_id: string
-  confidence_score: number
-  amazon_searchable?: boolean
-  amazon_keywords?: string[]
-  amazon_products?: AmazonProduct[]
-}
+const MODAL_PARAMS: ResultType[] = ['episode', 'entity', 'relationship']
 
-interface Relationship {
-  id: string
-  episode_id: string
-  entity1_id?: string
-  entity1_name: string
-  entity2_id?: string
-  entity2_name: string
-  relationship_type: string
-  description: string
-  confidence_score: number
-}
+const CLOSED_MODAL: ModalData = { id: '', type: 'episode', isOpen: false }
 
-interface Episode {
-  episode_id: string
-  episode_title: string
-  episode_number?: number
-  date: string
-  url: string
-  entities: Entity[]
-}
+// ?tab=quotes searches the quote library instead of episodes, entities and relationships
+type SearchTab = 'all' | 'quotes'
 
-interface SearchResult {
-  id: string
-  type: 'episode' | 'entity' | 'relationship'
-  title: string
-  description: string
-  url?: string
-  episode_id?: string
-  relevanceScore: number
-}
+const SEARCH_TABS: { tab: SearchTab, label: string }[] = [
+  { tab: 'all', label: 'Everything' },
+  { tab: 'quotes', label: 'Quotes' }
+]
 
-interface ModalData {
-  id: string
-  type: 'episode' | 'entity' | 'relationship'
-  isOpen: boolean
+// ?entity=person_tamaramellon_ep_389_7 (or ?episode= / ?relationship=) names the open modal
+function readModalParam(params: URLSearchParams): { id: string, type: ResultType } | null {
+  for (const type of MODAL_PARAMS) {
+    const id = params.get(type)
+    if (id) return { id, type }
+  }
+  return null
 }
 
-interface AmazonSearchResult {
-  title: string
-  thumbnail?: string
-  link_clean?: string
+// Modal drilldowns push history entries so back/forward walks through them;
+// typing and facet changes replace the current entry
+function updateUrl(update: (params: URLSearchParams) => void, mode: 'push' | 'replace') {
+  const params = new URLSearchParams(window.location.search)
+  update(params)
+  const query = params.toString()
+  const url = query ? `?${query}` : window.location.pathname
+  if (mode === 'push') {
+    window.history.pushState(null, '', url)
+  } else {
+    window.history.replaceState(null, '', url)
+  }
 }
 
-// Amazon Products Component with fallback search
-function AmazonProductsComponent({ entity }: { entity: Entity }) {
-  const [searchResults, setSearchResults] = useState<AmazonSearchResult[]>([])
-  const [isLoading, setIsLoading] = useState(false)
-  const [hasSearched, setHasSearched] = useState(false)
-  
-  // Check if entity should have Amazon search
-  const shouldSearch = (entity.type === 'media' || entity.amazon_searchable) && 
-                      (!entity.amazon_products || entity.amazon_products.length === 0)
-  
-  useEffect(() => {
-    const performAmazonSearch = async () => {
-      if (isLoading) return
-      
-      setIsLoading(true)
-      setHasSearched(true)
-      
-      try {
-        const response = await fetch('/api/amazon-search', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ query: entity.name })
-        })
-        
-        if (response.ok) {
-          const data = await response.json()
-          if (data.results && data.results.length > 0) {
-            setSearchResults(data.results.slice(0, 3)) // Top 3 results
-          }
-        }
-      } catch (error) {
-        console.error('Amazon search failed:', error)
-      } finally {
-        setIsLoading(false)
-      }
-    }
-    
-    if (shouldSearch && !hasSearched) {
-      performAmazonSearch()
-    }
-  }, [entity.id, entity.name, shouldSearch, hasSearched, isLoading])
-  
-  // Don't render if no products and shouldn't search
-  if (!entity.amazon_products?.length && !shouldSearch) {
-    return null
+const formatFacetLabel = (value: string): string => value.replace(/_/g, ' ')
+
+// Filters next to the search results; counts come from the latest search response
+function FacetSidebar({ facets, selection, onChange }: {
+  facets: SearchFacets | null
+  selection: FacetSelection
+  onChange: (selection: FacetSelection) => void
+}) {
+  const toggleValue = (key: 'entity_types' | 'relationship_types', value: string) => {
+    const values = selection[key].includes(value)
+      ? selection[key].filter(selected => selected !== value)
+      : [...selection[key], value]
+    onChange({ ...selection, [key]: values })
   }
-  
-  // Don't render if should search but no results after searching
-  if (shouldSearch && hasSearched && !searchResults.length && !isLoading) {
-    return null
+
+  const setEpisodeBound = (key: 'episode_min' | 'episode_max', value: string) => {
+    const parsed = parseInt(value, 10)
+    onChange({ ...selection, [key]: Number.isFinite(parsed) ? parsed : undefined })
+  }
+
+  const renderValues = (key: 'entity_types' | 'relationship_types', title: string) => {
+    const values = facets?.[key] || []
+    if (values.length === 0) return null
+
+    return (
+      <div className="facet-group">
+        <h4 className="facet-title">{title}</h4>
+        {values.map(facet => (
+          <label key={facet.value} className="facet-option">
+            <input
+              type="checkbox"
+              checked={selection[key].includes(facet.value)}
+              onChange={() => toggleValue(key, facet.value)}
+            />
+            <span className="facet-label">{formatFacetLabel(facet.value)}</span>
+            <span className="facet-count">{facet.count}</span>
+          </label>
+        ))}
+      </div>
+    )
   }
 
   return (
-    <div className="modal-section">
-      <h3 className="modal-section-title">Available on Amazon</h3>
-      
-      {isLoading && (
-        <div className="amazon-loading">
-          Searching Amazon...
+    <aside className="facet-sidebar">
+      {renderValues('entity_types', 'Entity Type')}
+      {renderValues('relationship_types', 'Relationship Type')}
+
+      <div className="facet-group">
+        <h4 className="facet-title">Date</h4>
+        <div className="facet-range">
+          <input
+            type="date"
+            className="facet-input"
+            value={selection.date_from || ''}
+            min={facets?.date_range?.min}
+            max={facets?.date_range?.max}
+            onChange={(e) => onChange({ ...selection, date_from: e.target.value || undefined })}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            className="facet-input"
+            value={selection.date_to || ''}
+            min={facets?.date_range?.min}
+            max={facets?.date_range?.max}
+            onChange={(e) => onChange({ ...selection, date_to: e.target.value || undefined })}
+          />
         </div>
-      )}
-      
-      {/* Show pre-stored products in grid layout */}
-      {entity.amazon_products && entity.amazon_products.length > 0 && (
-        <div className="amazon-products-grid">
-          {entity.amazon_products.map((product, index) => (
-            <div key={`stored-${index}`} className="amazon-product">
-              <a 
-                href={product.url} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="amazon-product-link"
-              >
-                {product.thumbnail && (
-                  <img 
-                    src={product.thumbnail} 
-                    alt={product.title}
-                    className="amazon-thumbnail"
-                  />
-                )}
-                <div className="amazon-title">{product.title}</div>
-              </a>
-            </div>
-          ))}
+      </div>
+
+      <div className="facet-group">
+        <h4 className="facet-title">Episode</h4>
+        <div className="facet-range">
+          <input
+            type="number"
+            className="facet-input"
+            min={0}
+            value={selection.episode_min ?? ''}
+            placeholder={facets?.episode_range ? `#${facets.episode_range.min}` : 'From'}
+            onChange={(e) => setEpisodeBound('episode_min', e.target.value)}
+          />
+          <span>to</span>
+          <input
+            type="number"
+            className="facet-input"
+            min={0}
+            value={selection.episode_max ?? ''}
+            placeholder={facets?.episode_range ? `#${facets.episode_range.max}` : 'To'}
+            onChange={(e) => setEpisodeBound('episode_max', e.target.value)}
+          />
         </div>
+      </div>
+
+      {hasFacetSelection(selection) && (
+        <button className="facet-clear" onClick={() => onChange(emptyFacetSelection())}>
+          Clear filters
+        </button>
       )}
-      
-      {/* Show search results in horizontal layout */}
-      {searchResults.length > 0 && (
-        <div className="amazon-search-results">
-          {searchResults.map((result, index) => (
-            <div key={`search-${index}`} className="amazon-result">
-              <a 
-                href={result.link_clean} 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="amazon-result-link"
+    </aside>
+  )
+}
+
+// The quote library; every quote is listed until a query is typed
+function QuoteSearch({ query, onOpen }: { query: string, onOpen: OpenDetail }) {
+  const [results, setResults] = useState<QuoteSearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchQuotes = async (page: number, signal?: AbortSignal) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ q: query.trim(), page: String(page) })
+      const response = await fetch(`/api/quotes?${params}`, { signal })
+      if (!response.ok) {
+        throw new Error(`Quote search request failed: ${response.status}`)
+      }
+
+      const data: QuoteSearchResponse = await response.json()
+      setResults(previous => page === 1 ? data.results : [...previous, ...data.results])
+      setTotal(data.total)
+      setCurrentPage(data.page)
+      setIsLoading(false)
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return
+      console.error('Quote search failed:', error)
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => fetchQuotes(1, controller.signal), 500)
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [query])
+
+  return (
+    <div className="episodes-section">
+      {results.length > 0 ? (
+        <>
+          <div className="search-results-header">
+            {query.trim()
+              ? `Found ${total} quote${total !== 1 ? 's' : ''} for "${query}"`
+              : `${total} quote${total !== 1 ? 's' : ''}`}
+          </div>
+          <QuoteList quotes={results} onOpen={onOpen} />
+          {results.length < total && (
+            <div className="load-more-section">
+              <button
+                className="btn-accent load-more-button"
+                onClick={() => fetchQuotes(currentPage + 1)}
+                disabled={isLoading}
               >
-                {result.thumbnail && (
-                  <img 
-                    src={result.thumbnail} 
-                    alt={result.title}
-                    className="amazon-thumbnail"
-                  />
-                )}
-                <div className="amazon-title">{result.title}</div>
-              </a>
+                {isLoading ? 'Loading...' : 'Load more quotes'}
+              </button>
             </div>
-          ))}
+          )}
+        </>
+      ) : !isLoading && (
+        <div className="no-results">
+          No quotes found{query.trim() && ` for "${query}"`}
         </div>
       )}
     </div>
@@ -184,12 +232,20 @@ function AmazonProductsComponent({ entity }: { entity: Entity }) {
 export default function Home() {
   const searchInputRef = useRef<HTMLInputElement>(null)
   const [searchQuery, setSearchQuery] = useState('')
+  const [searchTab, setSearchTab] = useState<SearchTab>('all')
   const [searchResults, setSearchResults] = useState<SearchResult[]>([])
+  const [totalResults, setTotalResults] = useState(0)
+  const [currentPage, setCurrentPage] = useState(1)
   const [isSearching, setIsSearching] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Message for a query the server could not parse (see src/lib/query.ts)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(emptyFacetSelection())
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-  const [modalData, setModalData] = useState<ModalData>({ id: '', type: 'episode', isOpen: false })
-  const [amazonSearchResults, setAmazonSearchResults] = useState<{ [entityId: string]: AmazonSearchResult }>({})
-  const [randomEpisodes, setRandomEpisodes] = useState<Episode[]>([])
+  const searchAbortRef = useRef<AbortController | null>(null)
+  const [modalData, setModalData] = useState<ModalData>(CLOSED_MODAL)
+  const [randomEpisodes, setRandomEpisodes] = useState<SearchResult[]>([])
 
   useEffect(() => {
     // Focus the search input when the page loads
@@ -197,9 +253,17 @@ export default function Home() {
       searchInputRef.current.focus()
     }
     
-    // Set random episodes on client side to avoid hydration mismatch
-    const shuffled = [...episodesData.episodes].sort(() => 0.5 - Math.random())
-    setRandomEpisodes(shuffled.slice(0, 3))
+    // Restore the query, facets and open modal from a shared or reloaded URL
+    applyUrlState()
+    window.addEventListener('popstate', applyUrlState)
+
+    // Fetch random episodes on client side to avoid hydration mismatch
+    fetch('/api/episodes?sample=3')
+      .then(response => response.json())
+      .then(data => setRandomEpisodes(data.results || []))
+      .catch(error => console.error('Failed to load episodes:', error))
+
+    return () => window.removeEventListener('popstate', applyUrlState)
   }, [])
 
   // Auto-search with debounce
@@ -208,15 +272,18 @@ export default function Home() {
       clearTimeout(searchTimeoutRef.current)
     }
 
-    if (searchQuery.trim()) {
+    if (searchTab === 'all' && (searchQuery.trim() || hasFacetSelection(facetSelection))) {
       searchTimeoutRef.current = setTimeout(() => {
         setIsSearching(true)
-        const results = performSearch(searchQuery)
-        setSearchResults(results)
+        performSearch(searchQuery, 1)
       }, 500) // 0.5 second delay
     } else {
+      searchAbortRef.current?.abort()
       setIsSearching(false)
+      setSearchError(null)
       setSearchResults([])
+      setTotalResults(0)
+      setFacets(null)
     }
 
     // Cleanup timeout on component unmount
@@ -225,560 +292,134 @@ export default function Home() {
         clearTimeout(searchTimeoutRef.current)
       }
     }
-  }, [searchQuery])
-
-  // Handle ESC key to close modal
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Escape' && modalData.isOpen) {
-        closeModal()
-      }
-    }
-
-    if (modalData.isOpen) {
-      document.addEventListener('keydown', handleKeyDown)
-    }
-
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown)
-    }
-  }, [modalData.isOpen])
-
-  const performSearch = (query: string): SearchResult[] => {
-    if (!query.trim()) return []
-
-    const results: SearchResult[] = []
-    const searchTerm = query.toLowerCase().trim()
-
-    // Search Episodes
-    episodesData.episodes.forEach((episode: Episode) => {
-      let relevanceScore = 0
-      let matchFound = false
-
-      // Check title
-      if (episode.episode_title.toLowerCase().includes(searchTerm)) {
-        relevanceScore += 10
-        matchFound = true
-      }
-
-      // Check entities context
-      episode.entities?.forEach((entity: Entity) => {
-        if (entity.name.toLowerCase().includes(searchTerm)) {
-          relevanceScore += 8
-          matchFound = true
-        }
-        if (entity.context.toLowerCase().includes(searchTerm)) {
-          relevanceScore += 3
-          matchFound = true
-        }
-      })
-
-      if (matchFound) {
-        results.push({
-          id: episode.episode_id,
-          type: 'episode',
-          title: episode.episode_title,
-          description: extractDescription(episode),
-          url: episode.url,
-          episode_id: episode.episode_id,
-          relevanceScore
-        })
-      }
-    })
-
-    // Search All Entities
-    episodesData.all_entities?.forEach((entity: Entity) => {
-      let relevanceScore = 0
-      let matchFound = false
-
-      if (entity.name.toLowerCase().includes(searchTerm)) {
-        relevanceScore += 10
-        matchFound = true
+  }, [searchQuery, facetSelection, searchTab])
+
+  const performSearch = async (query: string, page: number) => {
+    searchAbortRef.current?.abort()
+    const controller = new AbortController()
+    searchAbortRef.current = controller
+
+    try {
+      const params = writeFacetSelection(facetSelection, new URLSearchParams({ q: query.trim(), page: String(page) }))
+      const response = await fetch(`/api/search?${params}`, { signal: controller.signal })
+      if (response.status === 400) {
+        const { error } = await response.json()
+        setSearchError(error)
+        setSearchResults([])
+        setTotalResults(0)
+        return
       }
-      if (entity.context.toLowerCase().includes(searchTerm)) {
-        relevanceScore += 5
-        matchFound = true
+      if (!response.ok) {
+        throw new Error(`Search request failed: ${response.status}`)
       }
 
-      if (matchFound) {
-        results.push({
-          id: entity.id,
-          type: 'entity',
-          title: entity.name,
-          description: entity.context.length > 200 ? entity.context.substring(0, 200) + '...' : entity.context,
-          episode_id: entity.episode_id,
-          relevanceScore
-        })
+      const data: SearchResponse = await response.json()
+      setSearchError(null)
+      setSearchResults(previous => page === 1 ? data.results : [...previous, ...data.results])
+      setTotalResults(data.total)
+      setCurrentPage(data.page)
+      setFacets(data.facets)
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return
+      console.error('Search failed:', error)
+      if (page === 1) {
+        setSearchResults([])
+        setTotalResults(0)
       }
-    })
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
 
-    // Search Relationships
-    relationshipsData.relationships.forEach((rel: Relationship) => {
-      let relevanceScore = 0
-      let matchFound = false
+  // Only uses state setters, so the copy registered on mount stays valid
+  const applyUrlState = () => {
+    const params = new URLSearchParams(window.location.search)
+    const selection = parseFacetSelection(params)
+    const modal = readModalParam(params)
+
+    setSearchQuery(params.get('q') || '')
+    setSearchTab(params.get('tab') === 'quotes' ? 'quotes' : 'all')
+    // Keep the previous object when nothing changed so going back does not re-run the search
+    setFacetSelection(previous => JSON.stringify(previous) === JSON.stringify(selection) ? previous : selection)
+    setModalData(previous => modal
+      ? (previous.isOpen && previous.id === modal.id && previous.type === modal.type ? previous : { ...modal, isOpen: true })
+      : CLOSED_MODAL)
+  }
 
-      if (rel.relationship_type.toLowerCase().includes(searchTerm)) {
-        relevanceScore += 8
-        matchFound = true
-      }
-      if (rel.entity1_name.toLowerCase().includes(searchTerm)) {
-        relevanceScore += 6
-        matchFound = true
-      }
-      if (rel.entity2_name.toLowerCase().includes(searchTerm)) {
-        relevanceScore += 6
-        matchFound = true
-      }
-      if (rel.description.toLowerCase().includes(searchTerm)) {
-        relevanceScore += 3
-        matchFound = true
-      }
+  // Facet filters live in the URL so a filtered view can be reloaded or shared
+  const updateFacetSelection = (selection: FacetSelection) => {
+    setFacetSelection(selection)
+    updateUrl(params => writeFacetSelection(selection, params), 'replace')
+  }
 
-      if (matchFound) {
-        results.push({
-          id: rel.id,
-          type: 'relationship',
-          title: `${rel.entity1_name} ${rel.relationship_type} ${rel.entity2_name}`,
-          description: rel.description,
-          episode_id: rel.episode_id,
-          relevanceScore
-        })
-      }
-    })
+  const changeSearchTab = (tab: SearchTab) => {
+    setSearchTab(tab)
+    updateUrl(params => tab === 'all' ? params.delete('tab') : params.set('tab', tab), 'replace')
+  }
 
-    // Sort by relevance score (highest first)
-    return results.sort((a, b) => b.relevanceScore - a.relevanceScore)
+  const loadMoreResults = () => {
+    setIsLoadingMore(true)
+    performSearch(searchQuery, currentPage + 1)
   }
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value
     setSearchQuery(value)
+    updateUrl(params => value.trim() ? params.set('q', value) : params.delete('q'), 'replace')
   }
 
   // Modal functions
-  const openModal = (id: string, type: 'episode' | 'entity' | 'relationship') => {
-    setModalData({ id, type, isOpen: true })
-    document.body.style.overflow = 'hidden' // Prevent background scrolling
+  const openModal = (id: string, type: ResultType, passage?: TranscriptPassage) => {
+    setModalData({ id, type, isOpen: true, passage })
+    updateUrl(params => {
+      MODAL_PARAMS.forEach(param => params.delete(param))
+      params.set(type, id)
+    }, 'push')
   }
 
   const closeModal = () => {
-    setModalData({ id: '', type: 'episode', isOpen: false })
-    document.body.style.overflow = 'unset' // Restore scrolling
-  }
-
-  // Helper functions to get related items
-  const getRelatedItemsForEntity = (entityId: string) => {
-    const relatedEpisodes: Episode[] = []
-    const relatedEntities: Entity[] = []
-    const relatedRelationships: Relationship[] = []
-
-    // Find relationships involving this entity
-    const entityRelationships = relationshipsData.relationships.filter((rel: Relationship) => 
-      rel.entity1_id === entityId || rel.entity2_id === entityId
-    )
-
-    entityRelationships.forEach((rel: Relationship) => {
-      // Add the relationship itself
-      relatedRelationships.push(rel)
-      
-      // Find the other entity in the relationship
-      const otherEntityId = rel.entity1_id === entityId ? rel.entity2_id : rel.entity1_id
-      const otherEntity = episodesData.all_entities?.find((entity: Entity) => entity.id === otherEntityId)
-      if (otherEntity && !relatedEntities.find(e => e.id === otherEntity.id)) {
-        relatedEntities.push(otherEntity)
-      }
-    })
-
-    // Find episodes that contain this entity
-    episodesData.episodes.forEach((episode: Episode) => {
-      if (episode.entities.some((entity: Entity) => entity.id === entityId)) {
-        relatedEpisodes.push(episode)
-      }
-    })
-
-    return {
-      episodes: relatedEpisodes.slice(0, 5),
-      entities: relatedEntities.slice(0, 5),
-      relationships: relatedRelationships.slice(0, 5)
-    }
+    setModalData(CLOSED_MODAL)
+    updateUrl(params => MODAL_PARAMS.forEach(param => params.delete(param)), 'push')
   }
 
-  const getRelatedItemsForRelationship = (relationshipId: string) => {
-    const relationship = relationshipsData.relationships.find((rel: Relationship) => rel.id === relationshipId)
-    if (!relationship) return { episodes: [], entities: [], relationships: [] }
-
-    const relatedEpisodes: Episode[] = []
-    const relatedEntities: Entity[] = []
-    const relatedRelationships: Relationship[] = []
-
-    // Find the entities involved in this relationship
-    const entity1 = episodesData.all_entities?.find((entity: Entity) => entity.id === relationship.entity1_id)
-    const entity2 = episodesData.all_entities?.find((entity: Entity) => entity.id === relationship.entity2_id)
-    
-    if (entity1) relatedEntities.push(entity1)
-    if (entity2) relatedEntities.push(entity2)
-
-    // Find episode containing this relationship
-    const episode = episodesData.episodes.find((ep: Episode) => ep.episode_id === relationship.episode_id)
-    if (episode) relatedEpisodes.push(episode)
-
-    // Find other relationships involving the same entities
-    const otherRelationships = relationshipsData.relationships.filter((rel: Relationship) => 
-      rel.id !== relationshipId && 
-      (rel.entity1_id === relationship.entity1_id || 
-       rel.entity1_id === relationship.entity2_id ||
-       rel.entity2_id === relationship.entity1_id || 
-       rel.entity2_id === relationship.entity2_id)
-    )
-    relatedRelationships.push(...otherRelationships)
-
-    return {
-      episodes: relatedEpisodes.slice(0, 5),
-      entities: relatedEntities.slice(0, 5),
-      relationships: relatedRelationships.slice(0, 5)
-    }
-  }
-
-
-  const extractDescription = (episode: Episode): string => {
-    // Get description from the first entity's context or use a fallback
-    const firstEntity = episode.entities?.[0]
-    if (firstEntity?.context) {
-      // Take first sentence or first 150 characters
-      const sentences = firstEntity.context.split('. ')
-      return sentences[0].length > 150 
-        ? firstEntity.context.substring(0, 150) + '...'
-        : sentences[0] + (sentences.length > 1 ? '.' : '')
-    }
-    return 'Explore the entrepreneurial journey and business insights from this episode.'
-  }
-
-  // Format text for better display (replace _ with space and capitalize words)
-  const formatDisplayText = (text: string): string => {
-    return text
-      .replace(/_/g, ' ')
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join(' ')
-  }
-
-  // Get full episode text
-  const getEpisodeFullText = (episodeId: string): string => {
-    const episodeText = episodesTextData.episodes.find((ep: any) => {
-      // Match by episode number since the text data structure might be different
-      const episode = episodesData.episodes.find((e: Episode) => e.episode_id === episodeId)
-      return episode && ep.episode_number === episode.episode_number
-    })
-    
-    const text = episodeText?.text || 'Full episode text not available.'
-    
-    // If text already contains <br> tags (from new scraper), return as-is
-    // Otherwise, convert newlines to <br> tags for legacy data
-    if (text.includes('<br>')) {
-      return text
-    }
-    return text.replace(/\n/g, '<br>')
-  }
-
-  // Get modal content data
-  const getModalContent = () => {
-    if (!modalData.isOpen) return null
-
-    switch (modalData.type) {
-      case 'episode':
-        return episodesData.episodes.find((ep: Episode) => ep.episode_id === modalData.id)
-      case 'entity':
-        return episodesData.all_entities?.find((entity: Entity) => entity.id === modalData.id)
-      case 'relationship':
-        return relationshipsData.relationships.find((rel: Relationship) => rel.id === modalData.id)
-      default:
-        return null
-    }
-  }
-
-  // Render modal content
-  const renderModalContent = () => {
-    const content = getModalContent()
-    if (!content) return null
-
-    if (modalData.type === 'episode') {
-      const episode = content as Episode
-      const relatedItems = {
-        entities: episode.entities || [],
-        relationships: relationshipsData.relationships.filter((rel: Relationship) => 
-          rel.episode_id === episode.episode_id
-        )
-      }
-
-      return (
-        <div className="modal-content">
-          <h2 className="modal-title">{episode.episode_title}</h2>
-          
-          {/* Relationships at top for episodes */}
-          {relatedItems.relationships.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Relationships</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.relationships.map((rel: Relationship) => (
-                  <span
-                    key={rel.id}
-                    className="relationship-pill modal-pill"
-                    data-id={rel.id}
-                    data-type="relationship"
-                    onClick={() => openModal(rel.id, 'relationship')}
-                  >
-                    {(() => {
-                      const formatted = formatDisplayText(rel.relationship_type)
-                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                    })()}
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Entities */}
-          {relatedItems.entities.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Entities</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.entities.map((entity: Entity) => (
-                  <span
-                    key={entity.id}
-                    className="entity-pill modal-pill"
-                    data-id={entity.id}
-                    data-type="entity"
-                    onClick={() => openModal(entity.id, 'entity')}
-                  >
-                    {(() => {
-                      const formatted = formatDisplayText(entity.name)
-                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                    })()}
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Episode full text/description */}
-          <div className="modal-section">
-            <h3 className="modal-section-title">Full Episode Content</h3>
-            <div 
-              className="modal-text-content"
-              dangerouslySetInnerHTML={{ __html: getEpisodeFullText(episode.episode_id) }}
-            />
-          </div>
-
-          {episode.url && (
-            <div className="modal-section">
-              <a 
-                href={episode.url}
+  const renderSnippets = (result: SearchResult) => {
+    if (!result.snippets || result.snippets.length === 0) return null
+
+    return (
+      <div className="search-snippets">
+        {result.snippets.map((snippet: Snippet, index: number) => (
+          <p
+            key={`${result.id}-snippet-${index}`}
+            className="search-snippet"
+            onClick={() => openModal(result.id, 'episode', { offset: snippet.offset, length: snippet.length })}
+          >
+            {snippet.timestamp !== undefined && result.url && (
+              <a
+                href={episodeUrlAtTime(result.url, snippet.timestamp)}
                 target="_blank"
                 rel="noopener noreferrer"
-                className="btn-accent modal-play-button"
+                className="timestamp-link"
+                onClick={(e) => e.stopPropagation()}
               >
-                Listen to Episode
+                {formatTimestamp(snippet.timestamp)}
               </a>
-            </div>
-          )}
-        </div>
-      )
-    }
-
-    if (modalData.type === 'entity') {
-      const entity = content as Entity
-      const relatedItems = getRelatedItemsForEntity(entity.id)
-
-      return (
-        <div className="modal-content">
-          <div className="modal-type-badge entity-badge">
-            {formatDisplayText(entity.type)}
-          </div>
-          <h2 className="modal-title">{formatDisplayText(entity.name)}</h2>
-          
-          <div className="modal-section">
-            <h3 className="modal-section-title">Description</h3>
-            <div className="modal-text-content">
-              {entity.context}
-            </div>
-          </div>
-
-          {/* Amazon Products (pre-fetched) */}
-          <AmazonProductsComponent entity={entity} />
-
-          {/* Related Episodes */}
-          {relatedItems.episodes.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Episodes</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.episodes.map((episode: Episode) => (
-                  <span
-                    key={episode.episode_id}
-                    className="episode-pill modal-pill"
-                    data-id={episode.episode_id}
-                    data-type="episode"
-                    onClick={() => openModal(episode.episode_id, 'episode')}
-                  >
-                    {episode.episode_number 
-                      ? `#${episode.episode_number}` 
-                      : episode.episode_title.length > 15 
-                        ? `${episode.episode_title.substring(0, 15)}...`
-                        : episode.episode_title
-                    }
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Related Entities */}
-          {relatedItems.entities.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Related Entities</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.entities.map((relEntity: Entity) => (
-                  <span
-                    key={relEntity.id}
-                    className="entity-pill modal-pill"
-                    data-id={relEntity.id}
-                    data-type="entity"
-                    onClick={() => openModal(relEntity.id, 'entity')}
-                  >
-                    {(() => {
-                      const formatted = formatDisplayText(relEntity.name)
-                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                    })()}
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Relationships */}
-          {relatedItems.relationships.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Relationships</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.relationships.map((rel: Relationship) => (
-                  <span
-                    key={rel.id}
-                    className="relationship-pill modal-pill"
-                    data-id={rel.id}
-                    data-type="relationship"
-                    onClick={() => openModal(rel.id, 'relationship')}
-                  >
-                    {(() => {
-                      const formatted = formatDisplayText(rel.relationship_type)
-                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                    })()}
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-        </div>
-      )
-    }
-
-    if (modalData.type === 'relationship') {
-      const relationship = content as Relationship
-      const relatedItems = getRelatedItemsForRelationship(relationship.id)
-
-      return (
-        <div className="modal-content">
-          <div className="modal-type-badge relationship-badge">
-            {formatDisplayText(relationship.relationship_type)}
-          </div>
-          <h2 className="modal-title">{formatDisplayText(relationship.entity1_name)} → {formatDisplayText(relationship.entity2_name)}</h2>
-          
-          <div className="modal-section">
-            <h3 className="modal-section-title">Description</h3>
-            <div className="modal-text-content">
-              {relationship.description}
-            </div>
-          </div>
-
-          {/* Related Episodes */}
-          {relatedItems.episodes.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Episodes</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.episodes.map((episode: Episode) => (
-                  <span
-                    key={episode.episode_id}
-                    className="episode-pill modal-pill"
-                    data-id={episode.episode_id}
-                    data-type="episode"
-                    onClick={() => openModal(episode.episode_id, 'episode')}
-                  >
-                    {episode.episode_number 
-                      ? `#${episode.episode_number}` 
-                      : episode.episode_title.length > 15 
-                        ? `${episode.episode_title.substring(0, 15)}...`
-                        : episode.episode_title
-                    }
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Related Entities */}
-          {relatedItems.entities.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Entities</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.entities.map((entity: Entity) => (
-                  <span
-                    key={entity.id}
-                    className="entity-pill modal-pill"
-                    data-id={entity.id}
-                    data-type="entity"
-                    onClick={() => openModal(entity.id, 'entity')}
-                  >
-                    {(() => {
-                      const formatted = formatDisplayText(entity.name)
-                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                    })()}
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Other Relationships */}
-          {relatedItems.relationships.length > 0 && (
-            <div className="modal-section">
-              <h3 className="modal-section-title">Related Relationships</h3>
-              <div className="modal-pills-grid">
-                {relatedItems.relationships.map((rel: Relationship) => (
-                  <span
-                    key={rel.id}
-                    className="relationship-pill modal-pill"
-                    data-id={rel.id}
-                    data-type="relationship"
-                    onClick={() => openModal(rel.id, 'relationship')}
-                  >
-                    {(() => {
-                      const formatted = formatDisplayText(rel.relationship_type)
-                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                    })()}
-                  </span>
-                ))}
-              </div>
-            </div>
-          )}
-        </div>
-      )
-    }
-
-    return null
+            )}
+            {snippet.parts.map((part, partIndex) => part.highlight
+              ? <mark key={partIndex}>{part.text}</mark>
+              : <span key={partIndex}>{part.text}</span>
+            )}
+          </p>
+        ))}
+      </div>
+    )
   }
 
   return (
     <div className="container">
       <header className="header">
         <h1 className="text-white">Founders Search</h1>
+        <a href="/graph" className="header-link">Explore the graph</a>
+        <a href="/themes" className="header-link">Browse themes</a>
       </header>
       
       <div className="search-section">
@@ -787,86 +428,108 @@ export default function Home() {
             ref={searchInputRef}
             type="text"
             className="search-input"
-            placeholder="Search episodes, founders, companies..."
+            placeholder={searchTab === 'quotes' ? 'Search quotes by their words, speaker or book...' : 'Search episodes, founders, companies...'}
             onChange={handleInputChange}
             value={searchQuery}
           />
         </div>
+        <div className="search-tabs" role="tablist">
+          {SEARCH_TABS.map(({ tab, label }) => (
+            <button
+              key={tab}
+              role="tab"
+              aria-selected={searchTab === tab}
+              className={`search-tab${searchTab === tab ? ' active' : ''}`}
+              onClick={() => changeSearchTab(tab)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {searchTab === 'all' && searchError && (
+          <div className="search-error" role="alert">
+            <div>{searchError}</div>
+            <div className="search-error-hint">
+              Examples: type:person, episode:389, rel:founded, after:2023-01-01, &quot;exact phrase&quot;, nike OR adidas, shoes -nike
+            </div>
+          </div>
+        )}
       </div>
 
-      {isSearching ? (
-        <div className="episodes-section">
-          {searchResults.length > 0 ? (
-            <>
-              <div className="search-results-header">
-                Found {searchResults.length} result{searchResults.length !== 1 ? 's' : ''} for "{searchQuery}"
-              </div>
-{searchResults.map((result: SearchResult) => {
-                if (result.type === 'episode') {
-                  // Find the full episode data
-                  const episode = episodesData.episodes.find((ep: Episode) => ep.episode_id === result.id)
-                  if (!episode) return null
+      {searchTab === 'quotes' ? (
+        <QuoteSearch query={searchQuery} onOpen={openModal} />
+      ) : isSearching ? (
+        <div className="search-layout">
+          <FacetSidebar facets={facets} selection={facetSelection} onChange={updateFacetSelection} />
+          <div className="episodes-section">
+            {searchResults.length > 0 ? (
+              <>
+                <div className="search-results-header">
+                  Found {totalResults} result{totalResults !== 1 ? 's' : ''}{searchQuery.trim() && ` for "${searchQuery}"`}
+                </div>
+  {searchResults.map((result: SearchResult) => {
+                  if (result.type === 'episode') {
+                    const relatedItems = result.related
                   
-                  return (
-                    <div key={result.id} className="episode-card">
-                      <div className="episode-header">
-                        <div 
-                          className="title-with-maximize"
-                          data-id={episode.episode_id}
-                          data-type="episode"
-                          onClick={() => openModal(episode.episode_id, 'episode')}
-                        >
-                          <h3 className="episode-title">{episode.episode_title}</h3>
-                          <span className="maximize-icon">
-                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                              <path d="M8 3H5C3.89543 3 3 3.89543 3 5V8M16 3H19C20.1046 3 21 3.89543 21 5V8M3 16V19C3 20.1046 3.89543 21 5 21H8M21 16V19C21 20.1046 20.1046 21 19 21H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                            </svg>
-                          </span>
+                    return (
+                      <div key={result.id} className="episode-card">
+                        <div className="episode-header">
+                          <div 
+                            className="title-with-maximize"
+                            data-id={result.id}
+                            data-type="episode"
+                            onClick={() => openModal(result.id, 'episode')}
+                          >
+                            <h3 className="episode-title">{result.title}</h3>
+                            <span className="maximize-icon">
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M8 3H5C3.89543 3 3 3.89543 3 5V8M16 3H19C20.1046 3 21 3.89543 21 5V8M3 16V19C3 20.1046 3.89543 21 5 21H8M21 16V19C21 20.1046 20.1046 21 19 21H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                              </svg>
+                            </span>
+                          </div>
+                          <a 
+                            href={result.url} 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="play-button"
+                          >
+                            Play
+                          </a>
                         </div>
-                        <a 
-                          href={episode.url} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="play-button"
-                        >
-                          Play
-                        </a>
-                      </div>
                       
-                      <p className="episode-description">
-                        {extractDescription(episode)}
-                      </p>
+                        <p className="episode-description">
+                          {result.description}
+                        </p>
                       
-                      <div className="pills-section">
-                        {episode.entities && episode.entities.length > 0 && (
-                          <div>
-                            <div className="pills-label">Entities</div>
-                            <div className="pills-row">
-                              {episode.entities.slice(0, 5).map((entity: Entity) => (
-                                <span 
-                                  key={entity.id} 
-                                  className="entity-pill"
-                                  data-id={entity.id}
-                                  data-type="entity"
-                                  onClick={() => openModal(entity.id, 'entity')}
-                                >
-                                  {(() => {
-                                    const formatted = formatDisplayText(entity.name)
-                                    return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                                  })()}
-                                </span>
-                              ))}
+                        {renderSnippets(result)}
+                      
+                        <div className="pills-section">
+                          {relatedItems.entities.length > 0 && (
+                            <div>
+                              <div className="pills-label">Entities</div>
+                              <div className="pills-row">
+                                {relatedItems.entities.map((entity: Entity) => (
+                                  <span 
+                                    key={entity.id} 
+                                    className="entity-pill"
+                                    data-id={entity.id}
+                                    data-type="entity"
+                                    onClick={() => openModal(entity.id, 'entity')}
+                                  >
+                                    {(() => {
+                                      const formatted = formatDisplayText(entity.name)
+                                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
+                                    })()}
+                                  </span>
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
                         
-                        <div>
-                          <div className="pills-label">Episodes</div>
-                          <div className="pills-row">
-                            {episodesData.episodes
-                              .filter((otherEpisode: Episode) => otherEpisode.episode_id !== episode.episode_id)
-                              .slice(0, 4)
-                              .map((relatedEpisode: Episode) => (
+                          <div>
+                            <div className="pills-label">Episodes</div>
+                            <div className="pills-row">
+                              {relatedItems.episodes.map((relatedEpisode: EpisodeSummary) => (
                                 <span 
                                   key={relatedEpisode.episode_id} 
                                   className="episode-pill"
@@ -880,243 +543,253 @@ export default function Home() {
                                   }
                                 </span>
                               ))}
+                            </div>
                           </div>
                         </div>
                       </div>
-                    </div>
-                  )
-                }
+                    )
+                  }
                 
-                if (result.type === 'entity') {
-                  const relatedItems = getRelatedItemsForEntity(result.id)
-                  const entity = episodesData.all_entities?.find((e: Entity) => e.id === result.id)
-                  const entityType = entity?.type || 'entity'
+                  if (result.type === 'entity') {
+                    const relatedItems = result.related
+                    const entityType = result.entity_type || 'entity'
                   
-                  return (
-                    <div key={result.id} className="entity-card">
-                      <div className="result-type-badge">
-                        {entityType.charAt(0).toUpperCase() + entityType.slice(1).toLowerCase()}
-                      </div>
+                    return (
+                      <div key={result.id} className="entity-card">
+                        <div className="result-type-badge">
+                          {entityType.charAt(0).toUpperCase() + entityType.slice(1).toLowerCase()}
+                        </div>
                       
-                      <div 
-                        className="title-with-maximize"
-                        data-id={result.id}
-                        data-type="entity"
-                        onClick={() => openModal(result.id, 'entity')}
-                      >
-                        <h3 className="search-result-title">{result.title}</h3>
-                        <span className="maximize-icon">
-                          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                            <path d="M8 3H5C3.89543 3 3 3.89543 3 5V8M16 3H19C20.1046 3 21 3.89543 21 5V8M3 16V19C3 20.1046 3.89543 21 5 21H8M21 16V19C21 20.1046 20.1046 21 19 21H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                          </svg>
-                        </span>
-                      </div>
+                        <div 
+                          className="title-with-maximize"
+                          data-id={result.id}
+                          data-type="entity"
+                          onClick={() => openModal(result.id, 'entity')}
+                        >
+                          <h3 className="search-result-title">{result.title}</h3>
+                          <span className="maximize-icon">
+                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                              <path d="M8 3H5C3.89543 3 3 3.89543 3 5V8M16 3H19C20.1046 3 21 3.89543 21 5V8M3 16V19C3 20.1046 3.89543 21 5 21H8M21 16V19C21 20.1046 20.1046 21 19 21H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                            </svg>
+                          </span>
+                        </div>
                       
-                      <p className="search-result-description">
-                        {result.description}
-                      </p>
+                        <p className="search-result-description">
+                          {result.description}
+                        </p>
                       
-                      <div className="pills-section">
-                        {relatedItems.episodes.length > 0 && (
-                          <div>
-                            <div className="pills-label">Episodes</div>
-                            <div className="pills-row">
-                              {relatedItems.episodes.map((episode: Episode) => (
-                                <span 
-                                  key={episode.episode_id} 
-                                  className="episode-pill"
-                                  data-id={episode.episode_id}
-                                  data-type="episode"
-                                  onClick={() => openModal(episode.episode_id, 'episode')}
-                                >
-                                  {episode.episode_number 
-                                    ? `#${episode.episode_number}` 
-                                    : episode.episode_title.length > 15 
-                                      ? `${episode.episode_title.substring(0, 15)}...`
-                                      : episode.episode_title
-                                  }
-                                </span>
-                              ))}
+                        <div className="pills-section">
+                          {relatedItems.episodes.length > 0 && (
+                            <div>
+                              <div className="pills-label">Episodes</div>
+                              <div className="pills-row">
+                                {relatedItems.episodes.map((episode: EpisodeSummary) => (
+                                  <span 
+                                    key={episode.episode_id} 
+                                    className="episode-pill"
+                                    data-id={episode.episode_id}
+                                    data-type="episode"
+                                    onClick={() => openModal(episode.episode_id, 'episode')}
+                                  >
+                                    {episode.episode_number 
+                                      ? `#${episode.episode_number}` 
+                                      : episode.episode_title.length > 15 
+                                        ? `${episode.episode_title.substring(0, 15)}...`
+                                        : episode.episode_title
+                                    }
+                                  </span>
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
                         
-                        {relatedItems.entities.length > 0 && (
-                          <div>
-                            <div className="pills-label">Related Entities</div>
-                            <div className="pills-row">
-                              {relatedItems.entities.map((entity: Entity) => (
-                                <span 
-                                  key={entity.id} 
-                                  className="entity-pill"
-                                  data-id={entity.id}
-                                  data-type="entity"
-                                  onClick={() => openModal(entity.id, 'entity')}
-                                >
-                                  {(() => {
-                                    const formatted = formatDisplayText(entity.name)
-                                    return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                                  })()}
-                                </span>
-                              ))}
+                          {relatedItems.entities.length > 0 && (
+                            <div>
+                              <div className="pills-label">Related Entities</div>
+                              <div className="pills-row">
+                                {relatedItems.entities.map((entity: Entity) => (
+                                  <span 
+                                    key={entity.id} 
+                                    className="entity-pill"
+                                    data-id={entity.id}
+                                    data-type="entity"
+                                    onClick={() => openModal(entity.id, 'entity')}
+                                  >
+                                    {(() => {
+                                      const formatted = formatDisplayText(entity.name)
+                                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
+                                    })()}
+                                  </span>
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
                         
-                        {relatedItems.relationships.length > 0 && (
-                          <div>
-                            <div className="pills-label">Relationships</div>
-                            <div className="pills-row">
-                              {relatedItems.relationships.map((rel: Relationship) => (
-                                <span 
-                                  key={rel.id} 
-                                  className="relationship-pill"
-                                  data-id={rel.id}
-                                  data-type="relationship"
-                                  onClick={() => openModal(rel.id, 'relationship')}
-                                >
-                                  {(() => {
-                                    const formatted = formatDisplayText(rel.relationship_type)
-                                    return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                                  })()}
-                                </span>
-                              ))}
+                          {relatedItems.relationships.length > 0 && (
+                            <div>
+                              <div className="pills-label">Relationships</div>
+                              <div className="pills-row">
+                                {relatedItems.relationships.map((rel: Relationship) => (
+                                  <span 
+                                    key={rel.id} 
+                                    className="relationship-pill"
+                                    data-id={rel.id}
+                                    data-type="relationship"
+                                    onClick={() => openModal(rel.id, 'relationship')}
+                                  >
+                                    {(() => {
+                                      const formatted = formatDisplayText(rel.relationship_type)
+                                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
+                                    })()}
+                                  </span>
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  )
-                }
+                    )
+                  }
                 
-                if (result.type === 'relationship') {
-                  const relatedItems = getRelatedItemsForRelationship(result.id)
-                  const relationship = relationshipsData.relationships.find((rel: Relationship) => rel.id === result.id)
-                  const relationshipType = relationship?.relationship_type || 'relationship'
+                  if (result.type === 'relationship') {
+                    const relatedItems = result.related
+                    const relationshipType = result.relationship_type || 'relationship'
                   
-                  return (
-                    <div key={result.id} className="relationship-card">
-                      <div className="result-type-badge">
-                        {relationshipType.split('_').map((word: string) => 
-                          word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-                        ).join(' ')}
-                      </div>
+                    return (
+                      <div key={result.id} className="relationship-card">
+                        <div className="result-type-badge">
+                          {relationshipType.split('_').map((word: string) => 
+                            word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+                          ).join(' ')}
+                        </div>
                       
-                      <div 
-                        className="title-with-maximize"
-                        data-id={result.id}
-                        data-type="relationship"
-                        onClick={() => openModal(result.id, 'relationship')}
-                      >
-                        <h3 className="search-result-title">{result.title}</h3>
-                        <span className="maximize-icon">
-                          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                            <path d="M8 3H5C3.89543 3 3 3.89543 3 5V8M16 3H19C20.1046 3 21 3.89543 21 5V8M3 16V19C3 20.1046 3.89543 21 5 21H8M21 16V19C21 20.1046 20.1046 21 19 21H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                          </svg>
-                        </span>
-                      </div>
+                        <div 
+                          className="title-with-maximize"
+                          data-id={result.id}
+                          data-type="relationship"
+                          onClick={() => openModal(result.id, 'relationship')}
+                        >
+                          <h3 className="search-result-title">{result.title}</h3>
+                          <span className="maximize-icon">
+                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                              <path d="M8 3H5C3.89543 3 3 3.89543 3 5V8M16 3H19C20.1046 3 21 3.89543 21 5V8M3 16V19C3 20.1046 3.89543 21 5 21H8M21 16V19C21 20.1046 20.1046 21 19 21H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                            </svg>
+                          </span>
+                        </div>
                       
-                      <p className="search-result-description">
-                        {result.description}
-                      </p>
+                        <p className="search-result-description">
+                          {result.description}
+                        </p>
                       
-                      <div className="pills-section">
-                        {relatedItems.episodes.length > 0 && (
-                          <div>
-                            <div className="pills-label">Episodes</div>
-                            <div className="pills-row">
-                              {relatedItems.episodes.map((episode: Episode) => (
-                                <span 
-                                  key={episode.episode_id} 
-                                  className="episode-pill"
-                                  data-id={episode.episode_id}
-                                  data-type="episode"
-                                  onClick={() => openModal(episode.episode_id, 'episode')}
-                                >
-                                  {episode.episode_number 
-                                    ? `#${episode.episode_number}` 
-                                    : episode.episode_title.length > 15 
-                                      ? `${episode.episode_title.substring(0, 15)}...`
-                                      : episode.episode_title
-                                  }
-                                </span>
-                              ))}
+                        <div className="pills-section">
+                          {relatedItems.episodes.length > 0 && (
+                            <div>
+                              <div className="pills-label">Episodes</div>
+                              <div className="pills-row">
+                                {relatedItems.episodes.map((episode: EpisodeSummary) => (
+                                  <span 
+                                    key={episode.episode_id} 
+                                    className="episode-pill"
+                                    data-id={episode.episode_id}
+                                    data-type="episode"
+                                    onClick={() => openModal(episode.episode_id, 'episode')}
+                                  >
+                                    {episode.episode_number 
+                                      ? `#${episode.episode_number}` 
+                                      : episode.episode_title.length > 15 
+                                        ? `${episode.episode_title.substring(0, 15)}...`
+                                        : episode.episode_title
+                                    }
+                                  </span>
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
                         
-                        {relatedItems.entities.length > 0 && (
-                          <div>
-                            <div className="pills-label">Entities</div>
-                            <div className="pills-row">
-                              {relatedItems.entities.map((entity: Entity) => (
-                                <span 
-                                  key={entity.id} 
-                                  className="entity-pill"
-                                  data-id={entity.id}
-                                  data-type="entity"
-                                  onClick={() => openModal(entity.id, 'entity')}
-                                >
-                                  {(() => {
-                                    const formatted = formatDisplayText(entity.name)
-                                    return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                                  })()}
-                                </span>
-                              ))}
+                          {relatedItems.entities.length > 0 && (
+                            <div>
+                              <div className="pills-label">Entities</div>
+                              <div className="pills-row">
+                                {relatedItems.entities.map((entity: Entity) => (
+                                  <span 
+                                    key={entity.id} 
+                                    className="entity-pill"
+                                    data-id={entity.id}
+                                    data-type="entity"
+                                    onClick={() => openModal(entity.id, 'entity')}
+                                  >
+                                    {(() => {
+                                      const formatted = formatDisplayText(entity.name)
+                                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
+                                    })()}
+                                  </span>
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
                         
-                        {relatedItems.relationships.length > 0 && (
-                          <div>
-                            <div className="pills-label">Related Relationships</div>
-                            <div className="pills-row">
-                              {relatedItems.relationships.map((rel: Relationship) => (
-                                <span 
-                                  key={rel.id} 
-                                  className="relationship-pill"
-                                  data-id={rel.id}
-                                  data-type="relationship"
-                                  onClick={() => openModal(rel.id, 'relationship')}
-                                >
-                                  {(() => {
-                                    const formatted = formatDisplayText(rel.relationship_type)
-                                    return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
-                                  })()}
-                                </span>
-                              ))}
+                          {relatedItems.relationships.length > 0 && (
+                            <div>
+                              <div className="pills-label">Related Relationships</div>
+                              <div className="pills-row">
+                                {relatedItems.relationships.map((rel: Relationship) => (
+                                  <span 
+                                    key={rel.id} 
+                                    className="relationship-pill"
+                                    data-id={rel.id}
+                                    data-type="relationship"
+                                    onClick={() => openModal(rel.id, 'relationship')}
+                                  >
+                                    {(() => {
+                                      const formatted = formatDisplayText(rel.relationship_type)
+                                      return formatted.length > 15 ? `${formatted.substring(0, 15)}...` : formatted
+                                    })()}
+                                  </span>
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  )
-                }
+                    )
+                  }
                 
-                return null
-              })}
-            </>
-          ) : (
-            <div className="no-results">
-              No results found for "{searchQuery}"
-            </div>
-          )}
+                  return null
+                })}
+                {searchResults.length < totalResults && (
+                  <div className="load-more-section">
+                    <button
+                      className="btn-accent load-more-button"
+                      onClick={loadMoreResults}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore ? 'Loading...' : 'Load more results'}
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : !searchError && (
+              <div className="no-results">
+                No results found{searchQuery.trim() && ` for "${searchQuery}"`}
+              </div>
+            )}
+          </div>
         </div>
       ) : (
         <div className="episodes-section">
-          {randomEpisodes.length > 0 ? randomEpisodes.map((episode: Episode) => {
-            const description = extractDescription(episode)
+          {randomEpisodes.length > 0 ? randomEpisodes.map((episode: SearchResult) => {
+            const description = episode.description
             
             return (
-              <div key={episode.episode_id} className="episode-card">
+              <div key={episode.id} className="episode-card">
                 <div className="episode-header">
                   <div 
                     className="title-with-maximize"
-                    data-id={episode.episode_id}
+                    data-id={episode.id}
                     data-type="episode"
-                    onClick={() => openModal(episode.episode_id, 'episode')}
+                    onClick={() => openModal(episode.id, 'episode')}
                   >
-                    <h3 className="episode-title">{episode.episode_title}</h3>
+                    <h3 className="episode-title">{episode.title}</h3>
                     <span className="maximize-icon">
                       <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                         <path d="M8 3H5C3.89543 3 3 3.89543 3 5V8M16 3H19C20.1046 3 21 3.89543 21 5V8M3 16V19C3 20.1046 3.89543 21 5 21H8M21 16V19C21 20.1046 20.1046 21 19 21H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
@@ -1138,11 +811,11 @@ export default function Home() {
                 </p>
                 
                 <div className="pills-section">
-                  {episode.entities && episode.entities.length > 0 && (
+                  {episode.related.entities.length > 0 && (
                     <div>
                       <div className="pills-label">Entities</div>
                       <div className="pills-row">
-                        {episode.entities.slice(0, 5).map((entity: Entity) => (
+                        {episode.related.entities.map((entity: Entity) => (
                           <span 
                             key={entity.id} 
                             className="entity-pill"
@@ -1160,25 +833,22 @@ export default function Home() {
                   <div>
                     <div className="pills-label">Episodes</div>
                     <div className="pills-row">
-                      {episodesData.episodes
-                        .filter((otherEpisode: Episode) => otherEpisode.episode_id !== episode.episode_id)
-                        .slice(0, 4)
-                        .map((relatedEpisode: Episode) => (
-                          <span 
-                            key={relatedEpisode.episode_id} 
-                            className="episode-pill"
-                            data-id={relatedEpisode.episode_id}
-                            data-type="episode"
-                            onClick={() => openModal(relatedEpisode.episode_id, 'episode')}
-                          >
-                            {relatedEpisode.episode_number 
-                              ? `#${relatedEpisode.episode_number}` 
-                              : relatedEpisode.episode_title.length > 15 
-                                ? `${relatedEpisode.episode_title.substring(0, 15)}...`
-                                : relatedEpisode.episode_title
-                            }
-                          </span>
-                        ))}
+                      {episode.related.episodes.map((relatedEpisode: EpisodeSummary) => (
+                        <span 
+                          key={relatedEpisode.episode_id} 
+                          className="episode-pill"
+                          data-id={relatedEpisode.episode_id}
+                          data-type="episode"
+                          onClick={() => openModal(relatedEpisode.episode_id, 'episode')}
+                        >
+                          {relatedEpisode.episode_number 
+                            ? `#${relatedEpisode.episode_number}` 
+                            : relatedEpisode.episode_title.length > 15 
+                              ? `${relatedEpisode.episode_title.substring(0, 15)}...`
+                              : relatedEpisode.episode_title
+                          }
+                        </span>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -1194,16 +864,7 @@ export default function Home() {
 
       {/* Modal */}
       {modalData.isOpen && (
-        <div className="modal-overlay" onClick={closeModal}>
-          <div className="modal-container" onClick={(e) => e.stopPropagation()}>
-            <button className="modal-close-button" onClick={closeModal}>
-              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-              </svg>
-            </button>
-            {renderModalContent()}
-          </div>
-        </div>
+        <DetailModal target={modalData} onOpen={openModal} onClose={closeModal} />
       )}
     </div>
   )
@@ -0,0 +1,36 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import DetailPageLayout from '../../../components/DetailPageLayout'
+import { RelationshipDetailView } from '../../../components/DetailViews'
+import { getRelationship, getRelationshipDetail } from '../../../lib/data'
+import { formatDisplayText, truncateDescription } from '../../../lib/format'
+import { detailPath } from '../../../lib/site'
+
+type RelationshipPageProps = { params: Promise<{ id: string }> }
+
+export async function generateMetadata({ params }: RelationshipPageProps): Promise<Metadata> {
+  const { id } = await params
+  const relationship = getRelationship(id)
+  if (!relationship) return {}
+
+  return {
+    title: `${relationship.entity1_name} ${formatDisplayText(relationship.relationship_type).toLowerCase()} ${relationship.entity2_name}`,
+    description: truncateDescription(relationship.description),
+    alternates: { canonical: detailPath('relationship', id) }
+  }
+}
+
+export default async function RelationshipPage({ params }: RelationshipPageProps) {
+  const { id } = await params
+  const detail = getRelationshipDetail(id)
+
+  if (!detail) {
+    notFound()
+  }
+
+  return (
+    <DetailPageLayout>
+      <RelationshipDetailView detail={detail} />
+    </DetailPageLayout>
+  )
+}
@@ -0,0 +1,36 @@
+import type { MetadataRoute } from 'next'
+import { getAllEntities, getEpisodes, getThemes } from '../lib/data'
+import { absoluteUrl, detailPath, themePath } from '../lib/site'
+
+export default function sitemap(): MetadataRoute.Sitemap {
+  const episodeDates = new Map(getEpisodes().map(episode => [episode.episode_id, episode.date]))
+
+  const episodes: MetadataRoute.Sitemap = getEpisodes().map(episode => ({
+    url: absoluteUrl(detailPath('episode', episode.episode_id)),
+    lastModified: episode.date || undefined,
+    changeFrequency: 'monthly',
+    priority: 0.8
+  }))
+
+  const entities: MetadataRoute.Sitemap = getAllEntities().map(entity => ({
+    url: absoluteUrl(detailPath('entity', entity.id)),
+    lastModified: episodeDates.get(entity.episode_id) || undefined,
+    changeFrequency: 'monthly',
+    priority: 0.5
+  }))
+
+  const themes: MetadataRoute.Sitemap = getThemes().map(theme => ({
+    url: absoluteUrl(themePath(theme.id)),
+    changeFrequency: 'monthly',
+    priority: 0.6
+  }))
+
+  return [
+    { url: absoluteUrl('/'), changeFrequency: 'weekly', priority: 1 },
+    { url: absoluteUrl('/graph'), changeFrequency: 'weekly', priority: 0.6 },
+    { url: absoluteUrl('/themes'), changeFrequency: 'weekly', priority: 0.6 },
+    ...episodes,
+    ...entities,
+    ...themes
+  ]
+}
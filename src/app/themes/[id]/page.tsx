@@ -0,0 +1,43 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import DetailPageLayout from '../../../components/DetailPageLayout'
+import { ThemeDetailView } from '../../../components/ThemeViews'
+import { getTheme, getThemeDetail, getThemes } from '../../../lib/data'
+import { formatDisplayText } from '../../../lib/format'
+import { themePath } from '../../../lib/site'
+
+type ThemePageProps = { params: Promise<{ id: string }> }
+
+export function generateStaticParams() {
+  return getThemes().map(theme => ({ id: theme.id }))
+}
+
+export async function generateMetadata({ params }: ThemePageProps): Promise<Metadata> {
+  const { id } = await params
+  const theme = getTheme(id)
+  if (!theme) return {}
+
+  const title = `${formatDisplayText(theme.label)} episodes`
+  const description = `${theme.episodes.length} episodes about ${theme.phrases.slice(0, 3).join(', ')}`
+  return {
+    title,
+    description,
+    alternates: { canonical: themePath(id) },
+    openGraph: { type: 'website', title, description, url: themePath(id) }
+  }
+}
+
+export default async function ThemePage({ params }: ThemePageProps) {
+  const { id } = await params
+  const detail = getThemeDetail(id)
+
+  if (!detail) {
+    notFound()
+  }
+
+  return (
+    <DetailPageLayout>
+      <ThemeDetailView detail={detail} />
+    </DetailPageLayout>
+  )
+}
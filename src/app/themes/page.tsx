@@ -0,0 +1,20 @@
+import type { Metadata } from 'next'
+import DetailPageLayout from '../../components/DetailPageLayout'
+import { ThemeIndexView } from '../../components/ThemeViews'
+import { getThemeEntities, getThemes } from '../../lib/data'
+
+export const metadata: Metadata = {
+  title: 'Themes',
+  description: 'Browse episodes by the topics that recur across the catalog',
+  alternates: { canonical: '/themes' }
+}
+
+export default function ThemesPage() {
+  const themes = getThemes().map(theme => ({ theme, entities: getThemeEntities(theme, 5) }))
+
+  return (
+    <DetailPageLayout>
+      <ThemeIndexView themes={themes} />
+    </DetailPageLayout>
+  )
+}
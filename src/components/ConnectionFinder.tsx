@@ -0,0 +1,133 @@
+'use client'
+
+// "How are these two connected?" panel on /graph: picks two entities and lists the
+// shortest chains of relationships and shared episodes between them (/api/paths).
+
+import { useState } from 'react'
+import SearchPicker from './SearchPicker'
+import type { OpenDetail } from './DetailViews'
+import { formatDisplayText } from '../lib/format'
+import { inverseRelationshipType } from '../lib/relationship-ontology'
+import type { ConnectionPath, ConnectionsResponse, GraphNode, PathHop } from '../lib/types'
+
+function NodeButton({ node, onOpen }: { node: GraphNode, onOpen: OpenDetail }) {
+  if (!node.detail_id) return <span className="entity-pill">{node.label}</span>
+  return (
+    <button className="entity-pill modal-pill" onClick={() => onOpen(node.detail_id!, node.detail_type || 'entity')}>
+      {node.label}
+    </button>
+  )
+}
+
+function HopLink({ hop, onOpen }: { hop: PathHop, onOpen: OpenDetail }) {
+  if (hop.kind === 'shared_episode') {
+    return <span className="path-hop-link">shares an episode with</span>
+  }
+
+  // A relationship read against its direction uses the inverse name: "founded by →"
+  const type = hop.relationship_type || ''
+  const inverse = hop.reversed ? inverseRelationshipType(type) : undefined
+  return (
+    <button className="relationship-pill modal-pill path-hop-link" onClick={() => onOpen(hop.relationship_id!, 'relationship')}>
+      {hop.reversed && !inverse ? `← ${formatDisplayText(type)}` : `${formatDisplayText(inverse || type)} →`}
+    </button>
+  )
+}
+
+export default function ConnectionFinder({ onOpen, onShowPath }: {
+  onOpen: OpenDetail
+  onShowPath: (path: ConnectionPath) => void
+}) {
+  const [from, setFrom] = useState<GraphNode | null>(null)
+  const [to, setTo] = useState<GraphNode | null>(null)
+  const [relationshipsOnly, setRelationshipsOnly] = useState(false)
+  const [connections, setConnections] = useState<ConnectionsResponse | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const findConnections = async () => {
+    if (!from || !to) return
+    setIsSearching(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ from: from.id, to: to.id })
+      if (relationshipsOnly) params.set('via', 'relationships')
+      const response = await fetch(`/api/paths?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to find connections')
+        setConnections(null)
+      } else {
+        setConnections(data)
+      }
+    } catch (error) {
+      console.error('Path error:', error)
+      setError('Failed to find connections')
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  return (
+    <section className="connection-finder">
+      <h2 className="connection-finder-title">How are these connected?</h2>
+
+      <div className="connection-finder-inputs">
+        <SearchPicker placeholder="First entity, e.g. Jim Simons" kinds={['entity']} keepSelection onPick={setFrom} />
+        <SearchPicker placeholder="Second entity, e.g. Jeff Bezos" kinds={['entity']} keepSelection onPick={setTo} />
+        <button className="btn-accent" onClick={findConnections} disabled={!from || !to || isSearching}>
+          {isSearching ? 'Searching...' : 'Find connections'}
+        </button>
+      </div>
+
+      <label className="facet-option">
+        <input
+          type="checkbox"
+          checked={relationshipsOnly}
+          onChange={(event) => setRelationshipsOnly(event.target.checked)}
+        />
+        Only follow relationships, not shared episodes
+      </label>
+
+      {error && <div className="search-error" role="alert">{error}</div>}
+
+      {connections && connections.paths.length === 0 && (
+        <p className="graph-hint">
+          No connection between {connections.from.label} and {connections.to.label} was found.
+        </p>
+      )}
+
+      {connections?.paths.map((path, index) => (
+        <div key={index} className="connection-path">
+          <div className="connection-path-header">
+            <span className="facet-title">
+              {path.hops.length} {path.hops.length === 1 ? 'hop' : 'hops'}
+            </span>
+            <button className="facet-clear" onClick={() => onShowPath(path)}>Show in graph</button>
+          </div>
+          <ol className="path-hops">
+            {path.hops.map((hop, hopIndex) => (
+              <li key={hopIndex} className="path-hop">
+                <div className="path-hop-line">
+                  <NodeButton node={hop.from} onOpen={onOpen} />
+                  <HopLink hop={hop} onOpen={onOpen} />
+                  <NodeButton node={hop.to} onOpen={onOpen} />
+                </div>
+                <div className="path-hop-description">{hop.description}</div>
+                {hop.episode && (
+                  <button
+                    className="episode-pill modal-pill"
+                    onClick={() => onOpen(hop.episode!.episode_id, 'episode')}
+                  >
+                    {hop.episode.episode_title}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </section>
+  )
+}
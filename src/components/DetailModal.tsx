@@ -0,0 +1,113 @@
+'use client'
+
+// Modal around the episode, entity and relationship views, used by the Home page
+// and the graph explorer. Detail data is loaded from the /api detail routes.
+
+import { useEffect, useState } from 'react'
+import {
+  EntityDetailView,
+  EpisodeDetailView,
+  RelationshipDetailView,
+  type OpenDetail,
+  type TranscriptPassage
+} from './DetailViews'
+import type { EntityDetail, EpisodeDetail, RelationshipDetail, ResultType } from '../lib/types'
+
+export interface ModalTarget {
+  id: string
+  type: ResultType
+  passage?: TranscriptPassage
+}
+
+type ModalContent =
+  | { type: 'episode'; detail: EpisodeDetail }
+  | { type: 'entity'; detail: EntityDetail }
+  | { type: 'relationship'; detail: RelationshipDetail }
+
+const MODAL_ENDPOINTS: { [type in ResultType]: string } = {
+  episode: '/api/episodes',
+  entity: '/api/entities',
+  relationship: '/api/relationships'
+}
+
+export default function DetailModal({ target, onOpen, onClose }: {
+  target: ModalTarget
+  onOpen: OpenDetail
+  onClose: () => void
+}) {
+  const [modalContent, setModalContent] = useState<ModalContent | null>(null)
+
+  // Prevent background scrolling while the modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden'
+    return () => {
+      document.body.style.overflow = 'unset'
+    }
+  }, [])
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  // Load modal content from the API whenever a different item is opened
+  useEffect(() => {
+    const controller = new AbortController()
+    setModalContent(null)
+
+    fetch(`${MODAL_ENDPOINTS[target.type]}/${encodeURIComponent(target.id)}`, { signal: controller.signal })
+      .then(response => response.ok ? response.json() : null)
+      .then(detail => {
+        if (detail) setModalContent({ type: target.type, detail } as ModalContent)
+      })
+      .catch(error => {
+        if (error.name !== 'AbortError') console.error('Failed to load modal content:', error)
+      })
+
+    return () => controller.abort()
+  }, [target])
+
+  // Bring the highlighted transcript passage into view once the episode text is rendered
+  useEffect(() => {
+    if (modalContent?.type === 'episode' && target.passage) {
+      document.getElementById('transcript-passage')?.scrollIntoView({ block: 'center' })
+    }
+  }, [modalContent, target.passage])
+
+  const renderModalContent = () => {
+    if (!modalContent) {
+      return (
+        <div className="modal-content">
+          <div className="modal-loading">Loading...</div>
+        </div>
+      )
+    }
+
+    switch (modalContent.type) {
+      case 'episode':
+        return <EpisodeDetailView detail={modalContent.detail} passage={target.passage} onOpen={onOpen} />
+      case 'entity':
+        return <EntityDetailView detail={modalContent.detail} onOpen={onOpen} />
+      case 'relationship':
+        return <RelationshipDetailView detail={modalContent.detail} onOpen={onOpen} />
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-container" onClick={(e) => e.stopPropagation()}>
+        <button className="modal-close-button" onClick={onClose}>
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+        </button>
+        {renderModalContent()}
+      </div>
+    </div>
+  )
+}
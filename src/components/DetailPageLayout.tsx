@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react'
+
+// Frame for the server-rendered /episodes, /entities and /relationships pages, /graph and /themes
+export default function DetailPageLayout({ children, jsonLd, wide = false }: { children: ReactNode, jsonLd?: object, wide?: boolean }) {
+  return (
+    <div className="container">
+      {jsonLd && (
+        <script
+          type="application/ld+json"
+          // Escape "<" so text from the data cannot close the script element
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd).replace(/</g, '\\u003c') }}
+        />
+      )}
+      <header className="header">
+        <a href="/" className="detail-page-home">
+          <h1 className="text-white">Founders Search</h1>
+        </a>
+      </header>
+      <main className={wide ? 'detail-page detail-page-wide' : 'detail-page'}>
+        {children}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,453 @@
+'use client'
+
+// Episode, entity and relationship views rendered both inside the Home page modal
+// and on the server-rendered /episodes, /entities and /relationships pages.
+// Pills are real links to those pages; when `onOpen` is given (in the modal) a plain
+// click opens the item in place instead.
+
+import type { MouseEvent, ReactNode } from 'react'
+import AmazonProductsComponent from './AmazonProducts'
+import { formatDisplayText } from '../lib/format'
+import { RELATIONSHIP_CATEGORIES, normalizeRelationshipType, relationshipPhrase } from '../lib/relationship-ontology'
+import { detailPath, graphPath, themePath } from '../lib/site'
+import { episodeUrlAtTime, formatTimestamp } from '../lib/transcript'
+import type {
+  DirectedRelationship,
+  Entity,
+  EntityDetail,
+  EpisodeDetail,
+  EpisodeSummary,
+  EpisodeTheme,
+  QuoteResult,
+  RelatedEpisode,
+  Relationship,
+  RelationshipDetail,
+  RelatedItems,
+  ResultType,
+  SnippetPart,
+  TranscriptMention,
+  TranscriptSegment
+} from '../lib/types'
+
+// Transcript passage to scroll to when an episode is opened from a snippet or mention
+export interface TranscriptPassage {
+  offset: number
+  length: number
+}
+
+export type OpenDetail = (id: string, type: ResultType, passage?: TranscriptPassage) => void
+
+const truncate = (text: string, length: number = 15): string =>
+  text.length > length ? `${text.substring(0, length)}...` : text
+
+const episodeLabel = (episode: EpisodeSummary): string =>
+  episode.episode_number ? `#${episode.episode_number}` : truncate(episode.episode_title)
+
+function DetailPill({ id, type, onOpen, children }: {
+  id: string
+  type: ResultType
+  onOpen?: OpenDetail
+  children: ReactNode
+}) {
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    // Let modified clicks open the page in a new tab
+    if (!onOpen || event.metaKey || event.ctrlKey || event.shiftKey) return
+    event.preventDefault()
+    onOpen(id, type)
+  }
+
+  return (
+    <a
+      href={detailPath(type, id)}
+      className={`${type}-pill modal-pill`}
+      data-id={id}
+      data-type={type}
+      onClick={handleClick}
+    >
+      {children}
+    </a>
+  )
+}
+
+function PillSection<T>({ title, items, render }: { title: string, items: T[], render: (item: T) => ReactNode }) {
+  if (items.length === 0) return null
+
+  return (
+    <div className="modal-section">
+      <h3 className="modal-section-title">{title}</h3>
+      <div className="modal-pills-grid">
+        {items.map(render)}
+      </div>
+    </div>
+  )
+}
+
+function RelatedSections({ related, onOpen, titles }: {
+  related: RelatedItems
+  onOpen?: OpenDetail
+  // Without a relationships title the relationships are left to the caller
+  titles: { episodes: string, entities: string, relationships?: string }
+}) {
+  return (
+    <>
+      <PillSection
+        title={titles.episodes}
+        items={related.episodes}
+        render={(episode: EpisodeSummary) => (
+          <DetailPill key={episode.episode_id} id={episode.episode_id} type="episode" onOpen={onOpen}>
+            {episodeLabel(episode)}
+          </DetailPill>
+        )}
+      />
+      <PillSection
+        title={titles.entities}
+        items={related.entities}
+        render={(entity: Entity) => (
+          <DetailPill key={entity.id} id={entity.id} type="entity" onOpen={onOpen}>
+            {truncate(formatDisplayText(entity.name))}
+          </DetailPill>
+        )}
+      />
+      {titles.relationships && (
+        <PillSection
+          title={titles.relationships}
+          items={related.relationships}
+          render={(rel: Relationship) => (
+            <DetailPill key={rel.id} id={rel.id} type="relationship" onOpen={onOpen}>
+              {truncate(formatDisplayText(rel.relationship_type))}
+            </DetailPill>
+          )}
+        />
+      )}
+    </>
+  )
+}
+
+// "founded Jimmy Choo" among Tamara Mellon's relationships, "founded by Tamara Mellon" among Jimmy Choo's
+function DirectedRelationshipSection({ title, relationships, onOpen }: {
+  title: string
+  relationships: DirectedRelationship[]
+  onOpen?: OpenDetail
+}) {
+  return (
+    <PillSection
+      title={title}
+      items={relationships}
+      render={({ relationship, direction, other_name }: DirectedRelationship) => (
+        <DetailPill key={relationship.id} id={relationship.id} type="relationship" onOpen={onOpen}>
+          {truncate(`${relationshipPhrase(relationship.relationship_type, direction)} ${other_name}`, 40)}
+        </DetailPill>
+      )}
+    />
+  )
+}
+
+// Speaker and source open their entity; one the extraction only named is plain text
+function QuoteAttribution({ id, name, onOpen }: { id?: string, name?: string, onOpen?: OpenDetail }) {
+  if (!name) return null
+  return id
+    ? <DetailPill id={id} type="entity" onOpen={onOpen}>{formatDisplayText(name)}</DetailPill>
+    : <span className="quote-name">{formatDisplayText(name)}</span>
+}
+
+// Quotes with who said them, the book they come from and a jump to the transcript passage.
+// Shared by the entity and episode views and the quote search on the Home page, whose
+// results carry the quote text with the query words highlighted.
+export function QuoteList({ quotes, onOpen, showEpisode = true }: {
+  quotes: (QuoteResult & { parts?: SnippetPart[] })[]
+  onOpen?: OpenDetail
+  showEpisode?: boolean
+}) {
+  return (
+    <ul className="quote-list">
+      {quotes.map(({ quote, episode, passage, parts }) => (
+        <li key={quote.id} className="quote-item">
+          <p className="quote-text">
+            “{parts
+              ? parts.map((part, index) => part.highlight ? <mark key={index}>{part.text}</mark> : <span key={index}>{part.text}</span>)
+              : quote.text}”
+          </p>
+          <div className="quote-meta">
+            {quote.speaker_name && <span>—</span>}
+            <QuoteAttribution id={quote.speaker_id} name={quote.speaker_name} onOpen={onOpen} />
+            {quote.source_name && <span>in</span>}
+            <QuoteAttribution id={quote.source_id} name={quote.source_name} onOpen={onOpen} />
+            {showEpisode && (
+              <DetailPill id={episode.episode_id} type="episode" onOpen={onOpen}>
+                {episodeLabel(episode)}
+              </DetailPill>
+            )}
+            {passage?.timestamp !== undefined && episode.url && (
+              <a
+                href={episodeUrlAtTime(episode.url, passage.timestamp)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="timestamp-link"
+              >
+                {formatTimestamp(passage.timestamp)}
+              </a>
+            )}
+            {passage && (
+              <a
+                href={detailPath('episode', episode.episode_id)}
+                className="mention-link"
+                onClick={(event) => {
+                  if (!onOpen) return
+                  event.preventDefault()
+                  onOpen(episode.episode_id, 'episode', { offset: passage.offset, length: passage.length })
+                }}
+              >
+                Show in transcript
+              </a>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function QuoteSection({ quotes, onOpen, showEpisode }: { quotes: QuoteResult[], onOpen?: OpenDetail, showEpisode?: boolean }) {
+  if (quotes.length === 0) return null
+
+  return (
+    <div className="modal-section">
+      <h3 className="modal-section-title">Quotes</h3>
+      <QuoteList quotes={quotes} onOpen={onOpen} showEpisode={showEpisode} />
+    </div>
+  )
+}
+
+// Wrap the passage a snippet points at so the modal can scroll to it
+function markTranscriptPassage(text: string, passage?: TranscriptPassage): string {
+  if (!passage || passage.offset + passage.length > text.length) return text
+  const end = passage.offset + passage.length
+  return `${text.slice(0, passage.offset)}<mark id="transcript-passage" class="transcript-passage">${text.slice(passage.offset, end)}</mark>${text.slice(end)}`
+}
+
+export function EpisodeDetailView({ detail, passage, onOpen }: {
+  detail: EpisodeDetail
+  passage?: TranscriptPassage
+  onOpen?: OpenDetail
+}) {
+  const { episode, relationships, text, segments, related_episodes: relatedEpisodes, themes, quotes } = detail
+
+  return (
+    <div className="modal-content">
+      <h2 className="modal-title">{episode.episode_title}</h2>
+      <a href={graphPath('episode', episode.episode_id)} className="graph-link">Explore connections</a>
+
+      {/* Relationships at top for episodes, grouped by ontology category */}
+      {RELATIONSHIP_CATEGORIES.map(category => (
+        <PillSection
+          key={category}
+          title={`${formatDisplayText(category)} Relationships`}
+          items={relationships.filter(rel => (rel.category || 'other') === category)}
+          render={(rel: Relationship) => (
+            <DetailPill key={rel.id} id={rel.id} type="relationship" onOpen={onOpen}>
+              {truncate(formatDisplayText(rel.relationship_type))}
+            </DetailPill>
+          )}
+        />
+      ))}
+
+      <PillSection
+        title="Entities"
+        items={episode.entities || []}
+        render={(entity: Entity) => (
+          <DetailPill key={entity.id} id={entity.id} type="entity" onOpen={onOpen}>
+            {truncate(formatDisplayText(entity.name))}
+          </DetailPill>
+        )}
+      />
+
+      {/* Theme pages are not modal content, so these are plain links */}
+      <PillSection
+        title="Themes"
+        items={themes}
+        render={(theme: EpisodeTheme) => (
+          <a key={theme.id} href={themePath(theme.id)} className="theme-pill modal-pill">
+            {formatDisplayText(theme.label)} · {Math.round(theme.weight * 100)}%
+          </a>
+        )}
+      />
+
+      <QuoteSection quotes={quotes} onOpen={onOpen} showEpisode={false} />
+
+      {/* Linked episodes, with the entities and themes they share */}
+      {relatedEpisodes.length > 0 && (
+        <div className="modal-section">
+          <h3 className="modal-section-title">Related Episodes</h3>
+          <ul className="timestamp-list">
+            {relatedEpisodes.map((related: RelatedEpisode) => (
+              <li key={related.episode.episode_id} className="timestamp-item">
+                <DetailPill id={related.episode.episode_id} type="episode" onOpen={onOpen}>
+                  {truncate(formatDisplayText(related.episode.episode_title))}
+                </DetailPill>
+                <span className="related-episode-reason">
+                  {[
+                    related.shared_entities.length > 0 && `Shared: ${related.shared_entities.slice(0, 3).join(', ')}`,
+                    related.common_themes.length > 0 && `Themes: ${related.common_themes.slice(0, 3).join(', ')}`
+                  ].filter(Boolean).join(' · ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Jump-to-time links for timestamped show notes */}
+      {segments.length > 0 && episode.url && (
+        <div className="modal-section">
+          <h3 className="modal-section-title">Timestamps</h3>
+          <ul className="timestamp-list">
+            {segments.map((segment: TranscriptSegment) => (
+              <li key={segment.offset} className="timestamp-item">
+                <a
+                  href={episodeUrlAtTime(episode.url, segment.start_seconds)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="timestamp-link"
+                >
+                  {segment.label}
+                </a>
+                <span className="timestamp-text">{truncate(segment.text, 100)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Episode full text/description */}
+      <div className="modal-section">
+        <h3 className="modal-section-title">Full Episode Content</h3>
+        <div
+          className="modal-text-content"
+          dangerouslySetInnerHTML={{ __html: markTranscriptPassage(text, passage) }}
+        />
+      </div>
+
+      {episode.url && (
+        <div className="modal-section">
+          <a
+            href={episode.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="btn-accent modal-play-button"
+          >
+            Listen to Episode
+          </a>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function EntityDetailView({ detail, onOpen }: { detail: EntityDetail, onOpen?: OpenDetail }) {
+  const { entity, related, mentions, canonical, relationships, quotes } = detail
+  const entityEpisode = related.episodes.find(episode => episode.episode_id === entity.episode_id)
+
+  return (
+    <div className="modal-content">
+      <div className="modal-type-badge entity-badge">
+        {formatDisplayText(entity.type)}
+      </div>
+      <h2 className="modal-title">{formatDisplayText(canonical?.name || entity.name)}</h2>
+      {canonical && canonical.aliases.length > 0 && (
+        <p className="entity-aliases">Also known as {canonical.aliases.join(', ')}</p>
+      )}
+      <a href={graphPath('entity', entity.id)} className="graph-link">Explore connections</a>
+
+      <div className="modal-section">
+        <h3 className="modal-section-title">Description</h3>
+        <div className="modal-text-content">
+          {entity.context}
+        </div>
+      </div>
+
+      {/* Amazon Products (pre-fetched) */}
+      <AmazonProductsComponent entity={entity} />
+
+      {/* Mentions in the episode transcript */}
+      {mentions.length > 0 && (
+        <div className="modal-section">
+          <h3 className="modal-section-title">Mentions</h3>
+          <ul className="timestamp-list">
+            {mentions.map((mention: TranscriptMention) => (
+              <li key={mention.offset} className="timestamp-item">
+                {mention.timestamp !== undefined && entityEpisode?.url && (
+                  <a
+                    href={episodeUrlAtTime(entityEpisode.url, mention.timestamp)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="timestamp-link"
+                  >
+                    {formatTimestamp(mention.timestamp)}
+                  </a>
+                )}
+                <a
+                  href={detailPath('episode', entity.episode_id)}
+                  className="timestamp-text mention-link"
+                  onClick={(event) => {
+                    if (!onOpen) return
+                    event.preventDefault()
+                    onOpen(entity.episode_id, 'episode', { offset: mention.offset, length: mention.length })
+                  }}
+                >
+                  Show in transcript
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <QuoteSection quotes={quotes} onOpen={onOpen} />
+
+      <DirectedRelationshipSection title="Outgoing Relationships" relationships={relationships.outgoing} onOpen={onOpen} />
+      <DirectedRelationshipSection title="Incoming Relationships" relationships={relationships.incoming} onOpen={onOpen} />
+
+      <RelatedSections
+        related={related}
+        onOpen={onOpen}
+        titles={{
+          episodes: related.episodes.length > 1 ? `Appears in ${related.episodes.length} Episodes` : 'Episodes',
+          entities: 'Related Entities'
+        }}
+      />
+    </div>
+  )
+}
+
+export function RelationshipDetailView({ detail, onOpen }: { detail: RelationshipDetail, onOpen?: OpenDetail }) {
+  const { relationship, related } = detail
+
+  return (
+    <div className="modal-content">
+      <div className="modal-type-badge relationship-badge">
+        {formatDisplayText(relationship.relationship_type)}
+      </div>
+      <h2 className="modal-title">{formatDisplayText(relationship.entity1_name)} → {formatDisplayText(relationship.entity2_name)}</h2>
+      {relationship.category && (
+        <p className="entity-aliases">
+          {formatDisplayText(relationship.category)} relationship
+          {relationship.extracted_type && normalizeRelationshipType(relationship.extracted_type) !== relationship.relationship_type &&
+            `, extracted as "${formatDisplayText(relationship.extracted_type)}"`}
+        </p>
+      )}
+
+      <div className="modal-section">
+        <h3 className="modal-section-title">Description</h3>
+        <div className="modal-text-content">
+          {relationship.description}
+        </div>
+      </div>
+
+      <RelatedSections
+        related={related}
+        onOpen={onOpen}
+        titles={{ episodes: 'Episodes', entities: 'Entities', relationships: 'Related Relationships' }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+'use client'
+
+// Force-directed SVG drawing of a graph explorer neighborhood. The layout is a small
+// spring simulation (node repulsion, edge springs, a pull to the centre) stepped in
+// animation frames; positions survive re-renders so expanded nodes grow out of the
+// existing layout instead of reshuffling it.
+
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import { formatDisplayText } from '../lib/format'
+import type { GraphEdge, GraphNode, RelationshipCategory } from '../lib/types'
+
+export const NODE_COLORS: { [type: string]: string } = {
+  episode: '#0098cf',
+  person: '#9af4be',
+  place: '#7bd8e6',
+  media: '#f4d35e',
+  product: '#f7a072',
+  event: '#c3a6ff',
+  object: '#cfcfcd'
+}
+
+// Relationship edges are colored by their ontology category
+export const RELATIONSHIP_COLORS: { [category in RelationshipCategory]: string } = {
+  business: '#7bd8e6',
+  influence: '#c3a6ff',
+  family: '#f7a072',
+  content: '#f4d35e',
+  other: '#6f6f6b'
+}
+
+const UNKNOWN_COLOR = '#6f6f6b'
+
+export const nodeColor = (node: GraphNode): string =>
+  NODE_COLORS[node.kind === 'episode' ? 'episode' : node.entity_type || ''] || UNKNOWN_COLOR
+
+interface Position {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  // Dragged nodes stay where they were dropped
+  fixed: boolean
+}
+
+const REPULSION = 4000
+const SPRING_LENGTH = 130
+const SPRING_STRENGTH = 0.04
+const CENTERING = 0.005
+const DAMPING = 0.8
+const TICKS = 300
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.substring(0, length)}...` : text
+
+// New nodes start next to an already placed neighbor, or on a circle around the centre
+function placeNode(node: GraphNode, edges: GraphEdge[], positions: Map<string, Position>, index: number): Position {
+  const neighbor = edges
+    .filter(edge => edge.source === node.id || edge.target === node.id)
+    .map(edge => positions.get(edge.source === node.id ? edge.target : edge.source))
+    .find(Boolean)
+  const angle = index * 2.4
+  const radius = neighbor ? 40 : 60 + index * 4
+
+  return {
+    x: (neighbor?.x ?? 0) + Math.cos(angle) * radius,
+    y: (neighbor?.y ?? 0) + Math.sin(angle) * radius,
+    vx: 0,
+    vy: 0,
+    fixed: false
+  }
+}
+
+function step(nodes: GraphNode[], edges: GraphEdge[], positions: Map<string, Position>, alpha: number): void {
+  for (let i = 0; i < nodes.length; i++) {
+    const a = positions.get(nodes[i].id)!
+    for (let j = i + 1; j < nodes.length; j++) {
+      const b = positions.get(nodes[j].id)!
+      const dx = b.x - a.x || 0.1
+      const dy = b.y - a.y || 0.1
+      const distanceSquared = Math.max(dx * dx + dy * dy, 100)
+      const distance = Math.sqrt(distanceSquared)
+      const force = REPULSION / distanceSquared
+      const fx = (dx / distance) * force
+      const fy = (dy / distance) * force
+      a.vx -= fx
+      a.vy -= fy
+      b.vx += fx
+      b.vy += fy
+    }
+  }
+
+  for (const edge of edges) {
+    const a = positions.get(edge.source)
+    const b = positions.get(edge.target)
+    if (!a || !b) continue
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1
+    const force = (distance - SPRING_LENGTH) * SPRING_STRENGTH
+    const fx = (dx / distance) * force
+    const fy = (dy / distance) * force
+    a.vx += fx
+    a.vy += fy
+    b.vx -= fx
+    b.vy -= fy
+  }
+
+  for (const node of nodes) {
+    const position = positions.get(node.id)!
+    if (position.fixed) {
+      position.vx = position.vy = 0
+      continue
+    }
+    position.vx = (position.vx - position.x * CENTERING) * DAMPING
+    position.vy = (position.vy - position.y * CENTERING) * DAMPING
+    position.x += position.vx * alpha
+    position.y += position.vy * alpha
+  }
+}
+
+export default function ForceGraph({ nodes, edges, centerId, selectedId, expandedIds, onSelect, onOpen }: {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  centerId?: string
+  selectedId?: string
+  expandedIds: Set<string>
+  onSelect: (node: GraphNode) => void
+  onOpen: (node: GraphNode) => void
+}) {
+  const positionsRef = useRef(new Map<string, Position>())
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ id: string, moved: boolean } | null>(null)
+  const viewBoxRef = useRef('0 0 0 0')
+  const [, setFrame] = useState(0)
+
+  // Run the simulation again whenever nodes or edges change
+  useEffect(() => {
+    const positions = positionsRef.current
+    nodes.forEach((node, index) => {
+      if (!positions.has(node.id)) positions.set(node.id, placeNode(node, edges, positions, index))
+    })
+
+    let tick = 0
+    let animationFrame = 0
+    const run = () => {
+      step(nodes, edges, positions, 1 - tick / TICKS)
+      setFrame(frame => frame + 1)
+      if (++tick < TICKS) animationFrame = requestAnimationFrame(run)
+    }
+    animationFrame = requestAnimationFrame(run)
+
+    return () => cancelAnimationFrame(animationFrame)
+  }, [nodes, edges])
+
+  const positions = positionsRef.current
+  const placed = nodes.filter(node => positions.has(node.id))
+
+  // Fit the view to the layout, except while dragging so the node stays under the pointer
+  if (!dragRef.current) {
+    const xs = placed.map(node => positions.get(node.id)!.x)
+    const ys = placed.map(node => positions.get(node.id)!.y)
+    const padding = 80
+    const minX = Math.min(0, ...xs) - padding
+    const minY = Math.min(0, ...ys) - padding
+    viewBoxRef.current = `${minX} ${minY} ${Math.max(0, ...xs) + padding - minX} ${Math.max(0, ...ys) + padding - minY}`
+  }
+
+  const toGraphPoint = (event: PointerEvent<SVGElement>): { x: number, y: number } | null => {
+    const matrix = svgRef.current?.getScreenCTM()
+    if (!matrix) return null
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse())
+    return { x: point.x, y: point.y }
+  }
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    const point = drag && toGraphPoint(event)
+    if (!drag || !point) return
+    const position = positions.get(drag.id)!
+    drag.moved = drag.moved || Math.abs(point.x - position.x) + Math.abs(point.y - position.y) > 3
+    position.x = point.x
+    position.y = point.y
+    position.fixed = true
+    setFrame(frame => frame + 1)
+  }
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    const node = drag && !drag.moved ? nodes.find(candidate => candidate.id === drag.id) : undefined
+    if (node) onSelect(node)
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      className="graph-canvas"
+      viewBox={viewBoxRef.current}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => { dragRef.current = null }}
+    >
+      <defs>
+        <marker id="graph-arrow" viewBox="0 0 10 10" refX="22" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M0,0 L10,5 L0,10 z" fill="#6f6f6b" />
+        </marker>
+      </defs>
+
+      {edges.map(edge => {
+        const source = positions.get(edge.source)
+        const target = positions.get(edge.target)
+        if (!source || !target) return null
+
+        return (
+          <g key={edge.id} className={`graph-edge graph-edge-${edge.kind}`}>
+            <line
+              x1={source.x}
+              y1={source.y}
+              x2={target.x}
+              y2={target.y}
+              style={edge.kind === 'relationship' ? { stroke: RELATIONSHIP_COLORS[edge.category || 'other'] } : undefined}
+              markerEnd={edge.kind === 'relationship' ? 'url(#graph-arrow)' : undefined}
+            />
+            {edge.kind !== 'mention' && (
+              <text x={(source.x + target.x) / 2} y={(source.y + target.y) / 2} className="graph-edge-label">
+                {formatDisplayText(edge.label)}
+              </text>
+            )}
+          </g>
+        )
+      })}
+
+      {placed.map(node => {
+        const position = positions.get(node.id)!
+        const classes = [
+          'graph-node',
+          node.id === selectedId ? 'graph-node-selected' : '',
+          node.id === centerId ? 'graph-node-center' : '',
+          expandedIds.has(node.id) ? 'graph-node-expanded' : ''
+        ].filter(Boolean).join(' ')
+
+        return (
+          <g
+            key={node.id}
+            className={classes}
+            transform={`translate(${position.x}, ${position.y})`}
+            onPointerDown={(event) => {
+              event.stopPropagation()
+              dragRef.current = { id: node.id, moved: false }
+            }}
+            onDoubleClick={() => onOpen(node)}
+          >
+            <circle r={node.kind === 'episode' ? 14 : 10} fill={nodeColor(node)} />
+            <text y={node.kind === 'episode' ? 28 : 24} className="graph-node-label">
+              {truncate(formatDisplayText(node.label), 28)}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
@@ -0,0 +1,282 @@
+'use client'
+
+// Graph explorer on /graph: starts from one entity or episode, expands a node's
+// neighborhood on click and opens the usual detail modal on double-click.
+
+import { useEffect, useMemo, useState } from 'react'
+import ConnectionFinder from './ConnectionFinder'
+import DetailModal, { type ModalTarget } from './DetailModal'
+import ForceGraph, { NODE_COLORS, RELATIONSHIP_COLORS } from './ForceGraph'
+import SearchPicker from './SearchPicker'
+import { formatDisplayText } from '../lib/format'
+import { graphPath } from '../lib/site'
+import { RELATIONSHIP_CATEGORIES } from '../lib/relationship-ontology'
+import type { ConnectionPath, GraphEdge, GraphNeighborhood, GraphNode, GraphNodeKind, RelationshipCategory } from '../lib/types'
+
+export interface GraphRoot {
+  id: string
+  kind: GraphNodeKind
+}
+
+const CONFIDENCE_STEPS = [0, 0.5, 0.6, 0.7, 0.8, 0.9]
+
+function neighborhoodUrl(id: string, kind: GraphNodeKind): string {
+  return `/api/graph?${kind}=${encodeURIComponent(id)}`
+}
+
+// The root is kept in the URL so an explored graph can be shared
+function writeRootToUrl(root: GraphRoot) {
+  window.history.pushState(null, '', graphPath(root.kind, root.id))
+}
+
+export default function GraphExplorer({ initialRoot }: { initialRoot: GraphRoot | null }) {
+  const [root, setRoot] = useState<GraphRoot | null>(initialRoot)
+  const [nodes, setNodes] = useState<Map<string, GraphNode>>(new Map())
+  const [edges, setEdges] = useState<Map<string, GraphEdge>>(new Map())
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+  const [centerId, setCenterId] = useState<string | undefined>()
+  const [selectedId, setSelectedId] = useState<string | undefined>()
+  const [minConfidence, setMinConfidence] = useState(0)
+  const [hiddenCategories, setHiddenCategories] = useState<Set<RelationshipCategory>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const [modalTarget, setModalTarget] = useState<ModalTarget | null>(null)
+
+  const mergeNeighborhood = (neighborhood: GraphNeighborhood, reset: boolean) => {
+    setNodes(previous => {
+      const next = new Map(reset ? [] : previous)
+      neighborhood.nodes.forEach(node => next.set(node.id, node))
+      return next
+    })
+    setEdges(previous => {
+      const next = new Map(reset ? [] : previous)
+      neighborhood.edges.forEach(edge => next.set(edge.id, edge))
+      return next
+    })
+    setExpandedIds(previous => new Set(reset ? [neighborhood.center] : [...previous, neighborhood.center]))
+  }
+
+  const fetchNeighborhood = async (id: string, kind: GraphNodeKind): Promise<GraphNeighborhood | null> => {
+    const response = await fetch(neighborhoodUrl(id, kind))
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      setError(body?.error || 'Failed to load the graph')
+      return null
+    }
+    setError(null)
+    return response.json()
+  }
+
+  // Load the root neighborhood whenever a new starting point is chosen
+  useEffect(() => {
+    if (!root) return
+    let cancelled = false
+
+    fetchNeighborhood(root.id, root.kind)
+      .then(neighborhood => {
+        if (!neighborhood || cancelled) return
+        mergeNeighborhood(neighborhood, true)
+        setCenterId(neighborhood.center)
+        setSelectedId(neighborhood.center)
+      })
+      .catch(error => console.error('Failed to load graph:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [root])
+
+  // Back/forward walks through previously chosen roots
+  useEffect(() => {
+    const handlePopState = () => {
+      const params = new URLSearchParams(window.location.search)
+      const entity = params.get('entity')
+      const episode = params.get('episode')
+      setRoot(entity ? { id: entity, kind: 'entity' } : episode ? { id: episode, kind: 'episode' } : null)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const chooseRoot = (next: GraphRoot) => {
+    setRoot(next)
+    writeRootToUrl(next)
+  }
+
+  const expandNode = async (node: GraphNode) => {
+    setSelectedId(node.id)
+    if (expandedIds.has(node.id)) return
+    const neighborhood = await fetchNeighborhood(node.id, node.kind)
+    if (neighborhood) mergeNeighborhood(neighborhood, false)
+  }
+
+  const openNode = (node: GraphNode) => {
+    if (node.detail_id) setModalTarget({ id: node.detail_id, type: node.detail_type || node.kind })
+  }
+
+  // Add a connection's entities, relationships and shared episodes to the drawing
+  const showPath = (path: ConnectionPath) => {
+    const pathNodes: GraphNode[] = []
+    const pathEdges: GraphEdge[] = []
+
+    for (const hop of path.hops) {
+      pathNodes.push(hop.from, hop.to)
+      if (hop.kind === 'relationship' && hop.relationship_id) {
+        pathEdges.push({
+          id: hop.relationship_id,
+          source: hop.reversed ? hop.to.id : hop.from.id,
+          target: hop.reversed ? hop.from.id : hop.to.id,
+          kind: 'relationship',
+          label: hop.relationship_type || '',
+          confidence: hop.confidence,
+          relationship_id: hop.relationship_id,
+          category: hop.category
+        })
+      } else if (hop.episode) {
+        const episode = hop.episode
+        pathNodes.push({ id: episode.episode_id, kind: 'episode', label: episode.episode_title, detail_id: episode.episode_id })
+        for (const entity of [hop.from, hop.to]) {
+          pathEdges.push({
+            id: `mention_${entity.id}_${episode.episode_id}`,
+            source: entity.id,
+            target: episode.episode_id,
+            kind: 'mention',
+            label: 'mentioned_in',
+            confidence: hop.confidence
+          })
+        }
+      }
+    }
+
+    mergeNeighborhood({ center: path.hops[0].from.id, nodes: pathNodes, edges: pathEdges }, false)
+    setCenterId(previous => previous || path.hops[0].from.id)
+  }
+
+  const toggleCategory = (category: RelationshipCategory) => {
+    setHiddenCategories(previous => {
+      const next = new Set(previous)
+      if (next.has(category)) next.delete(category)
+      else next.add(category)
+      return next
+    })
+  }
+
+  // Edges below the confidence threshold or of a hidden relationship category are hidden
+  // along with nodes left unconnected; expanded nodes always stay visible
+  const visibleEdges = useMemo(
+    () => Array.from(edges.values()).filter(edge =>
+      edge.confidence >= minConfidence &&
+      !(edge.kind === 'relationship' && hiddenCategories.has(edge.category || 'other'))
+    ),
+    [edges, minConfidence, hiddenCategories]
+  )
+  const visibleNodes = useMemo(() => {
+    const connected = new Set(visibleEdges.flatMap(edge => [edge.source, edge.target]))
+    return Array.from(nodes.values()).filter(node => connected.has(node.id) || expandedIds.has(node.id))
+  }, [nodes, visibleEdges, expandedIds])
+
+  const selectedNode = selectedId ? nodes.get(selectedId) : undefined
+
+  return (
+    <div className="graph-explorer">
+      <div className="graph-toolbar">
+        <SearchPicker
+          placeholder="Start from a founder, company, book or episode..."
+          kinds={['entity', 'episode']}
+          onPick={(node) => chooseRoot({ id: node.id, kind: node.kind })}
+        />
+
+        <label className="graph-confidence">
+          Minimum confidence
+          <select
+            className="facet-input"
+            value={minConfidence}
+            onChange={(event) => setMinConfidence(parseFloat(event.target.value))}
+          >
+            {CONFIDENCE_STEPS.map(step => (
+              <option key={step} value={step}>{step === 0 ? 'Any' : step.toFixed(1)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <div className="search-error" role="alert">{error}</div>}
+
+      {nodes.size > 0 ? (
+        <div className="graph-layout">
+          <ForceGraph
+            nodes={visibleNodes}
+            edges={visibleEdges}
+            centerId={centerId}
+            selectedId={selectedId}
+            expandedIds={expandedIds}
+            onSelect={expandNode}
+            onOpen={openNode}
+          />
+
+          <aside className="graph-sidebar">
+            {selectedNode && (
+              <div className="graph-selection">
+                <div className="facet-title">{formatDisplayText(selectedNode.entity_type || selectedNode.kind)}</div>
+                <h2 className="graph-selection-title">{selectedNode.label}</h2>
+                <div className="graph-selection-actions">
+                  {selectedNode.detail_id && (
+                    <button className="btn-accent" onClick={() => openNode(selectedNode)}>Open details</button>
+                  )}
+                  {selectedNode.id !== centerId && (
+                    <button className="facet-clear" onClick={() => chooseRoot({ id: selectedNode.id, kind: selectedNode.kind })}>
+                      Start from here
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <div className="facet-title">Legend</div>
+              <ul className="graph-legend">
+                {Object.entries(NODE_COLORS).map(([type, color]) => (
+                  <li key={type}>
+                    <span className="graph-legend-swatch" style={{ background: color }} />
+                    {formatDisplayText(type)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <div className="facet-title">Relationships</div>
+              {RELATIONSHIP_CATEGORIES.map(category => (
+                <label key={category} className="facet-option">
+                  <input
+                    type="checkbox"
+                    checked={!hiddenCategories.has(category)}
+                    onChange={() => toggleCategory(category)}
+                  />
+                  <span className="graph-legend-line" style={{ background: RELATIONSHIP_COLORS[category] }} />
+                  <span className="facet-label">{formatDisplayText(category)}</span>
+                </label>
+              ))}
+            </div>
+
+            <p className="graph-hint">
+              Click a node to expand its connections, double-click to open its details, drag to move it.
+            </p>
+          </aside>
+        </div>
+      ) : (
+        <div className="no-results">
+          <p className="no-results-text">Search for an entity or episode to explore its connections.</p>
+        </div>
+      )}
+
+      <ConnectionFinder
+        onOpen={(id, type) => setModalTarget({ id, type })}
+        onShowPath={showPath}
+      />
+
+      {modalTarget && (
+        <DetailModal target={modalTarget} onOpen={(id, type, passage) => setModalTarget({ id, type, passage })} onClose={() => setModalTarget(null)} />
+      )}
+    </div>
+  )
+}
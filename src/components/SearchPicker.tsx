@@ -0,0 +1,78 @@
+'use client'
+
+// Text input that looks graph nodes up by name with /api/graph/nodes and offers the
+// matches in a dropdown, for choosing graph explorer and connection endpoints. Entities
+// only known as relationship ends are graph nodes too, so they can be picked as well.
+
+import { useEffect, useRef, useState } from 'react'
+import { formatDisplayText } from '../lib/format'
+import type { GraphNode, GraphNodeKind, GraphNodeSearchResponse } from '../lib/types'
+
+export default function SearchPicker({ placeholder, kinds, keepSelection = false, onPick }: {
+  placeholder: string
+  kinds: GraphNodeKind[]
+  // Show the picked title in the input instead of clearing it
+  keepSelection?: boolean
+  onPick: (node: GraphNode) => void
+}) {
+  const [query, setQuery] = useState('')
+  // Only text the user typed is searched, not a title filled in after a pick
+  const [isTyping, setIsTyping] = useState(false)
+  const [results, setResults] = useState<GraphNode[]>([])
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null)
+
+  useEffect(() => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current)
+    if (!isTyping || !query.trim()) {
+      setResults([])
+      return
+    }
+
+    timeoutRef.current = setTimeout(() => {
+      const kind = kinds.length === 1 ? `&kind=${kinds[0]}` : ''
+      fetch(`/api/graph/nodes?q=${encodeURIComponent(query)}${kind}`)
+        .then(response => response.ok ? response.json() : null)
+        .then((data: GraphNodeSearchResponse | null) => {
+          setResults((data?.nodes || []).filter(node => kinds.includes(node.kind)))
+        })
+        .catch(error => console.error('Search error:', error))
+    }, 300)
+
+    return () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current)
+    }
+  }, [query, isTyping])
+
+  const pick = (node: GraphNode) => {
+    setQuery(keepSelection ? node.label : '')
+    setIsTyping(false)
+    onPick(node)
+  }
+
+  return (
+    <div className="search-picker">
+      <input
+        type="text"
+        className="search-input"
+        placeholder={placeholder}
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value)
+          setIsTyping(true)
+        }}
+      />
+      {results.length > 0 && (
+        <ul className="search-picker-results">
+          {results.map(node => (
+            <li key={`${node.kind}-${node.id}`}>
+              <button className="search-picker-option" onClick={() => pick(node)}>
+                <span className={`${node.kind}-pill`}>{formatDisplayText(node.entity_type || node.kind)}</span>
+                {node.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+// Theme index on /themes and theme pages on /themes/[id], server-rendered only.
+// Themes span every episode with text; episodes link to their episode page when
+// they have an id and to the podcast site otherwise, entities to their entity page
+// when they have an episode-level record and to the graph otherwise.
+
+import { formatDisplayText, truncateDescription } from '../lib/format'
+import { detailPath, graphPath, themePath } from '../lib/site'
+import type { Theme, ThemeDetail, ThemeEntity, ThemeEpisodeRef, ThemeQuote } from '../lib/types'
+
+function ThemeEpisodePill({ episode }: { episode: ThemeEpisodeRef }) {
+  const label = episode.episode_number ? `#${episode.episode_number}` : truncateDescription(episode.title, 30)
+  if (episode.episode_id) {
+    return <a href={detailPath('episode', episode.episode_id)} className="episode-pill modal-pill" title={episode.title}>{label}</a>
+  }
+  return (
+    <a href={episode.url} target="_blank" rel="noopener noreferrer" className="episode-pill modal-pill" title={episode.title}>
+      {label}
+    </a>
+  )
+}
+
+function ThemeEntityPills({ entities }: { entities: ThemeEntity[] }) {
+  return (
+    <div className="modal-pills-grid">
+      {entities.map(entity => (
+        <a
+          key={entity.id}
+          href={entity.entity_id ? detailPath('entity', entity.entity_id) : graphPath('entity', entity.id)}
+          className="entity-pill modal-pill"
+        >
+          {formatDisplayText(entity.name)}
+        </a>
+      ))}
+    </div>
+  )
+}
+
+function ThemeQuoteBlock({ quote }: { quote: ThemeQuote }) {
+  return (
+    <blockquote className="theme-quote">
+      <p>“{quote.text}”</p>
+      <cite>{quote.episode.title}</cite>
+    </blockquote>
+  )
+}
+
+// Every theme with its strongest episodes, top entities and one quote
+export function ThemeIndexView({ themes }: { themes: { theme: Theme, entities: ThemeEntity[] }[] }) {
+  return (
+    <div className="modal-content">
+      <h2 className="modal-title">Themes</h2>
+      <p className="theme-intro">
+        Topics that recur across the catalog, found in the episode notes. Episodes are listed by how much of their notes the theme accounts for.
+      </p>
+
+      {themes.map(({ theme, entities }) => (
+        <section key={theme.id} className="theme-card">
+          <h3 className="theme-card-title">
+            <a href={themePath(theme.id)}>{formatDisplayText(theme.label)}</a>
+            <span className="theme-card-count">{theme.episodes.length} episodes</span>
+          </h3>
+          {theme.phrases.length > 1 && <p className="theme-phrases">{theme.phrases.join(', ')}</p>}
+          <div className="modal-pills-grid">
+            {theme.episodes.slice(0, 6).map(episode => <ThemeEpisodePill key={episode.url} episode={episode} />)}
+          </div>
+          {entities.length > 0 && <ThemeEntityPills entities={entities.slice(0, 5)} />}
+          {theme.quotes[0] && <ThemeQuoteBlock quote={theme.quotes[0]} />}
+        </section>
+      ))}
+    </div>
+  )
+}
+
+export function ThemeDetailView({ detail }: { detail: ThemeDetail }) {
+  const { theme, entities } = detail
+
+  return (
+    <div className="modal-content">
+      <h2 className="modal-title">{formatDisplayText(theme.label)}</h2>
+      <a href="/themes" className="graph-link">All themes</a>
+      {theme.phrases.length > 1 && <p className="theme-phrases">{theme.phrases.join(', ')}</p>}
+
+      {theme.quotes.length > 0 && (
+        <div className="modal-section">
+          <h3 className="modal-section-title">Representative Quotes</h3>
+          {theme.quotes.map(quote => <ThemeQuoteBlock key={quote.episode.url} quote={quote} />)}
+        </div>
+      )}
+
+      {entities.length > 0 && (
+        <div className="modal-section">
+          <h3 className="modal-section-title">Top Entities</h3>
+          <ThemeEntityPills entities={entities} />
+        </div>
+      )}
+
+      <div className="modal-section">
+        <h3 className="modal-section-title">Episodes ({theme.episodes.length})</h3>
+        <ul className="timestamp-list">
+          {theme.episodes.map(episode => (
+            <li key={episode.url} className="timestamp-item">
+              <ThemeEpisodePill episode={episode} />
+              <span className="related-episode-reason">
+                {episode.title} · {Math.round(episode.weight * 100)}%
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,534 @@
+// Server-side access to the JSON bundles. Only API routes and server components
+// import this module, so the bundles never reach the browser.
+
+import * as fs from 'fs'
+import * as path from 'path'
+import episodesJson from '../data-episodes-claude.json'
+import relationshipsJson from '../data-relationships-claude.json'
+import episodesTextJson from '../data-episodes-text.json'
+import entityAliasesJson from '../data-entity-aliases.json'
+import type {
+  CanonicalEntity,
+  CrossEpisodeRelationship,
+  DirectedRelationship,
+  Entity,
+  EntityDetail,
+  Episode,
+  EpisodeDetail,
+  EpisodeSummary,
+  EpisodeTheme,
+  EpisodeText,
+  EpisodeTextData,
+  GraphData,
+  QuoteResult,
+  RelatedEpisode,
+  RelatedItems,
+  Relationship,
+  RelationshipDetail,
+  RelationshipsData,
+  SearchResult,
+  Theme,
+  ThemeDetail,
+  ThemeEntity,
+  TranscriptMention,
+  TranscriptSegment
+} from './types'
+import { entityTypeFromId, resolveEntities, type EntityAliasMap, type ResolvableEntity } from './entity-resolution'
+import { linkEpisodes, type LinkableEpisode } from './episode-links'
+import { extractDescription } from './format'
+import { extractKeyPhrases } from './key-phrases'
+import { normalizeRelationship } from './relationship-ontology'
+import { buildThemeIndex, THEME_INDEX_VERSION, type ThemeIndex } from './topics'
+import { findEpisodeText, findMentions, findQuote, parseTranscriptSegments, toTranscriptHtml, withTextEpisodes } from './transcript'
+
+export const episodesData = episodesJson as unknown as GraphData
+export const relationshipsData = relationshipsJson as unknown as RelationshipsData
+export const episodesTextData = episodesTextJson as unknown as EpisodeTextData
+export const entityAliases = entityAliasesJson as EntityAliasMap
+
+// Written by `npm run build-theme-index`, which runs before every `next build`
+export const THEME_INDEX_FILE = path.join(process.cwd(), 'src', 'data-theme-index.json')
+
+let cachedEpisodes: Episode[] | null = null
+let cachedCanonicalEntities: CanonicalEntity[] | null = null
+let cachedRelationships: Relationship[] | null = null
+let cachedCrossEpisodeRelationships: CrossEpisodeRelationship[] | null = null
+let cachedThemeIndex: ThemeIndex | null = null
+let cachedQuotes: QuoteResult[] | null = null
+let canonicalByEntityId: Map<string, CanonicalEntity> | null = null
+
+// Every episode of the catalog, including those only in the text bundle
+export function getEpisodes(): Episode[] {
+  if (!cachedEpisodes) cachedEpisodes = withTextEpisodes(episodesData.episodes, getEpisodeTexts())
+  return cachedEpisodes
+}
+
+export function getAllEntities(): Entity[] {
+  return episodesData.all_entities || []
+}
+
+// Bundles written before the relationship ontology existed are normalized on first use
+export function getRelationships(): Relationship[] {
+  if (!cachedRelationships) {
+    cachedRelationships = relationshipsData.relationships.map(normalizeRelationship)
+  }
+  return cachedRelationships
+}
+
+// Both bundles may carry the episode-to-episode links; the relationships bundle wins on conflicts.
+// Links written before they were made from resolved entities are recomputed on first use.
+export function getCrossEpisodeRelationships(): CrossEpisodeRelationship[] {
+  if (!cachedCrossEpisodeRelationships) {
+    const links = new Map<string, CrossEpisodeRelationship>()
+    for (const link of [...(episodesData.cross_episode_relationships || []), ...(relationshipsData.cross_episode_relationships || [])]) {
+      links.set(link.id, link)
+    }
+    const stored = Array.from(links.values())
+    cachedCrossEpisodeRelationships = stored.length > 0 && stored.every(link => link.shared_entity_ids)
+      ? stored
+      : linkEpisodes(getLinkableEpisodes())
+  }
+  return cachedCrossEpisodeRelationships
+}
+
+// Every episode of the catalog with the canonical entities resolved in it, which for most
+// episodes are the ends of their relationships. Key phrases are scored against every
+// transcript, so a phrase's rarity is judged across the catalog.
+function getLinkableEpisodes(): LinkableEpisode[] {
+  const texts = getEpisodeTexts()
+  const keyPhrases = extractKeyPhrases(new Map(texts.map((text, index) => [String(index), text.text || ''])))
+
+  const entitiesByEpisode = new Map<string, LinkableEpisode['entities']>()
+  for (const canonical of getCanonicalEntities()) {
+    for (const episodeId of canonical.episode_ids) {
+      entitiesByEpisode.set(episodeId, [...(entitiesByEpisode.get(episodeId) || []), { id: canonical.id, name: canonical.name }])
+    }
+  }
+
+  return getEpisodes().map(episode => {
+    const episodeText = findEpisodeText(texts, episode)
+    return {
+      episode_id: episode.episode_id,
+      episode_title: episode.episode_title,
+      entities: entitiesByEpisode.get(episode.episode_id) || [],
+      key_phrases: (episodeText && keyPhrases.get(String(texts.indexOf(episodeText)))) || []
+    }
+  })
+}
+
+// Strongest links first
+export function getRelatedEpisodes(episodeId: string): RelatedEpisode[] {
+  const related: RelatedEpisode[] = []
+  for (const link of getCrossEpisodeRelationships()) {
+    if (link.episode1_id !== episodeId && link.episode2_id !== episodeId) continue
+    const other = getEpisode(link.episode1_id === episodeId ? link.episode2_id : link.episode1_id)
+    if (!other) continue
+    related.push({
+      episode: toEpisodeSummary(other),
+      strength: link.relationship_strength,
+      shared_entities: link.shared_entities,
+      common_themes: link.common_themes
+    })
+  }
+  return related.sort((a, b) => b.strength - a.strength)
+}
+
+export function getEpisode(episodeId: string): Episode | undefined {
+  return getEpisodes().find(ep => ep.episode_id === episodeId)
+}
+
+export function getEntity(entityId: string): Entity | undefined {
+  return getAllEntities().find(entity => entity.id === entityId)
+}
+
+export function getRelationship(relationshipId: string): Relationship | undefined {
+  return getRelationships().find(rel => rel.id === relationshipId)
+}
+
+// Relationship ends that are not episode-level entities of the graph bundle, one per id.
+// The relationships bundle covers far more episodes than the graph bundle, so these are
+// what place most entities in most episodes. Their type comes from the id prefix.
+function getRelationshipEndpoints(): ResolvableEntity[] {
+  const entityIds = new Set(getAllEntities().map(entity => entity.id))
+  const endpoints = new Map<string, ResolvableEntity>()
+  for (const relationship of getRelationships()) {
+    const ends: [string | undefined, string][] = [
+      [relationship.entity1_id, relationship.entity1_name],
+      [relationship.entity2_id, relationship.entity2_name]
+    ]
+    for (const [id, name] of ends) {
+      if (!id || !name || entityIds.has(id)) continue
+      const existing = endpoints.get(id)
+      if (existing && (existing.confidence_score ?? 0) >= relationship.confidence_score) continue
+      endpoints.set(id, {
+        id,
+        name,
+        type: entityTypeFromId(id),
+        context: '',
+        episode_id: relationship.episode_id,
+        confidence_score: relationship.confidence_score
+      })
+    }
+  }
+  return Array.from(endpoints.values())
+}
+
+// Bundles written before the resolution stage existed, or whose canonical entities miss
+// ends of the relationships bundle, are resolved on first use with those ends as mentions
+export function getCanonicalEntities(): CanonicalEntity[] {
+  if (!cachedCanonicalEntities) {
+    const endpoints = getRelationshipEndpoints()
+    const stored = episodesData.canonical_entities
+    const storedMentions = new Set((stored || []).flatMap(canonical => canonical.mentions.map(mention => mention.entity_id)))
+    cachedCanonicalEntities = stored && endpoints.every(endpoint => storedMentions.has(endpoint.id))
+      ? stored
+      : resolveEntities([...getAllEntities(), ...endpoints], entityAliases)
+  }
+  return cachedCanonicalEntities
+}
+
+export function getCanonicalEntity(entityId: string): CanonicalEntity | undefined {
+  if (!canonicalByEntityId) {
+    canonicalByEntityId = new Map()
+    for (const canonical of getCanonicalEntities()) {
+      canonical.mentions.forEach(mention => canonicalByEntityId!.set(mention.entity_id, canonical))
+    }
+  }
+  return canonicalByEntityId.get(entityId)
+}
+
+// Picked field by field because the bundle's episodes also carry extraction-only fields
+export function toEpisodeSummary(episode: Episode): EpisodeSummary {
+  return {
+    episode_id: episode.episode_id,
+    episode_title: episode.episode_title,
+    episode_number: episode.episode_number,
+    date: episode.date,
+    url: episode.url
+  }
+}
+
+// Relationships and episodes are gathered across every episode-level record of the
+// entity, so an entity lists each episode it was resolved in
+export function getRelatedItemsForEntity(entityId: string): RelatedItems {
+  const relatedEpisodes: EpisodeSummary[] = []
+  const relatedEntities: Entity[] = []
+  const relatedRelationships: Relationship[] = []
+
+  const canonical = getCanonicalEntity(entityId)
+  const mentionIds = new Set(canonical ? canonical.mentions.map(mention => mention.entity_id) : [entityId])
+
+  // Find relationships involving this entity
+  const entityRelationships = getRelationships().filter(rel =>
+    (!!rel.entity1_id && mentionIds.has(rel.entity1_id)) || (!!rel.entity2_id && mentionIds.has(rel.entity2_id))
+  )
+
+  entityRelationships.forEach(rel => {
+    // Add the relationship itself
+    relatedRelationships.push(rel)
+
+    // Find the other entity in the relationship
+    const otherEntityId = rel.entity1_id && mentionIds.has(rel.entity1_id) ? rel.entity2_id : rel.entity1_id
+    const otherEntity = getAllEntities().find(entity => entity.id === otherEntityId)
+    if (otherEntity && !relatedEntities.find(e => e.id === otherEntity.id)) {
+      relatedEntities.push(otherEntity)
+    }
+  })
+
+  // Find episodes that contain this entity
+  const episodeIds = new Set(canonical ? canonical.episode_ids : [])
+  getEpisodes().forEach(episode => {
+    if (episodeIds.has(episode.episode_id) || episode.entities.some(entity => mentionIds.has(entity.id))) {
+      relatedEpisodes.push(toEpisodeSummary(episode))
+    }
+  })
+
+  return {
+    episodes: relatedEpisodes,
+    entities: relatedEntities.slice(0, 5),
+    relationships: relatedRelationships.slice(0, 5)
+  }
+}
+
+// An entity's relationships from every episode it was resolved in, as seen from the entity.
+// A relationship between two mentions of the same entity is listed on both sides.
+export function getDirectedRelationships(entityId: string): EntityDetail['relationships'] {
+  const canonical = getCanonicalEntity(entityId)
+  const mentionIds = new Set(canonical ? canonical.mentions.map(mention => mention.entity_id) : [entityId])
+  const outgoing: DirectedRelationship[] = []
+  const incoming: DirectedRelationship[] = []
+
+  for (const relationship of getRelationships()) {
+    if (relationship.entity1_id && mentionIds.has(relationship.entity1_id)) {
+      outgoing.push({ relationship, direction: 'outgoing', other_id: relationship.entity2_id, other_name: relationship.entity2_name })
+    }
+    if (relationship.entity2_id && mentionIds.has(relationship.entity2_id)) {
+      incoming.push({ relationship, direction: 'incoming', other_id: relationship.entity1_id, other_name: relationship.entity1_name })
+    }
+  }
+
+  const byConfidence = (a: DirectedRelationship, b: DirectedRelationship) =>
+    b.relationship.confidence_score - a.relationship.confidence_score
+  return { outgoing: outgoing.sort(byConfidence), incoming: incoming.sort(byConfidence) }
+}
+
+export function getRelatedItemsForRelationship(relationshipId: string): RelatedItems {
+  const relationship = getRelationship(relationshipId)
+  if (!relationship) return { episodes: [], entities: [], relationships: [] }
+
+  const relatedEpisodes: EpisodeSummary[] = []
+  const relatedEntities: Entity[] = []
+
+  // Find the entities involved in this relationship
+  const entity1 = getAllEntities().find(entity => entity.id === relationship.entity1_id)
+  const entity2 = getAllEntities().find(entity => entity.id === relationship.entity2_id)
+
+  if (entity1) relatedEntities.push(entity1)
+  if (entity2) relatedEntities.push(entity2)
+
+  // Find episode containing this relationship
+  const episode = getEpisode(relationship.episode_id)
+  if (episode) relatedEpisodes.push(toEpisodeSummary(episode))
+
+  // Find other relationships involving the same entities
+  const relatedRelationships = getRelationships().filter(rel =>
+    rel.id !== relationshipId &&
+    (rel.entity1_id === relationship.entity1_id ||
+     rel.entity1_id === relationship.entity2_id ||
+     rel.entity2_id === relationship.entity1_id ||
+     rel.entity2_id === relationship.entity2_id)
+  )
+
+  return {
+    episodes: relatedEpisodes.slice(0, 5),
+    entities: relatedEntities.slice(0, 5),
+    relationships: relatedRelationships.slice(0, 5)
+  }
+}
+
+// Episode cards show the episode's first entities and its most closely linked episodes,
+// or the first other episodes of the catalog when nothing links to it
+export function getRelatedItemsForEpisode(episodeId: string): RelatedItems {
+  const episode = getEpisode(episodeId)
+  if (!episode) return { episodes: [], entities: [], relationships: [] }
+
+  const linked = getRelatedEpisodes(episodeId).map(related => related.episode)
+  const episodes = linked.length > 0
+    ? linked
+    : getEpisodes().filter(other => other.episode_id !== episodeId).slice(0, 4).map(toEpisodeSummary)
+
+  return {
+    episodes: episodes.slice(0, 4),
+    entities: (episode.entities || []).slice(0, 5),
+    relationships: []
+  }
+}
+
+export function getEpisodeRelationships(episodeId: string): Relationship[] {
+  return getRelationships().filter(rel => rel.episode_id === episodeId)
+}
+
+export function getEpisodeTexts(): EpisodeText[] {
+  return episodesTextData.episodes
+}
+
+export function getEpisodeFullText(episodeId: string): string {
+  return toTranscriptHtml(getEpisodeText(episodeId) || 'Full episode text not available.')
+}
+
+// Raw show notes and transcript, before they are turned into HTML
+export function getEpisodeText(episodeId: string): string | undefined {
+  const episode = getEpisode(episodeId)
+  return (episode && findEpisodeText(episodesTextData.episodes, episode))?.text
+}
+
+// Stored segments are only reused when their offsets refer to the text as served
+export function getEpisodeSegments(episodeId: string): TranscriptSegment[] {
+  const episode = getEpisode(episodeId)
+  const episodeText = episode && findEpisodeText(episodesTextData.episodes, episode)
+  const text = getEpisodeFullText(episodeId)
+
+  if (episodeText?.segments && episodeText.text === text) {
+    return episodeText.segments
+  }
+  return parseTranscriptSegments(text)
+}
+
+export function getEntityMentions(entity: Entity): TranscriptMention[] {
+  return findMentions(getEpisodeFullText(entity.episode_id), entity.name, getEpisodeSegments(entity.episode_id))
+}
+
+// Quotes are located in the transcript as served, which is not always the text they were
+// extracted from: a stored offset is kept when the quote starts there, otherwise the
+// quote is looked up by its words. Quotes of episodes missing from the bundle are left out.
+export function getQuotes(): QuoteResult[] {
+  if (!cachedQuotes) {
+    cachedQuotes = (episodesData.all_quotes || []).flatMap(quote => {
+      const episode = getEpisode(quote.episode_id)
+      if (!episode) return []
+      const passage = findQuote(
+        getEpisodeFullText(quote.episode_id),
+        quote.text,
+        getEpisodeSegments(quote.episode_id),
+        quote.offset ?? undefined
+      )
+      return [{ quote, episode: toEpisodeSummary(episode), passage }]
+    })
+  }
+  return cachedQuotes
+}
+
+// Transcript order; quotes that were not found in the transcript last
+export function getEpisodeQuotes(episodeId: string): QuoteResult[] {
+  return getQuotes()
+    .filter(result => result.quote.episode_id === episodeId)
+    .sort((a, b) => (a.passage?.offset ?? Infinity) - (b.passage?.offset ?? Infinity))
+}
+
+// Quotes are attributed to episode-level records, so every record of the resolved entity counts
+export function getEntityQuotes(entityId: string): QuoteResult[] {
+  const canonical = getCanonicalEntity(entityId)
+  const ids = new Set(canonical ? canonical.mentions.map(mention => mention.entity_id) : [entityId])
+  return getQuotes()
+    .filter(({ quote }) => (quote.speaker_id && ids.has(quote.speaker_id)) || (quote.source_id && ids.has(quote.source_id)))
+    .sort((a, b) => (b.quote.confidence_score ?? 0) - (a.quote.confidence_score ?? 0))
+}
+
+// Everything the episode, entity and relationship views render, shared by the
+// /api detail routes and the server-rendered detail pages
+export function getEpisodeDetail(episodeId: string): EpisodeDetail | undefined {
+  const episode = getEpisode(episodeId)
+  if (!episode) return undefined
+
+  return {
+    episode,
+    relationships: getEpisodeRelationships(episodeId),
+    text: getEpisodeFullText(episodeId),
+    segments: getEpisodeSegments(episodeId),
+    related_episodes: getRelatedEpisodes(episodeId),
+    themes: getEpisodeThemes(episodeId),
+    quotes: getEpisodeQuotes(episodeId)
+  }
+}
+
+export function getEntityDetail(entityId: string): EntityDetail | undefined {
+  const entity = getEntity(entityId)
+  if (!entity) return undefined
+
+  return {
+    entity,
+    related: getRelatedItemsForEntity(entityId),
+    mentions: getEntityMentions(entity),
+    canonical: getCanonicalEntity(entityId),
+    relationships: getDirectedRelationships(entityId),
+    quotes: getEntityQuotes(entityId)
+  }
+}
+
+export function getRelationshipDetail(relationshipId: string): RelationshipDetail | undefined {
+  const relationship = getRelationship(relationshipId)
+  if (!relationship) return undefined
+
+  return { relationship, related: getRelatedItemsForRelationship(relationshipId) }
+}
+
+export function getThemeIndex(): ThemeIndex {
+  if (cachedThemeIndex) return cachedThemeIndex
+
+  if (fs.existsSync(THEME_INDEX_FILE)) {
+    const prebuilt: ThemeIndex = JSON.parse(fs.readFileSync(THEME_INDEX_FILE, 'utf-8'))
+    if (prebuilt.version === THEME_INDEX_VERSION) {
+      cachedThemeIndex = prebuilt
+      return cachedThemeIndex
+    }
+    console.warn(`Theme index version ${prebuilt.version} is stale (expected ${THEME_INDEX_VERSION}), rebuilding in memory`)
+  } else {
+    console.warn('Prebuilt theme index not found, building in memory. Run `npm run build-theme-index`.')
+  }
+
+  cachedThemeIndex = buildThemeIndex(getEpisodeTexts(), getEpisodes())
+  return cachedThemeIndex
+}
+
+// Most episodes first
+export function getThemes(): Theme[] {
+  return getThemeIndex().themes
+}
+
+export function getTheme(themeId: string): Theme | undefined {
+  return getThemes().find(theme => theme.id === themeId)
+}
+
+// Strongest first
+export function getEpisodeThemes(episodeId: string): EpisodeTheme[] {
+  const themes: EpisodeTheme[] = []
+  for (const theme of getThemes()) {
+    const episode = theme.episodes.find(themeEpisode => themeEpisode.episode_id === episodeId)
+    if (episode) themes.push({ id: theme.id, label: theme.label, weight: episode.weight })
+  }
+  return themes.sort((a, b) => b.weight - a.weight)
+}
+
+// Entities are ranked by the theme weight of the episodes they were resolved in, most of
+// them as relationship ends, and less for entities in many episodes (a sponsor). Theme
+// episodes written without an id are matched by episode number or URL.
+export function getThemeEntities(theme: Theme, limit: number = 10): ThemeEntity[] {
+  const episodes = getEpisodes()
+  const weights = new Map<string, number>()
+  for (const themeEpisode of theme.episodes) {
+    const episode = episodes.find(candidate =>
+      candidate.episode_id === themeEpisode.episode_id ||
+      (themeEpisode.episode_number !== undefined && candidate.episode_number === themeEpisode.episode_number) ||
+      candidate.url === themeEpisode.url
+    )
+    if (episode) weights.set(episode.episode_id, themeEpisode.weight)
+  }
+
+  const shown = new Set<string>()
+  return getCanonicalEntities()
+    .map(canonical => ({
+      canonical,
+      weight: canonical.episode_ids.reduce((sum, episodeId) => sum + (weights.get(episodeId) || 0), 0) *
+        Math.log(1 + episodes.length / canonical.episode_ids.length)
+    }))
+    .filter(({ weight }) => weight > 0)
+    .sort((a, b) => b.weight - a.weight || b.canonical.mentions.length - a.canonical.mentions.length)
+    // A book and its company of the same name would read as a duplicate pill
+    .filter(({ canonical }) => {
+      if (shown.has(canonical.name)) return false
+      shown.add(canonical.name)
+      return true
+    })
+    .slice(0, limit)
+    .map(({ canonical }) => ({
+      id: canonical.id,
+      name: canonical.name,
+      type: canonical.type,
+      entity_id: canonical.mentions.find(mention => getEntity(mention.entity_id))?.entity_id
+    }))
+}
+
+export function getThemeDetail(themeId: string): ThemeDetail | undefined {
+  const theme = getTheme(themeId)
+  if (!theme) return undefined
+
+  return { theme, entities: getThemeEntities(theme) }
+}
+
+export function toEpisodeResult(episode: Episode, relevanceScore: number = 0): SearchResult {
+  return {
+    id: episode.episode_id,
+    type: 'episode',
+    title: episode.episode_title,
+    description: extractDescription(episode, getEpisodeText(episode.episode_id)),
+    url: episode.url,
+    episode_id: episode.episode_id,
+    relevanceScore,
+    related: getRelatedItemsForEpisode(episode.episode_id)
+  }
+}
+
+export function getRandomEpisodes(count: number): Episode[] {
+  const shuffled = [...episodesData.episodes].sort(() => 0.5 - Math.random())
+  return shuffled.slice(0, count)
+}
@@ -0,0 +1,168 @@
+// Cross-episode entity resolution. Every episode extraction names the same person,
+// company or book slightly differently ("Dyson Ltd." / "Dyson", "Sears, Roebuck" /
+// "Sears Roebuck", "Jimmy Choo (the cobbler)"), so episode-level entities are grouped
+// into canonical entities that keep a mention pointing back at each original record.
+// Shared by the data layer and scripts/comprehensive-graph-extraction.ts.
+
+import type { CanonicalEntity, EntityMention } from './types'
+
+// Minimal shape needed for resolution, so extraction scripts can pass their own Entity type
+export interface ResolvableEntity {
+  id: string
+  name: string
+  type: string
+  context: string
+  episode_id: string
+  confidence_score?: number
+}
+
+// Alternative names mapped to the name they should resolve to, e.g. { "UPS": "United Parcel Service" }.
+// Both sides are normalized, so keys and values can be written naturally.
+export type EntityAliasMap = { [alias: string]: string }
+
+const CORPORATE_SUFFIXES = ['inc', 'incorporated', 'ltd', 'limited', 'llc', 'corp', 'corporation', 'co', 'company', 'plc']
+
+// Parenthetical qualifiers that only say what kind of thing the entity is
+const TYPE_QUALIFIERS = ['book', 'company', 'person', 'film', 'movie', 'podcast', 'brand', 'product', 'magazine']
+
+interface ParsedName {
+  // Name with any "(qualifier)" removed
+  base: string
+  // "United Parcel Service (UPS)" also gives the alias "UPS"
+  aliases: string[]
+}
+
+function parseName(name: string): ParsedName {
+  const aliases: string[] = []
+  const base = name.replace(/\s*\(([^)]*)\)\s*/g, (_match, inner: string) => {
+    const qualifier = inner.trim()
+    if (/^[A-Z0-9&.]{2,}$/.test(qualifier) && !TYPE_QUALIFIERS.includes(qualifier.toLowerCase())) {
+      aliases.push(qualifier)
+    }
+    return ' '
+  }).replace(/\s+/g, ' ').trim()
+
+  return { base: base || name.trim(), aliases }
+}
+
+// Comparison key for a name: case, accents, punctuation, a leading "the",
+// qualifiers and corporate suffixes are all ignored
+export function normalizeEntityName(name: string): string {
+  const words = parseName(name).base
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+
+  if (words.length > 1 && words[0] === 'the') words.shift()
+  while (words.length > 1 && CORPORATE_SUFFIXES.includes(words[words.length - 1])) {
+    words.pop()
+    // "Sears, Roebuck & Co."
+    if (words.length > 1 && words[words.length - 1] === 'and') words.pop()
+  }
+
+  return words.join(' ')
+}
+
+// Older extractions used "people" where the prompt asks for "person"
+const TYPE_PREFIX_ALIASES: { [prefix: string]: string } = { people: 'person' }
+
+// Entity ids start with the entity type ("place_jimmychoo_ep_389_7")
+export function entityTypeFromId(id: string): string {
+  const prefix = id.split('_')[0].toLowerCase()
+  return TYPE_PREFIX_ALIASES[prefix] || prefix
+}
+
+const slugify = (key: string): string => key.replace(/\s+/g, '_')
+
+export function canonicalEntityId(type: string, normalizedName: string): string {
+  return `${type}_${slugify(normalizedName)}`
+}
+
+function normalizeAliasMap(aliases: EntityAliasMap): Map<string, string> {
+  const normalized = new Map<string, string>()
+  for (const [alias, target] of Object.entries(aliases)) {
+    normalized.set(normalizeEntityName(alias), normalizeEntityName(target))
+  }
+  return normalized
+}
+
+// Most frequent display name; ties go to the longest spelling ("Dyson Ltd." over "Dyson")
+function pickCanonicalName(names: string[]): string {
+  const counts = new Map<string, number>()
+  names.forEach(name => counts.set(name, (counts.get(name) || 0) + 1))
+
+  return Array.from(counts.entries())
+    .sort(([nameA, countA], [nameB, countB]) =>
+      countB - countA || nameB.length - nameA.length || nameA.localeCompare(nameB)
+    )[0][0]
+}
+
+function pickDescription(mentions: EntityMention[]): string {
+  return mentions
+    .filter(mention => mention.context)
+    .sort((a, b) => (b.confidence_score ?? 0) - (a.confidence_score ?? 0) || b.context.length - a.context.length)[0]?.context || ''
+}
+
+// Group episode-level entities of the same type whose names normalize to the same key.
+// Acronyms in parentheses and the alias map link names that share no words.
+export function resolveEntities(entities: ResolvableEntity[], aliases: EntityAliasMap = {}): CanonicalEntity[] {
+  const aliasMap = normalizeAliasMap(aliases)
+  const resolveKey = (name: string): string => {
+    const key = normalizeEntityName(name)
+    return aliasMap.get(key) || key
+  }
+
+  // Acronyms declared anywhere ("United Parcel Service (UPS)") resolve elsewhere too
+  for (const entity of entities) {
+    const { base, aliases: acronyms } = parseName(entity.name)
+    const target = resolveKey(base)
+    acronyms.forEach(acronym => {
+      const key = normalizeEntityName(acronym)
+      if (!aliasMap.has(key)) aliasMap.set(key, target)
+    })
+  }
+
+  const groups = new Map<string, { type: string, key: string, entities: ResolvableEntity[] }>()
+  for (const entity of entities) {
+    const key = resolveKey(entity.name)
+    if (!key) continue
+    const groupKey = `${entity.type}:${key}`
+    const group = groups.get(groupKey) || { type: entity.type, key, entities: [] }
+    group.entities.push(entity)
+    groups.set(groupKey, group)
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const mentions: EntityMention[] = group.entities.map(entity => ({
+      entity_id: entity.id,
+      episode_id: entity.episode_id,
+      name: entity.name,
+      context: entity.context,
+      confidence_score: entity.confidence_score
+    }))
+    // Qualifiers are dropped from the display name but kept as aliases
+    const name = pickCanonicalName(group.entities.map(entity => parseName(entity.name).base))
+    const names = new Set<string>()
+    group.entities.forEach(entity => {
+      names.add(entity.name)
+      parseName(entity.name).aliases.forEach(alias => names.add(alias))
+    })
+    names.delete(name)
+
+    return {
+      id: canonicalEntityId(group.type, group.key),
+      name,
+      type: group.type,
+      aliases: Array.from(names).sort(),
+      description: pickDescription(mentions),
+      episode_ids: Array.from(new Set(mentions.map(mention => mention.episode_id))),
+      mentions
+    }
+  })
+}
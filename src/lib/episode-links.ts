@@ -0,0 +1,153 @@
+// Cross-episode links. Two episodes are linked by the resolved entities and key phrases
+// (see ./key-phrases) they share. Candidates come from an entity → episodes and a
+// phrase → episodes index, so only episodes with something in common are ever compared,
+// and shared items count more the fewer episodes they appear in: a sponsor read in every
+// episode links nothing, a book discussed in two episodes links them strongly.
+// Shared by the data layer and scripts/comprehensive-graph-extraction.ts.
+
+import type { KeyPhrase } from './key-phrases'
+import type { CrossEpisodeRelationship } from './types'
+
+export interface LinkableEpisode {
+  episode_id: string
+  episode_title: string
+  // Resolved (canonical) entities the episode mentions
+  entities: { id: string, name: string }[]
+  key_phrases: KeyPhrase[]
+}
+
+export interface EpisodeLinkOptions {
+  minStrength?: number
+  // Each episode keeps its strongest links; a link stays when either end keeps it
+  maxLinksPerEpisode?: number
+  // Entities in a larger share of the episodes (the host, a sponsor) link nothing
+  maxEntityShare?: number
+}
+
+export const DEFAULT_MIN_LINK_STRENGTH = 0.1
+export const DEFAULT_MAX_LINKS_PER_EPISODE = 10
+export const DEFAULT_MAX_ENTITY_SHARE = 0.2
+
+// Shared entities weigh more than shared phrases in a link's strength
+const ENTITY_WEIGHT = 0.65
+const THEME_WEIGHT = 0.35
+
+const MAX_COMMON_THEMES = 5
+
+interface Candidate {
+  entity_overlap: number
+  theme_overlap: number
+  shared_entities: { id: string, name: string }[]
+  shared_themes: { phrase: string, weight: number }[]
+}
+
+export function linkEpisodes(episodes: LinkableEpisode[], options: EpisodeLinkOptions = {}): CrossEpisodeRelationship[] {
+  const minStrength = options.minStrength ?? DEFAULT_MIN_LINK_STRENGTH
+  const maxLinks = options.maxLinksPerEpisode ?? DEFAULT_MAX_LINKS_PER_EPISODE
+  const maxEntityShare = options.maxEntityShare ?? DEFAULT_MAX_ENTITY_SHARE
+
+  // Entity → episodes (by index) and entity weights, log-scaled by rarity
+  const entityEpisodes = new Map<string, { name: string, episodes: number[] }>()
+  episodes.forEach((episode, index) => {
+    for (const entity of episode.entities) {
+      const entry = entityEpisodes.get(entity.id) || { name: entity.name, episodes: [] }
+      if (!entry.episodes.includes(index)) entry.episodes.push(index)
+      entityEpisodes.set(entity.id, entry)
+    }
+  })
+  const maxEntityEpisodes = Math.max(2, maxEntityShare * episodes.length)
+  const entityWeight = (id: string): number => {
+    const count = entityEpisodes.get(id)!.episodes.length
+    return count > maxEntityEpisodes ? 0 : Math.log(1 + episodes.length / count)
+  }
+
+  // Phrase → episodes with the phrase's score in each
+  const phraseEpisodes = new Map<string, { index: number, score: number }[]>()
+  episodes.forEach((episode, index) => {
+    episode.key_phrases.forEach(({ phrase, score }) => {
+      phraseEpisodes.set(phrase, [...(phraseEpisodes.get(phrase) || []), { index, score }])
+    })
+  })
+
+  // Vector lengths, for cosine similarity
+  const entityNorms = episodes.map(episode =>
+    Math.sqrt(Array.from(new Set(episode.entities.map(entity => entity.id))).reduce((sum, id) => sum + entityWeight(id) ** 2, 0))
+  )
+  const themeNorms = episodes.map(episode => Math.sqrt(episode.key_phrases.reduce((sum, { score }) => sum + score ** 2, 0)))
+
+  const candidates = new Map<string, Candidate>()
+  const candidate = (a: number, b: number): Candidate => {
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`
+    if (!candidates.has(key)) {
+      candidates.set(key, { entity_overlap: 0, theme_overlap: 0, shared_entities: [], shared_themes: [] })
+    }
+    return candidates.get(key)!
+  }
+
+  entityEpisodes.forEach(({ name, episodes: indexes }, id) => {
+    const weight = entityWeight(id)
+    if (weight === 0) return
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const pair = candidate(indexes[i], indexes[j])
+        pair.entity_overlap += weight ** 2
+        pair.shared_entities.push({ id, name })
+      }
+    }
+  })
+
+  phraseEpisodes.forEach((occurrences, phrase) => {
+    for (let i = 0; i < occurrences.length; i++) {
+      for (let j = i + 1; j < occurrences.length; j++) {
+        const weight = occurrences[i].score * occurrences[j].score
+        const pair = candidate(occurrences[i].index, occurrences[j].index)
+        pair.theme_overlap += weight
+        pair.shared_themes.push({ phrase, weight })
+      }
+    }
+  })
+
+  const links: { a: number, b: number, strength: number, pair: Candidate }[] = []
+  candidates.forEach((pair, key) => {
+    const [a, b] = key.split(':').map(Number)
+    const entitySimilarity = pair.entity_overlap > 0 ? pair.entity_overlap / (entityNorms[a] * entityNorms[b]) : 0
+    const themeSimilarity = pair.theme_overlap > 0 ? pair.theme_overlap / (themeNorms[a] * themeNorms[b]) : 0
+    const strength = Math.round((ENTITY_WEIGHT * entitySimilarity + THEME_WEIGHT * themeSimilarity) * 1000) / 1000
+    if (strength >= minStrength) links.push({ a, b, strength, pair })
+  })
+
+  // Keep the strongest links of every episode
+  links.sort((x, y) => y.strength - x.strength)
+  const kept = new Map<number, number>()
+  const keep = (index: number) => {
+    const count = kept.get(index) || 0
+    kept.set(index, count + 1)
+    return count < maxLinks
+  }
+
+  return links
+    .filter(({ a, b }) => {
+      const keptByA = keep(a)
+      const keptByB = keep(b)
+      return keptByA || keptByB
+    })
+    .map(({ a, b, strength, pair }) => {
+      const episode1 = episodes[a]
+      const episode2 = episodes[b]
+      const sharedEntities = pair.shared_entities.sort((x, y) => entityWeight(y.id) - entityWeight(x.id))
+      return {
+        id: `cross_${episode1.episode_id}_${episode2.episode_id}`,
+        episode1_id: episode1.episode_id,
+        episode1_title: episode1.episode_title,
+        episode2_id: episode2.episode_id,
+        episode2_title: episode2.episode_title,
+        shared_entities: sharedEntities.map(entity => entity.name),
+        shared_entity_ids: sharedEntities.map(entity => entity.id),
+        relationship_strength: strength,
+        common_themes: pair.shared_themes
+          .sort((x, y) => y.weight - x.weight)
+          .slice(0, MAX_COMMON_THEMES)
+          .map(theme => theme.phrase)
+      }
+    })
+}
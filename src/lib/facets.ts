@@ -0,0 +1,155 @@
+// Facet filtering for search results. Selections round-trip through URL query
+// parameters, so this module is shared by the /api/search route and the Home page.
+
+import type { SearchDocument } from './search-index'
+import type { FacetSelection, FacetValue, SearchFacets } from './types'
+
+export const TOP_RELATIONSHIP_TYPES = 10
+
+type FacetName = 'entity_types' | 'relationship_types' | 'date' | 'episode'
+
+const FACETS: FacetName[] = ['entity_types', 'relationship_types', 'date', 'episode']
+
+// URL parameter names; list values are comma separated
+const PARAMS = {
+  entity_types: 'type',
+  relationship_types: 'rel',
+  date_from: 'from',
+  date_to: 'to',
+  episode_min: 'ep_min',
+  episode_max: 'ep_max'
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function emptyFacetSelection(): FacetSelection {
+  return { entity_types: [], relationship_types: [] }
+}
+
+export function hasFacetSelection(selection: FacetSelection): boolean {
+  return selection.entity_types.length > 0 ||
+    selection.relationship_types.length > 0 ||
+    selection.date_from !== undefined ||
+    selection.date_to !== undefined ||
+    selection.episode_min !== undefined ||
+    selection.episode_max !== undefined
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : []
+}
+
+function parseDate(value: string | null): string | undefined {
+  return value && DATE_PATTERN.test(value) ? value : undefined
+}
+
+function parseEpisodeNumber(value: string | null): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+// Malformed values are dropped rather than rejected; they usually come from a hand-edited URL
+export function parseFacetSelection(params: URLSearchParams): FacetSelection {
+  return {
+    entity_types: parseList(params.get(PARAMS.entity_types)),
+    relationship_types: parseList(params.get(PARAMS.relationship_types)),
+    date_from: parseDate(params.get(PARAMS.date_from)),
+    date_to: parseDate(params.get(PARAMS.date_to)),
+    episode_min: parseEpisodeNumber(params.get(PARAMS.episode_min)),
+    episode_max: parseEpisodeNumber(params.get(PARAMS.episode_max))
+  }
+}
+
+// Write the selection into params, removing the parameters of facets that are not set
+export function writeFacetSelection(selection: FacetSelection, params: URLSearchParams): URLSearchParams {
+  const values: { [param: string]: string | undefined } = {
+    [PARAMS.entity_types]: selection.entity_types.join(','),
+    [PARAMS.relationship_types]: selection.relationship_types.join(','),
+    [PARAMS.date_from]: selection.date_from,
+    [PARAMS.date_to]: selection.date_to,
+    [PARAMS.episode_min]: selection.episode_min?.toString(),
+    [PARAMS.episode_max]: selection.episode_max?.toString()
+  }
+
+  for (const [param, value] of Object.entries(values)) {
+    if (value) params.set(param, value)
+    else params.delete(param)
+  }
+  return params
+}
+
+function matchesFacet(document: SearchDocument, selection: FacetSelection, facet: FacetName): boolean {
+  const { attributes } = document
+
+  switch (facet) {
+    case 'entity_types':
+      return selection.entity_types.length === 0 ||
+        (!!attributes.entity_type && selection.entity_types.includes(attributes.entity_type))
+    case 'relationship_types':
+      return selection.relationship_types.length === 0 ||
+        attributes.relationship_types.some(type => selection.relationship_types.includes(type))
+    case 'date':
+      if (selection.date_from === undefined && selection.date_to === undefined) return true
+      return !!attributes.date &&
+        (selection.date_from === undefined || attributes.date >= selection.date_from) &&
+        (selection.date_to === undefined || attributes.date <= selection.date_to)
+    case 'episode':
+      if (selection.episode_min === undefined && selection.episode_max === undefined) return true
+      return attributes.episode_number !== undefined &&
+        (selection.episode_min === undefined || attributes.episode_number >= selection.episode_min) &&
+        (selection.episode_max === undefined || attributes.episode_number <= selection.episode_max)
+  }
+}
+
+export function matchesFacets(document: SearchDocument, selection: FacetSelection, except?: FacetName): boolean {
+  return FACETS.every(facet => facet === except || matchesFacet(document, selection, facet))
+}
+
+function countValues(values: string[]): FacetValue[] {
+  const counts = new Map<string, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+// Selected values stay listed when nothing matches them any more, so they can be unchecked
+function withSelected(values: FacetValue[], selected: string[]): FacetValue[] {
+  const missing = selected.filter(value => !values.some(facet => facet.value === value))
+  return [...values, ...missing.map(value => ({ value, count: 0 }))]
+}
+
+export function computeFacets(documents: SearchDocument[], selection: FacetSelection): SearchFacets {
+  const entityTypes = documents
+    .filter(document => document.type === 'entity' && matchesFacets(document, selection, 'entity_types'))
+    .map(document => document.attributes.entity_type)
+    .filter((type): type is string => !!type)
+
+  const relationshipTypes = documents
+    .filter(document => document.type === 'relationship' && matchesFacets(document, selection, 'relationship_types'))
+    .flatMap(document => document.attributes.relationship_types)
+
+  const dates = documents
+    .filter(document => matchesFacets(document, selection, 'date'))
+    .map(document => document.attributes.date)
+    .filter((date): date is string => !!date)
+    .sort()
+
+  const episodeNumbers = documents
+    .filter(document => matchesFacets(document, selection, 'episode'))
+    .map(document => document.attributes.episode_number)
+    .filter((episodeNumber): episodeNumber is number => episodeNumber !== undefined)
+    .sort((a, b) => a - b)
+
+  return {
+    entity_types: withSelected(countValues(entityTypes), selection.entity_types),
+    relationship_types: withSelected(
+      countValues(relationshipTypes).slice(0, TOP_RELATIONSHIP_TYPES),
+      selection.relationship_types
+    ),
+    date_range: dates.length > 0 ? { min: dates[0], max: dates[dates.length - 1] } : null,
+    episode_range: episodeNumbers.length > 0
+      ? { min: episodeNumbers[0], max: episodeNumbers[episodeNumbers.length - 1] }
+      : null
+  }
+}
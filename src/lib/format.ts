@@ -0,0 +1,36 @@
+import type { Episode } from './types'
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export function extractDescription(episode: Episode, text?: string): string {
+  // Get description from the first entity's context, the opening of the show notes or a fallback
+  const firstEntity = episode.entities?.[0]
+  if (firstEntity?.context) {
+    // Take first sentence or first 150 characters
+    const sentences = firstEntity.context.split('. ')
+    return sentences[0].length > 150
+      ? firstEntity.context.substring(0, 150) + '...'
+      : sentences[0] + (sentences.length > 1 ? '.' : '')
+  }
+  if (text) return truncateDescription(text, 150)
+  return 'Explore the entrepreneurial journey and business insights from this episode.'
+}
+
+// Shorten to a meta description, breaking at a word boundary
+export function truncateDescription(text: string, maxLength: number = 160): string {
+  const clean = text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+  if (clean.length <= maxLength) return clean
+  const cut = clean.substring(0, maxLength - 3)
+  return `${cut.substring(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}...`
+}
+
+// Format text for better display (replace _ with space and capitalize words)
+export function formatDisplayText(text: string): string {
+  return text
+    .replace(/_/g, ' ')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
+}
@@ -0,0 +1,335 @@
+// Knowledge graph over canonical entities and episodes, served to the graph explorer
+// by /api/graph. Relationship ends are resolved to canonical entities (see
+// ./entity-resolution), so an entity's edges from every episode meet at one node.
+
+import {
+  getCanonicalEntities,
+  getCanonicalEntity,
+  getCrossEpisodeRelationships,
+  getEntity,
+  getEpisode,
+  getEpisodes,
+  getRelationships
+} from './data'
+import { entityTypeFromId, normalizeEntityName } from './entity-resolution'
+import { tokenize } from './search-index'
+import type { CanonicalEntity, EntityMention, Episode, GraphEdge, GraphNeighborhood, GraphNode, GraphNodeKind, Relationship } from './types'
+
+// Edges returned per neighborhood, highest confidence first
+export const MAX_NEIGHBORHOOD_EDGES = 40
+
+// Nodes returned by a node search
+export const MAX_NODE_RESULTS = 8
+
+// A relationship with both ends resolved to graph node ids
+export interface GraphRelationship {
+  relationship: Relationship
+  source: GraphNode
+  target: GraphNode
+}
+
+interface EntityGraph {
+  relationships: GraphRelationship[]
+  byNode: Map<string, GraphRelationship[]>
+}
+
+interface SearchableNode {
+  node: GraphNode
+  tokens: string[]
+  edges: number
+}
+
+let cachedGraph: EntityGraph | null = null
+let canonicalById: Map<string, CanonicalEntity> | null = null
+let relationshipByEntityId: Map<string, Relationship> | null = null
+let searchableNodes: SearchableNode[] | null = null
+
+// Most confident relationship naming each relationship end
+function getRelationshipByEntityId(): Map<string, Relationship> {
+  if (!relationshipByEntityId) {
+    relationshipByEntityId = new Map()
+    for (const relationship of getRelationships()) {
+      for (const entityId of [relationship.entity1_id, relationship.entity2_id]) {
+        if (!entityId) continue
+        const best = relationshipByEntityId.get(entityId)
+        if (!best || relationship.confidence_score > best.confidence_score) relationshipByEntityId.set(entityId, relationship)
+      }
+    }
+  }
+  return relationshipByEntityId
+}
+
+// Highest-confidence episode-level record, so the entity modal opens on its best description
+function bestMention(mentions: EntityMention[]): string {
+  return mentions.reduce((best, mention) =>
+    (mention.confidence_score ?? 0) > (best.confidence_score ?? 0) ? mention : best
+  ).entity_id
+}
+
+// Entities only known as relationship ends have no entity record to open, so their
+// node opens the most confident relationship that names them
+export function entityNode(canonical: CanonicalEntity): GraphNode {
+  const node: GraphNode = { id: canonical.id, kind: 'entity', label: canonical.name, entity_type: canonical.type }
+  const recorded = canonical.mentions.filter(mention => getEntity(mention.entity_id))
+  if (recorded.length > 0) return { ...node, detail_id: bestMention(recorded) }
+
+  const relationship = canonical.mentions
+    .map(mention => getRelationshipByEntityId().get(mention.entity_id))
+    .reduce<Relationship | undefined>((best, candidate) =>
+      candidate && (!best || candidate.confidence_score > best.confidence_score) ? candidate : best, undefined)
+  return relationship ? { ...node, detail_id: relationship.id, detail_type: 'relationship' } : node
+}
+
+export function episodeNode(episode: Episode): GraphNode {
+  return {
+    id: episode.episode_id,
+    kind: 'episode',
+    label: episode.episode_number ? `#${episode.episode_number} ${episode.episode_title.replace(/^#\d+\s*/, '')}` : episode.episode_title,
+    detail_id: episode.episode_id
+  }
+}
+
+// Accepts a canonical id or the id of any episode-level entity resolved into it
+export function findCanonicalEntity(id: string): CanonicalEntity | undefined {
+  if (!canonicalById) {
+    canonicalById = new Map(getCanonicalEntities().map(canonical => [canonical.id, canonical]))
+  }
+  return canonicalById.get(id) || getCanonicalEntity(id)
+}
+
+function buildEntityGraph(): EntityGraph {
+  // Relationship ends without a usable entity id are matched by name, first within
+  // their episode and then across the catalog. Entity ids start with the entity type
+  // ("place_jimmychoo_ep_389_7"), which tells same-named entities apart.
+  const byEpisodeName = new Map<string, CanonicalEntity>()
+  const byName = new Map<string, CanonicalEntity>()
+  for (const canonical of getCanonicalEntities()) {
+    const key = normalizeEntityName(canonical.name)
+    if (!byName.has(key)) byName.set(key, canonical)
+    canonical.mentions.forEach(mention => {
+      const name = normalizeEntityName(mention.name)
+      byEpisodeName.set(`${mention.episode_id}:${canonical.type}:${name}`, canonical)
+      byEpisodeName.set(`${mention.episode_id}:${name}`, canonical)
+    })
+  }
+
+  // Ends that match no canonical entity open the relationship they were first seen in
+  const unresolved = new Map<string, GraphNode>()
+  const resolveEnd = (entityId: string | undefined, name: string, relationship: Relationship): GraphNode => {
+    const key = normalizeEntityName(name)
+    const type = entityId && entityTypeFromId(entityId)
+    const canonical = (entityId && getCanonicalEntity(entityId)) ||
+      byEpisodeName.get(`${relationship.episode_id}:${type}:${key}`) ||
+      byEpisodeName.get(`${relationship.episode_id}:${key}`) ||
+      byName.get(key)
+    if (canonical) return entityNode(canonical)
+
+    const id = `unresolved_${key.replace(/\s+/g, '_')}`
+    if (!unresolved.has(id)) {
+      unresolved.set(id, {
+        id,
+        kind: 'entity',
+        label: name,
+        entity_type: type || undefined,
+        detail_id: relationship.id,
+        detail_type: 'relationship'
+      })
+    }
+    return unresolved.get(id)!
+  }
+
+  const relationships: GraphRelationship[] = getRelationships().map(relationship => ({
+    relationship,
+    source: resolveEnd(relationship.entity1_id, relationship.entity1_name, relationship),
+    target: resolveEnd(relationship.entity2_id, relationship.entity2_name, relationship)
+  }))
+
+  const byNode = new Map<string, GraphRelationship[]>()
+  const addEdge = (nodeId: string, edge: GraphRelationship) => {
+    const edges = byNode.get(nodeId) || []
+    edges.push(edge)
+    byNode.set(nodeId, edges)
+  }
+  relationships.forEach(edge => {
+    addEdge(edge.source.id, edge)
+    if (edge.target.id !== edge.source.id) addEdge(edge.target.id, edge)
+  })
+
+  return { relationships, byNode }
+}
+
+export function getEntityGraph(): EntityGraph {
+  if (!cachedGraph) cachedGraph = buildEntityGraph()
+  return cachedGraph
+}
+
+function relationshipEdge({ relationship, source, target }: GraphRelationship): GraphEdge {
+  return {
+    id: relationship.id,
+    source: source.id,
+    target: target.id,
+    kind: 'relationship',
+    label: relationship.relationship_type,
+    confidence: relationship.confidence_score,
+    relationship_id: relationship.id,
+    category: relationship.category
+  }
+}
+
+function mentionEdge(canonical: CanonicalEntity, episodeId: string): GraphEdge {
+  const confidences = canonical.mentions
+    .filter(mention => mention.episode_id === episodeId)
+    .map(mention => mention.confidence_score ?? 1)
+
+  return {
+    id: `mention_${canonical.id}_${episodeId}`,
+    source: canonical.id,
+    target: episodeId,
+    kind: 'mention',
+    label: 'mentioned_in',
+    confidence: Math.max(...confidences)
+  }
+}
+
+// Keep the strongest edges and the nodes they touch
+function toNeighborhood(center: GraphNode, nodes: Map<string, GraphNode>, edges: GraphEdge[], minConfidence: number, limit: number): GraphNeighborhood {
+  const kept = edges
+    .filter(edge => edge.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+  const nodeIds = new Set([center.id, ...kept.flatMap(edge => [edge.source, edge.target])])
+
+  return {
+    center: center.id,
+    nodes: Array.from(nodeIds).map(id => nodes.get(id)!),
+    edges: kept
+  }
+}
+
+// Node for an entity id, canonical id or unresolved relationship end, which only exists in the graph
+export function findEntityNode(id: string): GraphNode | undefined {
+  const canonical = findCanonicalEntity(id)
+  if (canonical) return entityNode(canonical)
+  return getEntityGraph().byNode.get(id)?.map(edge => edge.source.id === id ? edge.source : edge.target)[0]
+}
+
+// Every canonical entity, unresolved relationship end and episode, with the words of its
+// names and the number of relationships it takes part in
+function getSearchableNodes(): SearchableNode[] {
+  if (!searchableNodes) {
+    const { relationships, byNode } = getEntityGraph()
+    const nodes: SearchableNode[] = getCanonicalEntities().map(canonical => ({
+      node: entityNode(canonical),
+      tokens: tokenize([canonical.name, ...canonical.aliases].join(' ')),
+      edges: byNode.get(canonical.id)?.length || 0
+    }))
+    byNode.forEach((edges, id) => {
+      if (findCanonicalEntity(id)) return
+      const node = findEntityNode(id)!
+      nodes.push({ node, tokens: tokenize(node.label), edges: edges.length })
+    })
+
+    const edgesByEpisode = new Map<string, number>()
+    relationships.forEach(({ relationship }) =>
+      edgesByEpisode.set(relationship.episode_id, (edgesByEpisode.get(relationship.episode_id) || 0) + 1))
+    getEpisodes().forEach(episode => nodes.push({
+      node: episodeNode(episode),
+      tokens: tokenize(episode.episode_title),
+      edges: edgesByEpisode.get(episode.episode_id) || 0
+    }))
+
+    searchableNodes = nodes
+  }
+  return searchableNodes
+}
+
+// Nodes with a word starting with every query word; exact names first, then the
+// best-connected nodes
+export function searchGraphNodes(
+  query: string,
+  kinds: GraphNodeKind[] = ['entity', 'episode'],
+  limit: number = MAX_NODE_RESULTS
+): GraphNode[] {
+  const terms = tokenize(query)
+  if (terms.length === 0) return []
+  const exact = terms.join(' ')
+
+  return getSearchableNodes()
+    .filter(({ node, tokens }) => kinds.includes(node.kind) && terms.every(term => tokens.some(token => token.startsWith(term))))
+    .map(candidate => ({ ...candidate, exact: tokenize(candidate.node.label).join(' ') === exact }))
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.edges - a.edges || a.node.label.localeCompare(b.node.label))
+    .slice(0, limit)
+    .map(({ node }) => node)
+}
+
+export function getEntityNeighborhood(
+  id: string,
+  minConfidence: number = 0,
+  limit: number = MAX_NEIGHBORHOOD_EDGES
+): GraphNeighborhood | undefined {
+  const center = findEntityNode(id)
+  if (!center) return undefined
+  const canonical = findCanonicalEntity(center.id)
+
+  const nodes = new Map<string, GraphNode>([[center.id, center]])
+  const edges: GraphEdge[] = []
+
+  for (const edge of getEntityGraph().byNode.get(center.id) || []) {
+    nodes.set(edge.source.id, edge.source)
+    nodes.set(edge.target.id, edge.target)
+    edges.push(relationshipEdge(edge))
+  }
+
+  for (const episodeId of canonical?.episode_ids || []) {
+    const episode = getEpisode(episodeId)
+    if (!episode || !canonical) continue
+    nodes.set(episode.episode_id, episodeNode(episode))
+    edges.push(mentionEdge(canonical, episode.episode_id))
+  }
+
+  return toNeighborhood(center, nodes, edges, minConfidence, limit)
+}
+
+export function getEpisodeNeighborhood(
+  episodeId: string,
+  minConfidence: number = 0,
+  limit: number = MAX_NEIGHBORHOOD_EDGES
+): GraphNeighborhood | undefined {
+  const episode = getEpisode(episodeId)
+  if (!episode) return undefined
+
+  const center = episodeNode(episode)
+  const nodes = new Map<string, GraphNode>([[center.id, center]])
+  const edges: GraphEdge[] = []
+
+  for (const canonical of getCanonicalEntities()) {
+    if (!canonical.episode_ids.includes(episodeId)) continue
+    nodes.set(canonical.id, entityNode(canonical))
+    edges.push(mentionEdge(canonical, episodeId))
+  }
+
+  for (const edge of getEntityGraph().relationships) {
+    if (edge.relationship.episode_id !== episodeId) continue
+    nodes.set(edge.source.id, edge.source)
+    nodes.set(edge.target.id, edge.target)
+    edges.push(relationshipEdge(edge))
+  }
+
+  const episodesById = new Map(getEpisodes().map(other => [other.episode_id, other]))
+  for (const link of getCrossEpisodeRelationships()) {
+    if (link.episode1_id !== episodeId && link.episode2_id !== episodeId) continue
+    const other = episodesById.get(link.episode1_id === episodeId ? link.episode2_id : link.episode1_id)
+    if (!other) continue
+    nodes.set(other.episode_id, episodeNode(other))
+    edges.push({
+      id: link.id,
+      source: episodeId,
+      target: other.episode_id,
+      kind: 'cross_episode',
+      label: `${link.shared_entities.length} shared`,
+      confidence: link.relationship_strength
+    })
+  }
+
+  return toNeighborhood(center, nodes, edges, minConfidence, limit)
+}
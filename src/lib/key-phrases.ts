@@ -0,0 +1,131 @@
+// Key phrases of a collection of texts: the words and two-word phrases a text uses much
+// more often than the collection as a whole (TF-IDF). Episode show notes share a lot of
+// boilerplate (sponsor reads, "episode notes"), which the document frequency cut-off drops.
+
+export interface KeyPhrase {
+  phrase: string
+  score: number
+}
+
+export interface KeyPhraseOptions {
+  // Phrases kept per text
+  limit?: number
+  // Phrases found in a larger share of the texts are boilerplate, not topics
+  maxDocumentShare?: number
+}
+
+export const DEFAULT_KEY_PHRASE_LIMIT = 15
+export const DEFAULT_MAX_DOCUMENT_SHARE = 0.25
+
+// Two-word phrases say more than single words ("shareholder letters" over "letters")
+const BIGRAM_BOOST = 1.5
+
+// Besides the usual function words, the filler of spoken and promotional text and
+// contractions with the apostrophe dropped ("didnt"). Shared with ./topics.
+export const STOPWORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'because', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'don', 'down', 'during', 'each', 'even', 'every', 'few', 'first', 'for', 'from', 'get', 'gets',
+  'getting', 'go', 'goes', 'going', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'hers', 'him', 'himself', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself',
+  'just', 'know', 'like', 'll', 'lot', 'made', 'make', 'makes', 'many', 'me', 'more', 'most', 'much',
+  'my', 'never', 'new', 'no', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other',
+  'our', 'out', 'over', 'own', 're', 'really', 's', 'said', 'same', 'say', 'says', 'see', 'she',
+  'should', 'so', 'some', 'still', 'such', 't', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'thing', 'things', 'think', 'this', 'those', 'through', 'time', 'to',
+  'too', 'two', 'up', 'us', 'use', 've', 'very', 'want', 'was', 'way', 'we', 'well', 'were', 'what',
+  'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'year', 'years',
+  'you', 'your',
+  'book', 'books', 'episode', 'episodes', 'founder', 'founders', 'listen', 'notes', 'podcast',
+  'read', 'reading', 'subscribe', 'learned',
+  'asked', 'back', 'better', 'big', 'both', 'called', 'different', 'done', 'else', 'enough', 'ever',
+  'everything', 'excited', 'find', 'fuck', 'fucking', 'give', 'gonna', 'highly', 'important', 'keep', 'knew', 'long',
+  'look', 'lots', 'maybe', 'must', 'myself', 'name', 'need', 'nothing', 'part', 'person', 'right',
+  'seemed', 'shall', 'small', 'specific', 'start', 'take', 'tell', 'thought', 'times', 'tiny',
+  'told', 'toward', 'trying', 'wanted', 'without', 'yourself',
+  'cant', 'didnt', 'doesnt', 'dont', 'hes', 'isnt', 'ive', 'shes', 'thats', 'theres', 'theyre',
+  'wasnt', 'werent', 'whats', 'wont', 'youd', 'youre'
+])
+
+// Runs of content words; stopwords, punctuation and markup end a run, so a two-word
+// phrase is always two adjacent words of the text
+function contentRuns(text: string): string[][] {
+  const runs: string[][] = []
+  let run: string[] = []
+  const words = text
+    .replace(/<[^>]+>/g, ' . ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/['’]/g, '')
+    .split(/([^a-z0-9]+)/)
+
+  for (const word of words) {
+    const isWord = /^[a-z0-9]+$/.test(word)
+    if (isWord && word.length > 2 && !/\d/.test(word) && !STOPWORDS.has(word)) {
+      run.push(word)
+      continue
+    }
+    // Whitespace between two words keeps the run going; anything else ends it
+    if (!isWord && /^\s+$/.test(word)) continue
+    if (run.length > 0) runs.push(run)
+    run = []
+  }
+  if (run.length > 0) runs.push(run)
+  return runs
+}
+
+function countPhrases(text: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  const add = (phrase: string) => counts.set(phrase, (counts.get(phrase) || 0) + 1)
+  for (const run of contentRuns(text)) {
+    run.forEach((word, i) => {
+      add(word)
+      if (i > 0) add(`${run[i - 1]} ${word}`)
+    })
+  }
+  return counts
+}
+
+// Highest scoring phrases of every text, keyed like the input. Phrases sharing a word with
+// one already picked are skipped, so "michael dell" is not followed by "dell".
+export function extractKeyPhrases(texts: Map<string, string>, options: KeyPhraseOptions = {}): Map<string, KeyPhrase[]> {
+  const limit = options.limit ?? DEFAULT_KEY_PHRASE_LIMIT
+  const maxShare = options.maxDocumentShare ?? DEFAULT_MAX_DOCUMENT_SHARE
+
+  const counts = new Map<string, Map<string, number>>()
+  const documentFrequency = new Map<string, number>()
+  texts.forEach((text, key) => {
+    const phrases = countPhrases(text)
+    counts.set(key, phrases)
+    phrases.forEach((_count, phrase) => documentFrequency.set(phrase, (documentFrequency.get(phrase) || 0) + 1))
+  })
+
+  const total = texts.size
+  const keyPhrases = new Map<string, KeyPhrase[]>()
+  counts.forEach((phrases, key) => {
+    const length = Array.from(phrases.values()).reduce((sum, count) => sum + count, 0)
+    const scored = Array.from(phrases.entries())
+      .filter(([phrase]) => {
+        const frequency = documentFrequency.get(phrase)!
+        return frequency < total && (frequency === 1 || frequency / total <= maxShare)
+      })
+      .map(([phrase, count]) => ({
+        phrase,
+        score: (count / length) * Math.log(total / documentFrequency.get(phrase)!) * (phrase.includes(' ') ? BIGRAM_BOOST : 1)
+      }))
+      .sort((a, b) => b.score - a.score || a.phrase.localeCompare(b.phrase))
+
+    const picked: KeyPhrase[] = []
+    for (const candidate of scored) {
+      if (picked.length >= limit) break
+      const words = candidate.phrase.split(' ')
+      if (picked.some(phrase => phrase.phrase.split(' ').some(word => words.includes(word)))) continue
+      picked.push({ phrase: candidate.phrase, score: Math.round(candidate.score * 10000) / 10000 })
+    }
+    keyPhrases.set(key, picked)
+  })
+
+  return keyPhrases
+}
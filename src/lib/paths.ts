@@ -0,0 +1,178 @@
+// "How are these two connected?" Shortest connections between two entities across
+// the catalog, served by /api/paths. Entities are linked by their relationships and
+// by the episodes they are both mentioned in. A breadth-first search finds the fewest
+// hops; among connections of that length, chains of confident relationships rank first.
+// Either end can be any graph node, including entities only known as relationship ends,
+// and every hop names its episode, for most episodes from the text bundle (see getEpisodes).
+
+import { getCanonicalEntities, getEpisode, toEpisodeSummary } from './data'
+import { findCanonicalEntity, findEntityNode, getEntityGraph, type GraphRelationship } from './graph'
+import type { CanonicalEntity, ConnectionPath, ConnectionsResponse, GraphNode, PathHop } from './types'
+
+export const MAX_PATH_DEPTH = 6
+export const DEFAULT_MAX_PATHS = 5
+
+// Bounds on the work done for entities that share many episodes
+const MAX_PREDECESSORS = 20
+const MAX_CANDIDATE_PATHS = 200
+
+// 'relationships' ignores shared episodes, for chains made only of extracted relationships
+export type PathMode = 'all' | 'relationships'
+
+interface Link {
+  from: GraphNode
+  to: GraphNode
+  relationship?: GraphRelationship
+  episodeId?: string
+}
+
+let entitiesByEpisode: Map<string, CanonicalEntity[]> | null = null
+
+function getEntitiesByEpisode(): Map<string, CanonicalEntity[]> {
+  if (!entitiesByEpisode) {
+    entitiesByEpisode = new Map()
+    for (const canonical of getCanonicalEntities()) {
+      for (const episodeId of canonical.episode_ids) {
+        const entities = entitiesByEpisode.get(episodeId) || []
+        entities.push(canonical)
+        entitiesByEpisode.set(episodeId, entities)
+      }
+    }
+  }
+  return entitiesByEpisode
+}
+
+function neighbors(node: GraphNode, mode: PathMode, nodes: Map<string, GraphNode>): Link[] {
+  const links: Link[] = (getEntityGraph().byNode.get(node.id) || []).map(relationship => ({
+    from: node,
+    to: relationship.source.id === node.id ? relationship.target : relationship.source,
+    relationship
+  }))
+
+  const canonical = mode === 'all' ? findCanonicalEntity(node.id) : undefined
+  for (const episodeId of canonical?.episode_ids || []) {
+    for (const other of getEntitiesByEpisode().get(episodeId) || []) {
+      if (other.id === node.id) continue
+      const to = nodes.get(other.id) || findEntityNode(other.id)!
+      links.push({ from: node, to, episodeId })
+    }
+  }
+
+  return links
+}
+
+const linkConfidence = (link: Link): number => link.relationship ? link.relationship.relationship.confidence_score : 0
+
+// Relationships before shared episodes, most confident first
+const compareLinks = (a: Link, b: Link): number =>
+  Number(!!b.relationship) - Number(!!a.relationship) || linkConfidence(b) - linkConfidence(a)
+
+function mentionConfidence(entityId: string, episodeId: string): number {
+  const mentions = findCanonicalEntity(entityId)?.mentions.filter(mention => mention.episode_id === episodeId) || []
+  return Math.max(0, ...mentions.map(mention => mention.confidence_score ?? 1))
+}
+
+function toHop(link: Link): PathHop {
+  if (link.relationship) {
+    const { relationship, source } = link.relationship
+    const episode = getEpisode(relationship.episode_id)
+    return {
+      kind: 'relationship',
+      from: link.from,
+      to: link.to,
+      description: relationship.description,
+      episode: episode && toEpisodeSummary(episode),
+      relationship_type: relationship.relationship_type,
+      relationship_id: relationship.id,
+      category: relationship.category,
+      reversed: source.id !== link.from.id,
+      confidence: relationship.confidence_score
+    }
+  }
+
+  const episode = getEpisode(link.episodeId!)
+  return {
+    kind: 'shared_episode',
+    from: link.from,
+    to: link.to,
+    description: `Both are mentioned in ${episode?.episode_title || 'the same episode'}`,
+    episode: episode && toEpisodeSummary(episode),
+    confidence: Math.min(mentionConfidence(link.from.id, link.episodeId!), mentionConfidence(link.to.id, link.episodeId!))
+  }
+}
+
+function scorePath(hops: PathHop[]): [number, number] {
+  const relationships = hops.filter(hop => hop.kind === 'relationship').length
+  const confidence = hops.reduce((sum, hop) => sum + hop.confidence, 0) / hops.length
+  return [relationships, confidence]
+}
+
+// Returns undefined when either entity is unknown
+export function findConnections(
+  fromId: string,
+  toId: string,
+  mode: PathMode = 'all',
+  maxPaths: number = DEFAULT_MAX_PATHS
+): ConnectionsResponse | undefined {
+  const from = findEntityNode(fromId)
+  const to = findEntityNode(toId)
+  if (!from || !to) return undefined
+  if (from.id === to.id) return { from, to, paths: [] }
+
+  // Breadth-first search keeping every predecessor on a shortest path
+  const nodes = new Map<string, GraphNode>([[from.id, from]])
+  const depths = new Map<string, number>([[from.id, 0]])
+  const predecessors = new Map<string, Link[]>()
+  let frontier = [from]
+
+  for (let depth = 0; depth < MAX_PATH_DEPTH && frontier.length > 0 && !depths.has(to.id); depth++) {
+    const next: GraphNode[] = []
+    for (const node of frontier) {
+      for (const link of neighbors(node, mode, nodes)) {
+        const known = depths.get(link.to.id)
+        if (known === undefined) {
+          depths.set(link.to.id, depth + 1)
+          nodes.set(link.to.id, link.to)
+          predecessors.set(link.to.id, [link])
+          next.push(link.to)
+        } else if (known === depth + 1) {
+          const links = predecessors.get(link.to.id)!
+          if (links.length < MAX_PREDECESSORS) links.push(link)
+        }
+      }
+    }
+    frontier = next
+  }
+
+  if (!depths.has(to.id)) return { from, to, paths: [] }
+
+  // Walk the predecessors back from the target to list the shortest paths
+  const candidates: Link[][] = []
+  const walk = (nodeId: string, suffix: Link[]) => {
+    if (candidates.length >= MAX_CANDIDATE_PATHS) return
+    if (nodeId === from.id) {
+      candidates.push(suffix)
+      return
+    }
+    const links = [...(predecessors.get(nodeId) || [])].sort(compareLinks)
+    links.forEach(link => walk(link.from.id, [link, ...suffix]))
+  }
+  walk(to.id, [])
+
+  // Paths through the same entities only differ in their evidence; the best one is kept
+  const seen = new Set<string>()
+  const paths: ConnectionPath[] = candidates
+    .map(links => ({ hops: links.map(toHop) }))
+    .map(path => ({ path, score: scorePath(path.hops) }))
+    .sort((a, b) => b.score[0] - a.score[0] || b.score[1] - a.score[1])
+    .filter(({ path }) => {
+      const signature = path.hops.map(hop => hop.to.id).join('>')
+      if (seen.has(signature)) return false
+      seen.add(signature)
+      return true
+    })
+    .slice(0, maxPaths)
+    .map(({ path }) => path)
+
+  return { from, to, paths }
+}
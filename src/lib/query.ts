@@ -0,0 +1,271 @@
+// Search query language shared by the /api/search route and the PodcastSearchEngine CLI.
+//
+//   tamara shoes              both words (adjacent terms are ANDed)
+//   "in my shoes"             exact phrase
+//   type:person episode:389   field filters (see QUERY_FILTERS)
+//   rel:founded OR rel:acquired
+//   shoes -nike, NOT nike     exclusion
+//   (nike OR adidas) after:2023-01-01
+//
+// AND binds tighter than OR; operators must be written in upper case.
+
+import { normalizeRelationshipType, resolveRelationshipType } from './relationship-ontology'
+import type { SearchDocument } from './search-index'
+
+export { normalizeRelationshipType }
+
+export const QUERY_FILTERS = ['type', 'episode', 'rel', 'after', 'before'] as const
+
+export type QueryFilterField = typeof QUERY_FILTERS[number]
+
+export type QueryNode =
+  | { kind: 'term', value: string }
+  | { kind: 'phrase', value: string }
+  | { kind: 'filter', field: QueryFilterField, value: string }
+  | { kind: 'not', operand: QueryNode }
+  | { kind: 'and', operands: QueryNode[] }
+  | { kind: 'or', operands: QueryNode[] }
+
+export type QueryFilter = Extract<QueryNode, { kind: 'filter' }>
+
+export class QueryParseError extends Error {
+  // Character offset in the query the error refers to
+  position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'QueryParseError'
+    this.position = position
+  }
+}
+
+type OperatorToken = { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not', text: string, position: number }
+
+type QueryToken =
+  | OperatorToken
+  | { kind: 'term' | 'phrase', value: string, position: number }
+  | { kind: 'filter', field: QueryFilterField, value: string, position: number }
+
+const OPERATORS: { [word: string]: 'and' | 'or' | 'not' } = { AND: 'and', OR: 'or', NOT: 'not' }
+
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/
+
+function isQueryFilterField(field: string): field is QueryFilterField {
+  return (QUERY_FILTERS as readonly string[]).includes(field)
+}
+
+function validateFilter(field: QueryFilterField, value: string, position: number): string {
+  switch (field) {
+    case 'type':
+      return value.toLowerCase()
+    case 'rel':
+      // rel:co-founded finds "founded" relationships, the ontology type it maps to
+      return resolveRelationshipType(value)?.definition.type ?? normalizeRelationshipType(value)
+    case 'episode':
+      if (!/^\d+$/.test(value) && !/^ep_/i.test(value)) {
+        throw new QueryParseError(`episode: expects an episode number, e.g. episode:389 (got "${value}")`, position)
+      }
+      return value.toLowerCase()
+    case 'after':
+    case 'before': {
+      const [year, month = '01', day = '01'] = value.split('-')
+      const date = new Date(`${year}-${month}-${day}T00:00:00Z`)
+      if (!DATE_PATTERN.test(value) || isNaN(date.getTime()) || date.getUTCDate() !== parseInt(day, 10)) {
+        throw new QueryParseError(`${field}: expects a date as YYYY-MM-DD, YYYY-MM or YYYY, e.g. ${field}:2023-01-01 (got "${value}")`, position)
+      }
+      return `${year}-${month}-${day}`
+    }
+  }
+}
+
+function readQuoted(query: string, start: number): { value: string, end: number } {
+  const close = query.indexOf('"', start + 1)
+  if (close === -1) {
+    throw new QueryParseError(`Missing closing quote for the phrase starting at position ${start + 1}`, start)
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 }
+}
+
+function lex(query: string): QueryToken[] {
+  const tokens: QueryToken[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const char = query[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', text: char, position: i })
+      i++
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', text: '-', position: i })
+      i++
+    } else if (char === '"') {
+      const { value, end } = readQuoted(query, i)
+      if (value.trim()) tokens.push({ kind: 'phrase', value: value.trim(), position: i })
+      i = end
+    } else {
+      const start = i
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++
+      const word = query.slice(start, i)
+
+      const filter = word.match(/^([a-z]+):(.*)$/i)
+      if (filter) {
+        const field = filter[1].toLowerCase()
+        if (!isQueryFilterField(field)) {
+          throw new QueryParseError(
+            `Unknown filter "${filter[1]}:". Available filters: ${QUERY_FILTERS.map(name => `${name}:`).join(', ')}`,
+            start
+          )
+        }
+
+        let value = filter[2]
+        if (!value && query[i] === '"') {
+          const quoted = readQuoted(query, i)
+          value = quoted.value.trim()
+          i = quoted.end
+        }
+        if (!value) {
+          throw new QueryParseError(`Missing value after "${field}:"`, start)
+        }
+
+        tokens.push({ kind: 'filter', field, value: validateFilter(field, value, start), position: start })
+      } else if (OPERATORS[word]) {
+        tokens.push({ kind: OPERATORS[word], text: word, position: start })
+      } else {
+        tokens.push({ kind: 'term', value: word, position: start })
+      }
+    }
+  }
+
+  return tokens
+}
+
+class QueryParser {
+  private position = 0
+
+  constructor(private readonly tokens: QueryToken[], private readonly length: number) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new QueryParseError('Query is empty', 0)
+    }
+
+    const node = this.parseOr()
+    const next = this.peek()
+    if (next) {
+      // Only an unmatched ")" can stop the top-level expression early
+      throw new QueryParseError(`Unexpected ")" at position ${next.position + 1} without a matching "("`, next.position)
+    }
+    return node
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.position]
+  }
+
+  private startsOperand(token: QueryToken | undefined): boolean {
+    return !!token && ['lparen', 'not', 'term', 'phrase', 'filter'].includes(token.kind)
+  }
+
+  private expectOperand(operator: OperatorToken): void {
+    if (!this.startsOperand(this.peek())) {
+      throw new QueryParseError(`"${operator.text}" must be followed by a search term`, operator.position)
+    }
+  }
+
+  private parseOr(): QueryNode {
+    const operands = [this.parseAnd()]
+    let next = this.peek()
+    while (next?.kind === 'or') {
+      this.position++
+      this.expectOperand(next)
+      operands.push(this.parseAnd())
+      next = this.peek()
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands }
+  }
+
+  private parseAnd(): QueryNode {
+    const operands = [this.parseUnary()]
+    while (true) {
+      const next = this.peek()
+      if (next?.kind === 'and') {
+        this.position++
+        this.expectOperand(next)
+      } else if (!this.startsOperand(next)) {
+        break
+      }
+      operands.push(this.parseUnary())
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands }
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek()
+    if (token?.kind === 'not') {
+      this.position++
+      this.expectOperand(token)
+      return { kind: 'not', operand: this.parseUnary() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.tokens[this.position++]
+
+    if (!token) {
+      throw new QueryParseError('Query ends unexpectedly', this.length)
+    }
+
+    switch (token.kind) {
+      case 'term':
+      case 'phrase':
+        return { kind: token.kind, value: token.value }
+      case 'filter':
+        return { kind: 'filter', field: token.field, value: token.value }
+      case 'lparen': {
+        if (this.peek()?.kind === 'rparen') {
+          throw new QueryParseError(`Empty parentheses at position ${token.position + 1}`, token.position)
+        }
+        const node = this.parseOr()
+        if (this.peek()?.kind !== 'rparen') {
+          throw new QueryParseError(`Missing ")" for the "(" at position ${token.position + 1}`, token.position)
+        }
+        this.position++
+        return node
+      }
+      case 'rparen':
+        throw new QueryParseError(`Unexpected ")" at position ${token.position + 1} without a matching "("`, token.position)
+      default:
+        throw new QueryParseError(`"${token.text}" must come between two search terms`, token.position)
+    }
+  }
+}
+
+export function parseQuery(query: string): QueryNode {
+  return new QueryParser(lex(query), query.length).parse()
+}
+
+// Filters are evaluated against the attributes each search document carries from its
+// Episode, Entity or Relationship (see createSearchDocuments)
+export function matchesFilter(filter: QueryFilter, document: SearchDocument): boolean {
+  const { attributes } = document
+
+  switch (filter.field) {
+    case 'type':
+      return document.type === filter.value || attributes.entity_type === filter.value
+    case 'episode':
+      return /^\d+$/.test(filter.value)
+        ? attributes.episode_number === parseInt(filter.value, 10)
+        : document.episode_id?.toLowerCase() === filter.value
+    case 'rel':
+      // rel:founded matches "founded" and "co_founded"; rel:book matches "wrote_book"
+      return attributes.relationship_types.some(type => `_${type}_`.includes(`_${filter.value}_`))
+    case 'after':
+      return !!attributes.date && attributes.date >= filter.value
+    case 'before':
+      return !!attributes.date && attributes.date < filter.value
+  }
+}
@@ -0,0 +1,66 @@
+// Quote library search. An episode has a handful of quotes, so they are scanned rather
+// than indexed: every query word has to start a word of the quote, its speaker, its
+// source or its episode title, and words found in the quote itself rank highest.
+
+import { getQuotes } from './data'
+import { tokenize } from './search-index'
+import { extractSnippets } from './snippets'
+import type { QuoteResult, QuoteSearchResponse, QuoteSearchResult } from './types'
+
+export const DEFAULT_QUOTE_PAGE_SIZE = 20
+export const MAX_QUOTE_PAGE_SIZE = 100
+
+const FIELD_WEIGHTS = { text: 3, speaker: 2, source: 2, episode: 1 }
+
+type QuoteField = keyof typeof FIELD_WEIGHTS
+
+function quoteFields({ quote, episode }: QuoteResult): Record<QuoteField, string[]> {
+  return {
+    text: tokenize(quote.text),
+    speaker: tokenize(quote.speaker_name || ''),
+    source: tokenize(quote.source_name || ''),
+    episode: tokenize(episode.episode_title)
+  }
+}
+
+// Sum of the best field weight of every term; 0 when a term matches nowhere
+function scoreQuote(result: QuoteResult, terms: string[]): number {
+  const fields = quoteFields(result)
+  let score = 0
+  for (const term of terms) {
+    const weights = (Object.keys(fields) as QuoteField[])
+      .filter(field => fields[field].some(token => token.startsWith(term)))
+      .map(field => FIELD_WEIGHTS[field])
+    if (weights.length === 0) return 0
+    score += Math.max(...weights)
+  }
+  return score
+}
+
+function toSearchResult(result: QuoteResult, terms: string[]): QuoteSearchResult {
+  const [highlighted] = extractSnippets(result.quote.text, terms, { maxSnippets: 1, radius: result.quote.text.length })
+  return { ...result, parts: highlighted ? highlighted.parts : [{ text: result.quote.text, highlight: false }] }
+}
+
+// An empty query lists every quote, most confident first
+export function searchQuotes(
+  query: string,
+  page: number = 1,
+  pageSize: number = DEFAULT_QUOTE_PAGE_SIZE
+): QuoteSearchResponse {
+  const terms = tokenize(query)
+  const confidence = (result: QuoteResult) => result.quote.confidence_score ?? 0
+  const matches = getQuotes()
+    .map(result => ({ result, score: terms.length > 0 ? scoreQuote(result, terms) : 1 }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || confidence(b.result) - confidence(a.result))
+  const start = (page - 1) * pageSize
+
+  return {
+    query,
+    page,
+    pageSize,
+    total: matches.length,
+    results: matches.slice(start, start + pageSize).map(({ result }) => toSearchResult(result, terms))
+  }
+}
@@ -0,0 +1,76 @@
+// BM25F relevance ranking shared by the /api/search route and the
+// PodcastSearchEngine CLI, so scores from both are on the same scale.
+
+import type { SearchIndex } from './search-index'
+import type { ResultType } from './types'
+
+// Term-frequency saturation and field-length normalization
+export const BM25_K1 = 1.2
+export const BM25_B = 0.75
+
+// Word-prefix matches (e.g. "jim" → "jimmy") count for less than whole-word matches
+export const PREFIX_MATCH_WEIGHT = 0.7
+
+// Per-field boosts applied to the length-normalized term frequency of each field
+export const FIELD_BOOSTS: { [type in ResultType]: { [field: string]: number } } = {
+  episode: { title: 3, entity_names: 2, entity_contexts: 0.8, transcript: 1 },
+  entity: { name: 3, context: 1 },
+  relationship: { relationship_type: 2, entity_names: 2, description: 1 }
+}
+
+export interface CorpusStats {
+  documentCount: number
+  // Keyed by `${type}:${field}` because field names are shared between document types
+  averageFieldLengths: { [typeField: string]: number }
+}
+
+const corpusStatsCache = new WeakMap<SearchIndex, CorpusStats>()
+
+export function getCorpusStats(index: SearchIndex): CorpusStats {
+  const cached = corpusStatsCache.get(index)
+  if (cached) return cached
+
+  const totals: { [typeField: string]: { length: number, count: number } } = {}
+  index.documents.forEach(document => {
+    for (const [field, length] of Object.entries(document.field_lengths)) {
+      const key = `${document.type}:${field}`
+      if (!totals[key]) totals[key] = { length: 0, count: 0 }
+      totals[key].length += length
+      totals[key].count++
+    }
+  })
+
+  const averageFieldLengths: { [typeField: string]: number } = {}
+  for (const [key, { length, count }] of Object.entries(totals)) {
+    averageFieldLengths[key] = count > 0 ? length / count : 0
+  }
+
+  const stats = { documentCount: index.documents.length, averageFieldLengths }
+  corpusStatsCache.set(index, stats)
+  return stats
+}
+
+// Rare terms weigh more; always positive, even for terms in most documents
+export function inverseDocumentFrequency(documentCount: number, documentFrequency: number): number {
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))
+}
+
+// Boosted, length-normalized term frequency of a single field (the "tilde tf" of BM25F)
+export function weightedFieldFrequency(
+  type: ResultType,
+  field: string,
+  termFrequency: number,
+  fieldLength: number,
+  stats: CorpusStats
+): number {
+  const boost = FIELD_BOOSTS[type][field] ?? 1
+  const averageLength = stats.averageFieldLengths[`${type}:${field}`] || 1
+  const normalization = 1 - BM25_B + BM25_B * (fieldLength / averageLength)
+  return (boost * termFrequency) / normalization
+}
+
+// Saturate the summed field frequencies so repeated mentions help with diminishing returns
+export function bm25TermScore(weightedFrequency: number, idf: number): number {
+  if (weightedFrequency <= 0) return 0
+  return idf * ((weightedFrequency * (BM25_K1 + 1)) / (weightedFrequency + BM25_K1))
+}
@@ -0,0 +1,350 @@
+// Controlled vocabulary for relationship types. Models write relationship_type as free
+// text ("founded", "co-founded", "founder_of", "founded_by"), so extracted types are
+// mapped onto a fixed set of types. Each type reads from entity1 to entity2 and has an
+// inverse name for reading it the other way ("Jimmy Choo founded by Tamara Mellon").
+// Shared by the data layer, the search index and scripts/comprehensive-graph-extraction.ts;
+// types no definition covers are kept as extracted and listed by
+// scripts/relationship-types-report.ts.
+
+import type { RelationshipCategory, RelationshipDirection } from './types'
+
+export interface RelationshipTypeDefinition {
+  type: string
+  // Name of the type read from entity2 to entity1; the type itself for symmetric types
+  inverse: string
+  category: RelationshipCategory
+  // Extracted types that mean the same, read in the same direction
+  synonyms?: string[]
+  // Extracted types that name the inverse ("founded_by"); their ends are swapped
+  inverse_synonyms?: string[]
+}
+
+export const RELATIONSHIP_CATEGORIES: RelationshipCategory[] = ['business', 'influence', 'family', 'content', 'other']
+
+export const RELATIONSHIP_TYPES: RelationshipTypeDefinition[] = [
+  // Business
+  {
+    type: 'founded',
+    inverse: 'founded_by',
+    category: 'business',
+    synonyms: ['co_founded', 'cofounded', 'founder_of', 'co_founder_of', 'established', 'started', 'founded_and_sold'],
+    inverse_synonyms: ['co_founded_by', 'established_by', 'started_by']
+  },
+  {
+    type: 'worked_for',
+    inverse: 'employed',
+    category: 'business',
+    synonyms: ['worked_at', 'employed_by', 'employee_of', 'consulted_for'],
+    inverse_synonyms: ['hired', 'recruited', 'employs']
+  },
+  {
+    type: 'led',
+    inverse: 'led_by',
+    category: 'business',
+    synonyms: ['leads', 'led_company', 'ran', 'managed', 'ceo_of', 'president_of', 'chairman_of', 'controlled', 'controls', 'commanded'],
+    inverse_synonyms: ['run_by', 'managed_by', 'controlled_by']
+  },
+  {
+    type: 'owned',
+    inverse: 'owned_by',
+    category: 'business',
+    synonyms: ['owns', 'owner_of', 'owned_and_transformed']
+  },
+  {
+    type: 'acquired',
+    inverse: 'acquired_by',
+    category: 'business',
+    synonyms: ['bought', 'purchased', 'took_over'],
+    inverse_synonyms: ['bought_by', 'purchased_by']
+  },
+  {
+    type: 'invested_in',
+    inverse: 'received_investment_from',
+    category: 'business',
+    synonyms: ['financed', 'funded', 'backed', 'investor_in'],
+    inverse_synonyms: ['funded_by', 'backed_by', 'financed_by']
+  },
+  {
+    type: 'subsidiary_of',
+    inverse: 'parent_company_of',
+    category: 'business',
+    synonyms: ['division_of', 'part_of'],
+    inverse_synonyms: ['parent_company', 'parent_of_company']
+  },
+  {
+    type: 'created',
+    inverse: 'created_by',
+    category: 'business',
+    synonyms: ['developed', 'built', 'launched', 'designed', 'produced', 'pioneered', 'commercialized'],
+    inverse_synonyms: ['developed_by', 'built_by', 'launched_by', 'designed_by', 'produced_by']
+  },
+  {
+    type: 'invented',
+    inverse: 'invented_by',
+    category: 'business',
+    synonyms: ['inventor_of']
+  },
+  {
+    type: 'used',
+    inverse: 'used_by',
+    category: 'business',
+    synonyms: ['uses', 'utilized', 'strategically_utilized', 'adopted']
+  },
+  {
+    type: 'supplied',
+    inverse: 'supplied_by',
+    category: 'business',
+    synonyms: ['supplied_to', 'supplier_of', 'supplies']
+  },
+  {
+    type: 'sponsored',
+    inverse: 'sponsored_by',
+    category: 'business',
+    synonyms: ['sponsors', 'sponsor_of']
+  },
+  {
+    type: 'headquartered_in',
+    inverse: 'headquarters_of',
+    category: 'business',
+    synonyms: ['based_in', 'located_in', 'operated_in', 'operated_from']
+  },
+  {
+    type: 'succeeded',
+    inverse: 'succeeded_by',
+    category: 'business',
+    synonyms: ['successor_of', 'replaced'],
+    inverse_synonyms: ['preceded', 'predecessor_of', 'replaced_by']
+  },
+  {
+    type: 'evolved_into',
+    inverse: 'evolved_from',
+    category: 'business',
+    synonyms: ['became', 'spawned', 'grew_into']
+  },
+  { type: 'partnered_with', inverse: 'partnered_with', category: 'business', synonyms: ['collaborated_with', 'worked_with', 'partner_of', 'business_relationship', 'allied_with'] },
+  { type: 'competed_with', inverse: 'competed_with', category: 'business', synonyms: ['competes_with', 'competitor_of', 'rival_of', 'rivals_with'] },
+  { type: 'merged_with', inverse: 'merged_with', category: 'business' },
+
+  // Influence
+  {
+    type: 'influenced',
+    inverse: 'influenced_by',
+    category: 'influence',
+    synonyms: ['inspired', 'shaped', 'influenced_decisions'],
+    inverse_synonyms: ['inspired_by', 'learned_from', 'modeled_after', 'studied_under']
+  },
+  {
+    type: 'mentored',
+    inverse: 'mentored_by',
+    category: 'influence',
+    synonyms: ['advised', 'coached', 'taught', 'trained', 'mentor_of', 'advisor_to'],
+    inverse_synonyms: ['advised_by', 'coached_by', 'taught_by', 'trained_by', 'mentee_of', 'protege_of']
+  },
+  {
+    type: 'endorsed',
+    inverse: 'endorsed_by',
+    category: 'influence',
+    synonyms: ['recommended', 'championed', 'praised', 'admired', 'promoted'],
+    inverse_synonyms: ['recommended_by', 'praised_by', 'admired_by']
+  },
+  {
+    type: 'compared_to',
+    inverse: 'compared_to',
+    category: 'influence',
+    synonyms: ['similar_to', 'shares_philosophy', 'shares_philosophy_with', 'philosophical_alignment', 'contemporary_of', 'industry_contemporary']
+  },
+
+  // Family and personal ties
+  {
+    type: 'parent_of',
+    inverse: 'child_of',
+    category: 'family',
+    synonyms: ['father_of', 'mother_of'],
+    inverse_synonyms: ['son_of', 'daughter_of']
+  },
+  { type: 'married_to', inverse: 'married_to', category: 'family', synonyms: ['spouse_of', 'wife_of', 'husband_of'] },
+  { type: 'sibling_of', inverse: 'sibling_of', category: 'family', synonyms: ['brother_of', 'sister_of'] },
+  { type: 'relative_of', inverse: 'relative_of', category: 'family', synonyms: ['family', 'family_of', 'related_by_family'] },
+  { type: 'friend_of', inverse: 'friend_of', category: 'family', synonyms: ['friends_with'] },
+
+  // Books, media and what they cover
+  {
+    type: 'wrote_book',
+    inverse: 'written_by',
+    category: 'content',
+    synonyms: ['wrote', 'authored', 'author_of', 'wrote_content'],
+    inverse_synonyms: ['authored_by', 'book_by']
+  },
+  {
+    type: 'featured_in',
+    inverse: 'features',
+    category: 'content',
+    synonyms: ['appeared_in', 'subject_of', 'mentioned_in', 'profiled_in'],
+    inverse_synonyms: ['featured', 'featured_content', 'about', 'profiled', 'features_content_about']
+  },
+  {
+    type: 'analyzed',
+    inverse: 'analyzed_by',
+    category: 'content',
+    synonyms: ['analyzes', 'analyzes_content_about', 'studied', 'discussed', 'described', 'documented', 'reviewed', 'wrote_about', 'wrote_book_about'],
+    inverse_synonyms: ['referenced_by', 'studied_by', 'discussed_by', 'reviewed_by']
+  },
+  {
+    type: 'published',
+    inverse: 'published_by',
+    category: 'content',
+    synonyms: ['publisher_of', 'published_on']
+  },
+  {
+    type: 'interviewed',
+    inverse: 'interviewed_by',
+    category: 'content'
+  },
+  {
+    type: 'hosted',
+    inverse: 'hosted_by',
+    category: 'content',
+    synonyms: ['host_of']
+  },
+
+  // Ties the model did not name, e.g. a relationship extracted without a type
+  { type: 'related_to', inverse: 'related_to', category: 'other', synonyms: ['associated_with', 'connected_to'] }
+]
+
+export interface ResolvedRelationshipType {
+  definition: RelationshipTypeDefinition
+  // The extracted type named the inverse, so entity1 and entity2 trade places
+  reversed: boolean
+}
+
+// Minimal shape needed for normalization, so extraction scripts can pass their own Relationship type
+export interface OntologyRelationship {
+  entity1_id?: string
+  entity1_name: string
+  entity2_id?: string
+  entity2_name: string
+  relationship_type: string
+  extracted_type?: string
+  category?: RelationshipCategory
+}
+
+// "Founded By", "founded-by" and "founded_by" all refer to the same relationship type
+export function normalizeRelationshipType(type: string): string {
+  return type.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+let typeIndex: Map<string, ResolvedRelationshipType> | null = null
+let definitionsByType: Map<string, RelationshipTypeDefinition> | null = null
+
+function getTypeIndex(): Map<string, ResolvedRelationshipType> {
+  if (!typeIndex) {
+    typeIndex = new Map()
+    // Defined types and their inverses take precedence over synonyms
+    for (const definition of RELATIONSHIP_TYPES) {
+      typeIndex.set(definition.type, { definition, reversed: false })
+      if (definition.inverse !== definition.type) typeIndex.set(definition.inverse, { definition, reversed: true })
+    }
+    for (const definition of RELATIONSHIP_TYPES) {
+      const add = (type: string, reversed: boolean) => {
+        if (!typeIndex!.has(type)) typeIndex!.set(type, { definition, reversed })
+      }
+      definition.synonyms?.forEach(synonym => add(synonym, false))
+      definition.inverse_synonyms?.forEach(synonym => add(synonym, true))
+    }
+  }
+  return typeIndex
+}
+
+export function resolveRelationshipType(type: string): ResolvedRelationshipType | undefined {
+  return getTypeIndex().get(normalizeRelationshipType(type))
+}
+
+export function getRelationshipTypeDefinition(type: string): RelationshipTypeDefinition | undefined {
+  if (!definitionsByType) {
+    definitionsByType = new Map(RELATIONSHIP_TYPES.map(definition => [definition.type, definition]))
+  }
+  return definitionsByType.get(normalizeRelationshipType(type))
+}
+
+export function relationshipCategory(type: string): RelationshipCategory {
+  return resolveRelationshipType(type)?.definition.category || 'other'
+}
+
+// Name of the type read from entity2. Types outside the ontology get one where it is
+// unambiguous: "worked_with" reads the same both ways, "transformed" becomes "transformed_by".
+export function inverseRelationshipType(type: string): string | undefined {
+  const definition = getRelationshipTypeDefinition(type)
+  if (definition) return definition.inverse
+
+  const key = normalizeRelationshipType(type)
+  if (key.endsWith('_with')) return key
+  if (/^[a-z]+ed$/.test(key)) return `${key}_by`
+  return undefined
+}
+
+// How a relationship reads from one of its ends, in lower case: "founded" from Tamara
+// Mellon and "founded by" from Jimmy Choo. Without an inverse name it reads "← founded in".
+export function relationshipPhrase(type: string, direction: RelationshipDirection): string {
+  const words = (name: string) => normalizeRelationshipType(name).replace(/_/g, ' ')
+  if (direction === 'outgoing') return words(type)
+
+  const inverse = inverseRelationshipType(type)
+  return inverse ? words(inverse) : `← ${words(type)}`
+}
+
+// The type in ontology terms with its ends in the ontology's direction. Unmapped types keep
+// their normalized name in category 'other'; the extracted type is kept in extracted_type,
+// so normalizing a relationship twice changes nothing.
+export function normalizeRelationship<T extends OntologyRelationship>(relationship: T): T {
+  const extractedType = relationship.extracted_type ?? relationship.relationship_type
+  const resolved = resolveRelationshipType(relationship.relationship_type)
+  if (!resolved) {
+    return {
+      ...relationship,
+      relationship_type: normalizeRelationshipType(relationship.relationship_type),
+      extracted_type: extractedType,
+      category: 'other'
+    }
+  }
+
+  const { definition, reversed } = resolved
+  return {
+    ...relationship,
+    ...(reversed ? {
+      entity1_id: relationship.entity2_id,
+      entity1_name: relationship.entity2_name,
+      entity2_id: relationship.entity1_id,
+      entity2_name: relationship.entity1_name
+    } : {}),
+    relationship_type: definition.type,
+    extracted_type: extractedType,
+    category: definition.category
+  }
+}
+
+export interface UnmappedRelationshipType {
+  type: string
+  count: number
+  // A few of the relationships using it, as "entity1 —type→ entity2"
+  examples: string[]
+}
+
+const MAX_UNMAPPED_EXAMPLES = 3
+
+// Extracted types the ontology does not cover, most used first
+export function findUnmappedRelationshipTypes(relationships: OntologyRelationship[]): UnmappedRelationshipType[] {
+  const unmapped = new Map<string, UnmappedRelationshipType>()
+  for (const relationship of relationships) {
+    const type = normalizeRelationshipType(relationship.extracted_type ?? relationship.relationship_type)
+    if (resolveRelationshipType(type)) continue
+
+    const entry = unmapped.get(type) || { type, count: 0, examples: [] }
+    entry.count++
+    if (entry.examples.length < MAX_UNMAPPED_EXAMPLES) {
+      entry.examples.push(`${relationship.entity1_name} —${type}→ ${relationship.entity2_name}`)
+    }
+    unmapped.set(type, entry)
+  }
+
+  return Array.from(unmapped.values()).sort((a, b) => b.count - a.count || a.type.localeCompare(b.type))
+}
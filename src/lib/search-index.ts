@@ -0,0 +1,419 @@
+import { extractDescription } from './format'
+import {
+  bm25TermScore,
+  getCorpusStats,
+  inverseDocumentFrequency,
+  PREFIX_MATCH_WEIGHT,
+  weightedFieldFrequency
+} from './ranking'
+import { matchesFilter, normalizeRelationshipType, parseQuery, type QueryNode } from './query'
+import { findEpisodeText, toTranscriptHtml } from './transcript'
+import type { Entity, Episode, EpisodeText, Relationship, ResultType } from './types'
+
+// Bump whenever the document fields or the posting layout change so stale
+// prebuilt indexes are rebuilt instead of being read with the wrong shape
+export const SEARCH_INDEX_VERSION = 4
+
+// Structured values the query language filters on (type:, episode:, rel:, after:, before:)
+export interface DocumentAttributes {
+  entity_type?: string
+  episode_number?: number
+  // Release date of the document's episode, YYYY-MM-DD
+  date?: string
+  // Normalized types of the relationships the document is part of
+  relationship_types: string[]
+}
+
+export interface SearchDocumentInput {
+  id: string
+  type: ResultType
+  title: string
+  description: string
+  url?: string
+  episode_id?: string
+  attributes: DocumentAttributes
+  fields: { [field: string]: string }
+}
+
+export interface SearchDocument {
+  id: string
+  type: ResultType
+  title: string
+  description: string
+  url?: string
+  episode_id?: string
+  attributes: DocumentAttributes
+  field_lengths: { [field: string]: number }
+}
+
+// [document index, field name, term frequency within that field]
+export type Posting = [number, string, number]
+
+export interface SearchIndex {
+  version: number
+  built_at: string
+  documents: SearchDocument[]
+  postings: { [term: string]: Posting[] }
+}
+
+export interface SearchOptions {
+  // Text of each field of a document, used to check that the words of a quoted phrase
+  // are adjacent. Without it a phrase only requires all of its words.
+  documentTexts?: (document: SearchDocument) => string[]
+}
+
+export interface IndexMatch {
+  document: SearchDocument
+  score: number
+  matched_terms: string[]
+  // Fields that contributed to the score, strongest first
+  matched_fields: string[]
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'he', 'her', 'his', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'with'
+])
+
+// Lowercase, strip <br> markup and diacritics, split on anything that is not a letter or digit
+export function tokenize(text: string): string[] {
+  if (!text) return []
+
+  return text
+    .replace(/<[^>]+>/g, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 || /\d/.test(token))
+    .filter(token => !STOPWORDS.has(token))
+}
+
+function episodeAttributes(episode: Pick<Episode, 'episode_number' | 'date'> | undefined): Pick<DocumentAttributes, 'episode_number' | 'date'> {
+  return {
+    episode_number: episode?.episode_number,
+    date: episode?.date ? episode.date.substring(0, 10) : undefined
+  }
+}
+
+// Relationships reference their entities by id in newer extractions and only by name in older ones
+function entityKeys(episodeId: string, entityId: string | undefined, name: string): string[] {
+  const keys = [`${episodeId}:${name.toLowerCase()}`]
+  if (entityId) keys.push(entityId)
+  return keys
+}
+
+// Turn the episode/entity/relationship bundles into flat, field-addressable documents
+export function createSearchDocuments(
+  episodes: Episode[],
+  entities: Entity[],
+  relationships: Relationship[],
+  episodeTexts: EpisodeText[] = []
+): SearchDocumentInput[] {
+  const documents: SearchDocumentInput[] = []
+  const episodesById = new Map(episodes.map(episode => [episode.episode_id, episode]))
+
+  const relationshipTypesByKey = new Map<string, Set<string>>()
+  const addRelationshipType = (key: string, type: string) => {
+    if (!relationshipTypesByKey.has(key)) relationshipTypesByKey.set(key, new Set())
+    relationshipTypesByKey.get(key)!.add(type)
+  }
+  relationships.forEach(rel => {
+    const type = normalizeRelationshipType(rel.relationship_type)
+    addRelationshipType(rel.episode_id, type)
+    entityKeys(rel.episode_id, rel.entity1_id, rel.entity1_name).forEach(key => addRelationshipType(key, type))
+    entityKeys(rel.episode_id, rel.entity2_id, rel.entity2_name).forEach(key => addRelationshipType(key, type))
+  })
+  const relationshipTypesFor = (keys: string[]): string[] =>
+    Array.from(new Set(keys.flatMap(key => Array.from(relationshipTypesByKey.get(key) || []))))
+
+  episodes.forEach(episode => {
+    const text = findEpisodeText(episodeTexts, episode)?.text || ''
+    documents.push({
+      id: episode.episode_id,
+      type: 'episode',
+      title: episode.episode_title,
+      description: extractDescription(episode, text),
+      url: episode.url,
+      episode_id: episode.episode_id,
+      attributes: {
+        ...episodeAttributes(episode),
+        relationship_types: relationshipTypesFor([episode.episode_id])
+      },
+      fields: {
+        title: episode.episode_title,
+        entity_names: (episode.entities || []).map(entity => entity.name).join(' '),
+        entity_contexts: (episode.entities || []).map(entity => entity.context).join(' '),
+        transcript: toTranscriptHtml(text)
+      }
+    })
+  })
+
+  entities.forEach(entity => {
+    documents.push({
+      id: entity.id,
+      type: 'entity',
+      title: entity.name,
+      description: entity.context.length > 200 ? entity.context.substring(0, 200) + '...' : entity.context,
+      episode_id: entity.episode_id,
+      attributes: {
+        ...episodeAttributes(episodesById.get(entity.episode_id)),
+        entity_type: entity.type.toLowerCase(),
+        relationship_types: relationshipTypesFor(entityKeys(entity.episode_id, entity.id, entity.name))
+      },
+      fields: {
+        name: entity.name,
+        context: entity.context
+      }
+    })
+  })
+
+  relationships.forEach(rel => {
+    documents.push({
+      id: rel.id,
+      type: 'relationship',
+      title: `${rel.entity1_name} ${rel.relationship_type} ${rel.entity2_name}`,
+      description: rel.description,
+      episode_id: rel.episode_id,
+      attributes: {
+        ...episodeAttributes(episodesById.get(rel.episode_id)),
+        relationship_types: [normalizeRelationshipType(rel.relationship_type)]
+      },
+      fields: {
+        relationship_type: rel.relationship_type,
+        entity_names: `${rel.entity1_name} ${rel.entity2_name}`,
+        description: rel.description
+      }
+    })
+  })
+
+  return documents
+}
+
+export function buildSearchIndex(inputs: SearchDocumentInput[]): SearchIndex {
+  const documents: SearchDocument[] = []
+  const postings: { [term: string]: Posting[] } = {}
+
+  inputs.forEach((input, docIndex) => {
+    const fieldLengths: { [field: string]: number } = {}
+
+    for (const [field, text] of Object.entries(input.fields)) {
+      const tokens = tokenize(text)
+      fieldLengths[field] = tokens.length
+
+      const frequencies = new Map<string, number>()
+      tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1))
+
+      frequencies.forEach((frequency, term) => {
+        if (!postings[term]) postings[term] = []
+        postings[term].push([docIndex, field, frequency])
+      })
+    }
+
+    const { fields, ...document } = input
+    documents.push({ ...document, field_lengths: fieldLengths })
+  })
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    built_at: new Date().toISOString(),
+    documents,
+    postings
+  }
+}
+
+const sortedTermsCache = new WeakMap<SearchIndex, string[]>()
+
+function getSortedTerms(index: SearchIndex): string[] {
+  let terms = sortedTermsCache.get(index)
+  if (!terms) {
+    terms = Object.keys(index.postings).sort()
+    sortedTermsCache.set(index, terms)
+  }
+  return terms
+}
+
+// All indexed terms starting with the given prefix, found by binary search over the sorted vocabulary
+export function expandPrefix(index: SearchIndex, prefix: string): string[] {
+  const terms = getSortedTerms(index)
+  let low = 0
+  let high = terms.length
+
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (terms[mid] < prefix) low = mid + 1
+    else high = mid
+  }
+
+  const matches: string[] = []
+  for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+    matches.push(terms[i])
+  }
+  return matches
+}
+
+interface TermScores {
+  scores: Map<number, number>
+  fieldContributions: Map<number, Map<string, number>>
+}
+
+// BM25F score of every document containing the term; prefix expansions count for less
+// and only the best expansion is kept per document
+function scoreTerm(index: SearchIndex, queryTerm: string, exact: boolean): TermScores {
+  const stats = getCorpusStats(index)
+  const scores = new Map<number, number>()
+  const fieldContributions = new Map<number, Map<string, number>>()
+  const terms = exact ? (index.postings[queryTerm] ? [queryTerm] : []) : expandPrefix(index, queryTerm)
+
+  terms.forEach(term => {
+    const postings = index.postings[term]
+    const matchWeight = term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT
+    const idf = inverseDocumentFrequency(stats.documentCount, new Set(postings.map(([docIndex]) => docIndex)).size)
+
+    const weightedFrequencies = new Map<number, number>()
+    postings.forEach(([docIndex, field, frequency]) => {
+      const document = index.documents[docIndex]
+      const weighted = weightedFieldFrequency(document.type, field, frequency, document.field_lengths[field], stats)
+      weightedFrequencies.set(docIndex, (weightedFrequencies.get(docIndex) || 0) + weighted)
+
+      if (!fieldContributions.has(docIndex)) fieldContributions.set(docIndex, new Map())
+      const contributions = fieldContributions.get(docIndex)!
+      contributions.set(field, (contributions.get(field) || 0) + weighted * matchWeight)
+    })
+
+    weightedFrequencies.forEach((weighted, docIndex) => {
+      const score = matchWeight * bm25TermScore(weighted, idf)
+      scores.set(docIndex, Math.max(scores.get(docIndex) || 0, score))
+    })
+  })
+
+  return { scores, fieldContributions }
+}
+
+function intersect(sets: Set<number>[]): Set<number> {
+  const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size)
+  return new Set(Array.from(smallest).filter(docIndex => rest.every(set => set.has(docIndex))))
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  for (let i = 0; i + sequence.length <= tokens.length; i++) {
+    if (sequence.every((token, offset) => tokens[i + offset] === token)) return true
+  }
+  return false
+}
+
+class QueryEvaluator {
+  private readonly termCache = new Map<string, TermScores>()
+
+  constructor(private readonly index: SearchIndex, private readonly options: SearchOptions) {}
+
+  term(queryTerm: string, exact: boolean): TermScores {
+    const key = `${exact ? '=' : '~'}${queryTerm}`
+    if (!this.termCache.has(key)) this.termCache.set(key, scoreTerm(this.index, queryTerm, exact))
+    return this.termCache.get(key)!
+  }
+
+  // Documents matching the node; null when the node places no constraint
+  // (e.g. a word made only of stopwords)
+  evaluate(node: QueryNode): Set<number> | null {
+    switch (node.kind) {
+      case 'term': {
+        const tokens = tokenize(node.value)
+        if (tokens.length === 0) return null
+        return intersect(tokens.map(token => new Set(this.term(token, false).scores.keys())))
+      }
+      case 'phrase': {
+        const tokens = tokenize(node.value)
+        if (tokens.length === 0) return null
+        const candidates = intersect(tokens.map(token => new Set(this.term(token, true).scores.keys())))
+        const { documentTexts } = this.options
+        if (tokens.length === 1 || !documentTexts) return candidates
+        return new Set(Array.from(candidates).filter(docIndex =>
+          documentTexts(this.index.documents[docIndex]).some(text => containsSequence(tokenize(text), tokens))
+        ))
+      }
+      case 'filter': {
+        const matching = new Set<number>()
+        this.index.documents.forEach((document, docIndex) => {
+          if (matchesFilter(node, document)) matching.add(docIndex)
+        })
+        return matching
+      }
+      case 'not': {
+        const excluded = this.evaluate(node.operand)
+        if (!excluded) return null
+        const remaining = new Set<number>()
+        this.index.documents.forEach((_, docIndex) => {
+          if (!excluded.has(docIndex)) remaining.add(docIndex)
+        })
+        return remaining
+      }
+      case 'and': {
+        const sets = node.operands.map(operand => this.evaluate(operand)).filter((set): set is Set<number> => set !== null)
+        return sets.length > 0 ? intersect(sets) : null
+      }
+      case 'or': {
+        const sets = node.operands.map(operand => this.evaluate(operand)).filter((set): set is Set<number> => set !== null)
+        return sets.length > 0 ? new Set(sets.flatMap(set => Array.from(set))) : null
+      }
+    }
+  }
+}
+
+// Words and phrase words that should raise a document's score; excluded terms never do
+function scoringTerms(node: QueryNode): { term: string, exact: boolean }[] {
+  switch (node.kind) {
+    case 'term':
+      return tokenize(node.value).map(term => ({ term, exact: false }))
+    case 'phrase':
+      return tokenize(node.value).map(term => ({ term, exact: true }))
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(scoringTerms)
+    default:
+      return []
+  }
+}
+
+// Parse the query (see ./query), select the documents it matches and rank them with BM25F
+// (see ./ranking). Throws QueryParseError for malformed queries.
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): IndexMatch[] {
+  const ast = parseQuery(query)
+  const evaluator = new QueryEvaluator(index, options)
+  const matching = evaluator.evaluate(ast)
+  if (!matching) return []
+
+  const uniqueTerms = new Map<string, { term: string, exact: boolean }>()
+  scoringTerms(ast).forEach(scoring => {
+    const existing = uniqueTerms.get(scoring.term)
+    // A word typed both on its own and inside a phrase keeps prefix matching
+    if (!existing || existing.exact) uniqueTerms.set(scoring.term, scoring)
+  })
+  const termScores = Array.from(uniqueTerms.values()).map(({ term, exact }) => ({ term, ...evaluator.term(term, exact) }))
+
+  const matches: IndexMatch[] = []
+  Array.from(matching).sort((a, b) => a - b).forEach(docIndex => {
+    let score = 0
+    const matchedTerms: string[] = []
+    const contributions = new Map<string, number>()
+
+    termScores.forEach(({ term, scores, fieldContributions }) => {
+      const termScore = scores.get(docIndex)
+      if (termScore === undefined) return
+      score += termScore
+      matchedTerms.push(term)
+      fieldContributions.get(docIndex)!.forEach((weight, field) => {
+        contributions.set(field, (contributions.get(field) || 0) + weight)
+      })
+    })
+
+    const matchedFields = Array.from(contributions.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([field]) => field)
+
+    matches.push({ document: index.documents[docIndex], score, matched_terms: matchedTerms, matched_fields: matchedFields })
+  })
+
+  // Stable sort, so documents matched only by filters keep index order
+  return matches.sort((a, b) => b.score - a.score)
+}
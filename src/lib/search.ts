@@ -0,0 +1,147 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  buildSearchIndex,
+  createSearchDocuments,
+  searchIndex,
+  SEARCH_INDEX_VERSION,
+  type IndexMatch,
+  type SearchDocument,
+  type SearchIndex
+} from './search-index'
+import {
+  getAllEntities,
+  getEpisode,
+  getEpisodeFullText,
+  getEpisodeSegments,
+  getEpisodes,
+  getEpisodeTexts,
+  getRelatedItemsForEntity,
+  getRelatedItemsForEpisode,
+  getRelatedItemsForRelationship,
+  getRelationship,
+  getEntity,
+  getRelationships
+} from './data'
+import { computeFacets, emptyFacetSelection, matchesFacets } from './facets'
+import { extractSnippets } from './snippets'
+import { findSegmentAt } from './transcript'
+import type { FacetSelection, SearchResponse, SearchResult } from './types'
+
+// Written by `npm run build-search-index`, which runs before every `next build`
+export const SEARCH_INDEX_FILE = path.join(process.cwd(), 'src', 'data-search-index.json')
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+let cachedIndex: SearchIndex | null = null
+
+export function buildIndexFromData(): SearchIndex {
+  return buildSearchIndex(
+    createSearchDocuments(getEpisodes(), getAllEntities(), getRelationships(), getEpisodeTexts())
+  )
+}
+
+export function getSearchIndex(): SearchIndex {
+  if (cachedIndex) return cachedIndex
+
+  if (fs.existsSync(SEARCH_INDEX_FILE)) {
+    const prebuilt: SearchIndex = JSON.parse(fs.readFileSync(SEARCH_INDEX_FILE, 'utf-8'))
+    if (prebuilt.version === SEARCH_INDEX_VERSION) {
+      cachedIndex = prebuilt
+      return cachedIndex
+    }
+    console.warn(`Search index version ${prebuilt.version} is stale (expected ${SEARCH_INDEX_VERSION}), rebuilding in memory`)
+  } else {
+    console.warn('Prebuilt search index not found, building in memory. Run `npm run build-search-index`.')
+  }
+
+  cachedIndex = buildIndexFromData()
+  return cachedIndex
+}
+
+// Field texts of an indexed document, so quoted phrases can be matched word for word
+function getDocumentTexts(document: SearchDocument): string[] {
+  switch (document.type) {
+    case 'episode': {
+      const episode = getEpisode(document.id)
+      if (!episode) return []
+      return [
+        episode.episode_title,
+        ...(episode.entities || []).flatMap(entity => [entity.name, entity.context]),
+        getEpisodeFullText(episode.episode_id)
+      ]
+    }
+    case 'entity': {
+      const entity = getEntity(document.id)
+      return entity ? [entity.name, entity.context] : []
+    }
+    case 'relationship': {
+      const relationship = getRelationship(document.id)
+      return relationship
+        ? [relationship.relationship_type, relationship.entity1_name, relationship.entity2_name, relationship.description]
+        : []
+    }
+  }
+}
+
+function toSearchResult(match: IndexMatch): SearchResult {
+  const { document, score } = match
+  const result: SearchResult = {
+    id: document.id,
+    type: document.type,
+    title: document.title,
+    description: document.description,
+    url: document.url,
+    episode_id: document.episode_id,
+    relevanceScore: score,
+    related: { episodes: [], entities: [], relationships: [] }
+  }
+
+  switch (document.type) {
+    case 'episode':
+      result.related = getRelatedItemsForEpisode(document.id)
+      if (match.matched_fields.includes('transcript')) {
+        const segments = getEpisodeSegments(document.id)
+        result.snippets = extractSnippets(getEpisodeFullText(document.id), match.matched_terms)
+          .map(snippet => ({ ...snippet, timestamp: findSegmentAt(segments, snippet.offset)?.start_seconds }))
+      }
+      break
+    case 'entity':
+      result.entity_type = getEntity(document.id)?.type
+      result.related = getRelatedItemsForEntity(document.id)
+      break
+    case 'relationship':
+      result.relationship_type = getRelationship(document.id)?.relationship_type
+      result.related = getRelatedItemsForRelationship(document.id)
+      break
+  }
+
+  return result
+}
+
+// An empty query matches every document, so facets alone can be used to browse.
+// Throws QueryParseError when the query is malformed (see ./query)
+export function search(
+  query: string,
+  page: number = 1,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  facets: FacetSelection = emptyFacetSelection()
+): SearchResponse {
+  const index = getSearchIndex()
+  const matches: IndexMatch[] = query
+    ? searchIndex(index, query, { documentTexts: getDocumentTexts })
+    : index.documents.map(document => ({ document, score: 0, matched_terms: [], matched_fields: [] }))
+  const filtered = matches.filter(match => matchesFacets(match.document, facets))
+  const start = (page - 1) * pageSize
+
+  return {
+    query,
+    page,
+    pageSize,
+    total: filtered.length,
+    // Related items are only resolved for the page being returned
+    results: filtered.slice(start, start + pageSize).map(toSearchResult),
+    facets: computeFacets(matches.map(match => match.document), facets)
+  }
+}
@@ -0,0 +1,34 @@
+import type { GraphNodeKind, ResultType } from './types'
+
+// Absolute URLs for metadata, structured data and the sitemap
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '')
+
+export const SITE_NAME = 'Founders Search'
+
+export const PODCAST_NAME = 'Founders'
+export const PODCAST_URL = 'https://www.founderspodcast.com'
+
+const DETAIL_PATHS: { [type in ResultType]: string } = {
+  episode: '/episodes',
+  entity: '/entities',
+  relationship: '/relationships'
+}
+
+// Path of the server-rendered page for an episode, entity or relationship
+export function detailPath(type: ResultType, id: string): string {
+  return `${DETAIL_PATHS[type]}/${encodeURIComponent(id)}`
+}
+
+// Graph explorer starting from an episode or entity
+export function graphPath(kind: GraphNodeKind, id: string): string {
+  return `/graph?${kind}=${encodeURIComponent(id)}`
+}
+
+// Theme page on /themes
+export function themePath(id: string): string {
+  return `/themes/${encodeURIComponent(id)}`
+}
+
+export function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path.startsWith('/') ? path : `/${path}`}`
+}
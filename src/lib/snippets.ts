@@ -0,0 +1,76 @@
+// Highlighted transcript excerpts for search results
+
+import { escapeRegExp } from './format'
+import type { Snippet, SnippetPart } from './types'
+
+export interface SnippetOptions {
+  maxSnippets?: number
+  // Characters of context kept on each side of a match
+  radius?: number
+}
+
+// Replace markup with spaces of the same length so offsets still point into the raw text
+function maskMarkup(text: string): string {
+  return text.replace(/<[^>]+>/g, tag => ' '.repeat(tag.length))
+}
+
+export function extractSnippets(text: string, terms: string[], options: SnippetOptions = {}): Snippet[] {
+  const { maxSnippets = 3, radius = 80 } = options
+  if (!text || terms.length === 0) return []
+
+  const masked = maskMarkup(text)
+  // Query terms match whole words and word prefixes, like the index does
+  const pattern = new RegExp(`(?<![a-z0-9])(?:${terms.map(escapeRegExp).join('|')})[a-z0-9]*`, 'gi')
+
+  const matches: { start: number, end: number, term: string }[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(masked)) !== null) {
+    matches.push({ start: match.index, end: match.index + match[0].length, term: match[0].toLowerCase() })
+  }
+  if (matches.length === 0) return []
+
+  // Group nearby matches into windows of context
+  const windows: { start: number, end: number, matches: typeof matches }[] = []
+  matches.forEach(m => {
+    const current = windows[windows.length - 1]
+    if (current && m.start <= current.end) {
+      current.end = Math.max(current.end, m.end + radius)
+      current.matches.push(m)
+    } else {
+      windows.push({ start: Math.max(current ? current.end : 0, m.start - radius), end: m.end + radius, matches: [m] })
+    }
+  })
+
+  // Prefer windows covering more distinct terms, then more matches, then earlier passages
+  const best = windows
+    .map((window, position) => ({ window, position, distinct: new Set(window.matches.map(m => m.term)).size }))
+    .sort((a, b) => b.distinct - a.distinct || b.window.matches.length - a.window.matches.length || a.position - b.position)
+    .slice(0, maxSnippets)
+    .sort((a, b) => a.position - b.position)
+
+  return best.map(({ window }) => {
+    // Snap the window to word boundaries
+    let start = window.start
+    while (start > 0 && /\S/.test(masked[start - 1])) start--
+    let end = Math.min(masked.length, window.end)
+    while (end < masked.length && /\S/.test(masked[end])) end++
+
+    const parts: SnippetPart[] = []
+    let cursor = start
+    window.matches.forEach(m => {
+      if (m.start > cursor) parts.push({ text: masked.slice(cursor, m.start), highlight: false })
+      parts.push({ text: masked.slice(m.start, m.end), highlight: true })
+      cursor = m.end
+    })
+    if (end > cursor) parts.push({ text: masked.slice(cursor, end), highlight: false })
+
+    if (start > 0) parts.unshift({ text: '…', highlight: false })
+    if (end < masked.length) parts.push({ text: '…', highlight: false })
+
+    return {
+      offset: window.matches[0].start,
+      length: window.matches[0].end - window.matches[0].start,
+      parts: parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }))
+    }
+  })
+}
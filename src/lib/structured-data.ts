@@ -0,0 +1,72 @@
+// schema.org JSON-LD for the server-rendered episode and entity pages
+
+import { normalizeRelationshipType } from './query'
+import { absoluteUrl, detailPath, PODCAST_NAME, PODCAST_URL } from './site'
+import type { Entity, Episode, EpisodeSummary, Relationship } from './types'
+
+type JsonLd = { [key: string]: unknown }
+
+// Founders "media" entities are almost always the biographies an episode is based on
+const SCHEMA_TYPES: { [entityType: string]: string } = {
+  person: 'Person',
+  media: 'Book',
+  place: 'Place',
+  event: 'Event',
+  product: 'Product'
+}
+
+const AUTHOR_RELATIONSHIP_TYPES = ['wrote_book', 'wrote', 'authored']
+
+const podcastSeries: JsonLd = { '@type': 'PodcastSeries', name: PODCAST_NAME, url: PODCAST_URL }
+
+export function schemaTypeFor(entity: Entity): string {
+  return SCHEMA_TYPES[entity.type.toLowerCase()] || 'Thing'
+}
+
+function episodeReference(episode: EpisodeSummary): JsonLd {
+  return {
+    '@type': 'PodcastEpisode',
+    name: episode.episode_title,
+    url: absoluteUrl(detailPath('episode', episode.episode_id)),
+    episodeNumber: episode.episode_number,
+    partOfSeries: podcastSeries
+  }
+}
+
+export function episodeJsonLd(episode: Episode, description: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    ...episodeReference(episode),
+    description,
+    datePublished: episode.date ? episode.date.substring(0, 10) : undefined,
+    associatedMedia: episode.url ? { '@type': 'MediaObject', contentUrl: episode.url } : undefined,
+    mentions: (episode.entities || []).map(entity => ({
+      '@type': schemaTypeFor(entity),
+      name: entity.name,
+      url: absoluteUrl(detailPath('entity', entity.id))
+    }))
+  }
+}
+
+// Authors come from "wrote_book" style relationships pointing at the book
+export function entityJsonLd(entity: Entity, episode: EpisodeSummary | undefined, relationships: Relationship[]): JsonLd {
+  const type = schemaTypeFor(entity)
+  const authors = type === 'Book'
+    ? relationships.filter(rel =>
+        (rel.entity2_id === entity.id || rel.entity2_name === entity.name) &&
+        AUTHOR_RELATIONSHIP_TYPES.includes(normalizeRelationshipType(rel.relationship_type)))
+    : []
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': type,
+    name: entity.name,
+    description: entity.context,
+    url: absoluteUrl(detailPath('entity', entity.id)),
+    author: authors.length > 0
+      ? authors.map(rel => ({ '@type': 'Person', name: rel.entity1_name }))
+      : undefined,
+    sameAs: entity.amazon_products?.length ? entity.amazon_products.map(product => product.url) : undefined,
+    subjectOf: episode ? episodeReference(episode) : undefined
+  }
+}
@@ -0,0 +1,333 @@
+// Themes of the catalog, found offline from the episode texts. Phrases that recur in
+// some episodes much more than chance predicts (residual IDF) are the candidates; they
+// are clustered by the episodes they occur in together, so "automobile", "motor car"
+// and "automobile industry" become one theme. Each episode is assigned its strongest
+// themes, weighted by how much of its text they account for.
+// Shared by scripts/build-theme-index.ts and the data layer.
+
+import { STOPWORDS } from './key-phrases'
+import type { Episode, EpisodeText, Theme, ThemeEpisode, ThemeEpisodeRef, ThemeQuote } from './types'
+
+// Bump whenever the theme layout changes so stale prebuilt indexes are rebuilt
+export const THEME_INDEX_VERSION = 2
+
+export interface ThemeIndex {
+  version: number
+  themes: Theme[]
+}
+
+export interface ThemeOptions {
+  // Phrases in fewer episodes are not themes
+  minEpisodes?: number
+  // Phrases in a larger share of the episodes are too general to browse by
+  maxEpisodeShare?: number
+  // Candidate phrases that are clustered, the most distinctive first
+  maxPhrases?: number
+  // Average similarity two clusters need to be merged, 0-1
+  clusterSimilarity?: number
+  maxThemesPerEpisode?: number
+  maxQuotes?: number
+}
+
+export const DEFAULT_MIN_THEME_EPISODES = 5
+export const DEFAULT_MAX_THEME_EPISODE_SHARE = 0.4
+export const DEFAULT_MAX_THEME_PHRASES = 150
+export const DEFAULT_CLUSTER_SIMILARITY = 0.35
+export const DEFAULT_MAX_THEMES_PER_EPISODE = 5
+export const DEFAULT_MAX_THEME_QUOTES = 3
+
+// Sentences found in this many episodes are sponsor reads and show boilerplate
+const BOILERPLATE_EPISODES = 3
+// The show notes open with "What I learned from reading <book>", different every time
+const BOILERPLATE_SENTENCE = /\bwhat i learned (?:by |from )+/i
+// Amounts ("million", "billion dollars") recur in every story about money without being one
+const COUNT_WORDS = new Set(['hundred', 'thousand', 'million', 'billion', 'trillion', 'dollar', 'dollars'])
+// How much burstier than chance a phrase must be; generic words ("started") are not
+const MIN_RESIDUAL_IDF = 0.25
+const BIGRAM_BOOST = 1.5
+// An episode's themes below this share of its theme weight are dropped
+const MIN_EPISODE_THEME_WEIGHT = 0.1
+// Themes need this many episodes after assignment to be worth a page
+const MIN_THEME_EPISODES_ASSIGNED = 2
+const MIN_QUOTE_LENGTH = 60
+const MAX_QUOTE_LENGTH = 280
+// Episodes quote each other; quotes sharing more of their words than this are one quote
+const MAX_QUOTE_OVERLAP = 0.6
+
+interface ThemeDocument {
+  ref: ThemeEpisodeRef
+  sentences: string[]
+  // Phrase key → occurrences
+  counts: Map<string, number>
+  length: number
+}
+
+interface Candidate {
+  key: string
+  episodes: number
+  score: number
+  // Episode index → tf-idf weight
+  weights: Map<number, number>
+}
+
+// Show notes timestamps ("[21:00]", "( 37:00 )") are dropped so they do not end up in quotes
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/[[(]\s*\d{1,2}:\d{2}(?::\d{2})?\s*[\])}]/g, ' ')
+    .replace(/<[^>]+>/g, '\n')
+    .replace(/-{3,}/g, '\n')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0)
+}
+
+// Words as the phrases count them, keeping their case: no accents, possessives or apostrophes
+function sentenceWords(sentence: string): string[] {
+  return sentence
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]s\b/g, '')
+    .replace(/['’]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0)
+}
+
+// Plurals share a key with the singular ("games" = "game"); other inflections are left to clustering
+function singular(word: string): string {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (/(x|ch|sh|ss)es$/.test(word)) return word.slice(0, -2)
+  return word.endsWith('s') ? word.slice(0, -1) : word
+}
+
+// Words mostly written capitalized inside a sentence are names ("Dell", "Hill"). Themes are
+// about what founders do; people and companies are browsable as entities already.
+function findProperNouns(sentences: string[][]): Set<string> {
+  const capitalized = new Map<string, number>()
+  const lowercase = new Map<string, number>()
+  for (const sentence of sentences.flat()) {
+    sentenceWords(sentence).slice(1).forEach(word => {
+      const counts = /^[a-z]/.test(word) ? lowercase : /^[A-Z]/.test(word) ? capitalized : null
+      counts?.set(word.toLowerCase(), (counts.get(word.toLowerCase()) || 0) + 1)
+    })
+  }
+  return new Set(Array.from(capitalized).filter(([word, count]) => count > (lowercase.get(word) || 0)).map(([word]) => word))
+}
+
+// Phrase keys (words and adjacent word pairs) of a sentence with the words as written
+function sentencePhrases(sentence: string, properNouns: Set<string>): { key: string, form: string }[] {
+  const phrases: { key: string, form: string }[] = []
+  let previous: string | null = null
+  for (const word of sentenceWords(sentence).map(word => word.toLowerCase())) {
+    if (word.length <= 2 || /\d/.test(word) || STOPWORDS.has(word) || COUNT_WORDS.has(word) || properNouns.has(word)) {
+      previous = null
+      continue
+    }
+    phrases.push({ key: singular(word), form: word })
+    if (previous) phrases.push({ key: `${singular(previous)} ${singular(word)}`, form: `${previous} ${word}` })
+    previous = word
+  }
+  return phrases
+}
+
+// Episodes of the text bundle are episodes of the catalog too (see getEpisodes in ./data),
+// so a text with an id links to its episode page even when the graph bundle lacks it
+function episodeRef(text: EpisodeText, episodes: Episode[]): ThemeEpisodeRef {
+  const episode = episodes.find(candidate =>
+    candidate.episode_id === text.episode_id ||
+    (text.episode_number !== undefined && candidate.episode_number === text.episode_number)
+  )
+  return {
+    episode_id: episode?.episode_id || text.episode_id,
+    episode_number: text.episode_number,
+    title: text.title,
+    url: text.url,
+    date: text.date
+  }
+}
+
+function cosine(a: Map<number, number>, b: Map<number, number>): number {
+  let dot = 0
+  a.forEach((weight, index) => { dot += weight * (b.get(index) || 0) })
+  const norm = (vector: Map<number, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight ** 2, 0))
+  return dot / (norm(a) * norm(b))
+}
+
+// Average-link agglomerative clustering over the candidates' episode vectors
+function clusterCandidates(candidates: Candidate[], minSimilarity: number): Candidate[][] {
+  const similarity = candidates.map(a => candidates.map(b => cosine(a.weights, b.weights)))
+  const clusters = candidates.map((_candidate, index) => [index])
+  const linkage = (a: number[], b: number[]) =>
+    a.reduce((sum, i) => sum + b.reduce((inner, j) => inner + similarity[i][j], 0), 0) / (a.length * b.length)
+
+  for (;;) {
+    let best: [number, number] | null = null
+    let bestSimilarity = minSimilarity
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const value = linkage(clusters[i], clusters[j])
+        if (value > bestSimilarity) {
+          best = [i, j]
+          bestSimilarity = value
+        }
+      }
+    }
+    if (!best) break
+    clusters[best[0]].push(...clusters[best[1]])
+    clusters.splice(best[1], 1)
+  }
+
+  return clusters.map(cluster => cluster.map(index => candidates[index]).sort((a, b) => b.score - a.score))
+}
+
+function slugify(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+export function buildThemeIndex(texts: EpisodeText[], episodes: Episode[], options: ThemeOptions = {}): ThemeIndex {
+  const minEpisodes = options.minEpisodes ?? DEFAULT_MIN_THEME_EPISODES
+  const maxEpisodeShare = options.maxEpisodeShare ?? DEFAULT_MAX_THEME_EPISODE_SHARE
+  const maxPhrases = options.maxPhrases ?? DEFAULT_MAX_THEME_PHRASES
+  const clusterSimilarity = options.clusterSimilarity ?? DEFAULT_CLUSTER_SIMILARITY
+  const maxThemesPerEpisode = options.maxThemesPerEpisode ?? DEFAULT_MAX_THEMES_PER_EPISODE
+  const maxQuotes = options.maxQuotes ?? DEFAULT_MAX_THEME_QUOTES
+
+  // Show notes repeat their introduction, so sentences are counted once per episode
+  const sentences = texts.map(text => Array.from(new Set(splitSentences(text.text || ''))))
+  const sentenceEpisodes = new Map<string, number>()
+  sentences.flat().forEach(sentence => sentenceEpisodes.set(sentence, (sentenceEpisodes.get(sentence) || 0) + 1))
+  const contentSentences = sentences.map(list => list.filter(sentence =>
+    sentenceEpisodes.get(sentence)! < BOILERPLATE_EPISODES && !BOILERPLATE_SENTENCE.test(sentence)))
+  const properNouns = findProperNouns(contentSentences)
+
+  // Surface forms of every phrase key, the most frequent names the theme
+  const forms = new Map<string, Map<string, number>>()
+  const documents: ThemeDocument[] = texts.map((text, index) => {
+    const counts = new Map<string, number>()
+    let length = 0
+    for (const sentence of contentSentences[index]) {
+      for (const { key, form } of sentencePhrases(sentence, properNouns)) {
+        counts.set(key, (counts.get(key) || 0) + 1)
+        if (!key.includes(' ')) length++
+        const keyForms = forms.get(key) || new Map<string, number>()
+        keyForms.set(form, (keyForms.get(form) || 0) + 1)
+        forms.set(key, keyForms)
+      }
+    }
+    return { ref: episodeRef(text, episodes), sentences: contentSentences[index], counts, length }
+  })
+  const label = (key: string) => Array.from(forms.get(key)!).sort((a, b) => b[1] - a[1])[0][0]
+
+  const total = documents.length
+  const totalLength = documents.reduce((sum, document) => sum + document.length, 0)
+  const occurrences = new Map<string, { episodes: number, count: number }>()
+  documents.forEach(document => document.counts.forEach((count, key) => {
+    const entry = occurrences.get(key) || { episodes: 0, count: 0 }
+    occurrences.set(key, { episodes: entry.episodes + 1, count: entry.count + count })
+  }))
+
+  // Residual IDF: episodes a phrase would be in if its occurrences were spread at random
+  // (Poisson, by episode length) against the episodes it is actually in
+  const candidates: Candidate[] = Array.from(occurrences)
+    .filter(([, { episodes: count }]) => count >= minEpisodes && count <= maxEpisodeShare * total)
+    .map(([key, { episodes: count, count: frequency }]) => {
+      const expected = documents.reduce((sum, document) => sum + 1 - Math.exp(-frequency * document.length / totalLength), 0)
+      const residualIdf = Math.log(expected / count)
+      return { key, episodes: count, residualIdf, score: residualIdf * Math.log(count) * (key.includes(' ') ? BIGRAM_BOOST : 1) }
+    })
+    .filter(candidate => candidate.residualIdf >= MIN_RESIDUAL_IDF)
+    .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+    .slice(0, maxPhrases)
+    .map(({ key, episodes: count, score }) => {
+      const weights = new Map<number, number>()
+      documents.forEach((document, index) => {
+        const frequency = document.counts.get(key)
+        if (frequency) weights.set(index, (1 + Math.log(frequency)) * Math.log(total / count))
+      })
+      return { key, episodes: count, score, weights }
+    })
+
+  const clusters = clusterCandidates(candidates, clusterSimilarity)
+
+  // Each episode keeps its strongest themes, weighted by their share of its theme weight
+  const assigned = clusters.map(() => [] as ThemeEpisode[])
+  documents.forEach((document, index) => {
+    const weights = clusters.map(cluster => cluster.reduce((sum, candidate) => sum + (candidate.weights.get(index) || 0), 0))
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+    if (totalWeight === 0) return
+    weights
+      .map((weight, cluster) => ({ cluster, weight: weight / totalWeight }))
+      .filter(({ weight }) => weight >= MIN_EPISODE_THEME_WEIGHT)
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, maxThemesPerEpisode)
+      .forEach(({ cluster, weight }) => assigned[cluster].push({ ...document.ref, weight: Math.round(weight * 1000) / 1000 }))
+  })
+
+  const ids = new Set<string>()
+  const themes: Theme[] = []
+  clusters.forEach((cluster, index) => {
+    const themeEpisodes = assigned[index].sort((a, b) => b.weight - a.weight)
+    if (themeEpisodes.length < MIN_THEME_EPISODES_ASSIGNED) return
+
+    const themeLabel = label(cluster[0].key)
+    let id = slugify(themeLabel)
+    for (let suffix = 2; ids.has(id); suffix++) id = `${slugify(themeLabel)}-${suffix}`
+    ids.add(id)
+
+    themes.push({
+      id,
+      label: themeLabel,
+      phrases: cluster.map(candidate => label(candidate.key)),
+      episodes: themeEpisodes,
+      quotes: findQuotes(cluster, documents, themeEpisodes, properNouns, maxQuotes)
+    })
+  })
+
+  return {
+    version: THEME_INDEX_VERSION,
+    themes: themes.sort((a, b) => b.episodes.length - a.episodes.length || a.label.localeCompare(b.label))
+  }
+}
+
+function quoteOverlap(a: string, b: string): number {
+  const wordsA = new Set(sentenceWords(a.toLowerCase()))
+  const wordsB = new Set(sentenceWords(b.toLowerCase()))
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length
+  return shared / Math.min(wordsA.size, wordsB.size)
+}
+
+// The sentence of each of the theme's episodes that uses most of its phrases; the quotes
+// come from the episodes where that sentence is strongest
+function findQuotes(
+  cluster: Candidate[],
+  documents: ThemeDocument[],
+  themeEpisodes: ThemeEpisode[],
+  properNouns: Set<string>,
+  maxQuotes: number
+): ThemeQuote[] {
+  const keys = new Set(cluster.map(candidate => candidate.key))
+  const episodeWeights = new Map(themeEpisodes.map(episode => [episode.url, episode.weight]))
+
+  return documents
+    .filter(document => episodeWeights.has(document.ref.url))
+    .map(document => {
+      const best = document.sentences
+        .filter(sentence => sentence.length >= MIN_QUOTE_LENGTH && sentence.length <= MAX_QUOTE_LENGTH)
+        .map(sentence => ({
+          text: sentence,
+          matches: new Set(sentencePhrases(sentence, properNouns).map(phrase => phrase.key).filter(key => keys.has(key))).size
+        }))
+        .sort((a, b) => b.matches - a.matches)[0]
+      return best && best.matches > 0
+        ? { text: best.text, episode: document.ref, score: best.matches + episodeWeights.get(document.ref.url)! }
+        : null
+    })
+    .filter((quote): quote is ThemeQuote & { score: number } => quote !== null)
+    .sort((a, b) => b.score - a.score)
+    .reduce((quotes: ThemeQuote[], { text, episode }) => {
+      if (quotes.length < maxQuotes && quotes.every(quote => quoteOverlap(quote.text, text) <= MAX_QUOTE_OVERLAP)) {
+        quotes.push({ text, episode })
+      }
+      return quotes
+    }, [])
+}
@@ -0,0 +1,146 @@
+import { escapeRegExp } from './format'
+import type { Episode, EpisodeText, TranscriptMention, TranscriptSegment } from './types'
+
+// The text bundle is keyed by the same episode ids; older scrapes only share the episode number
+export function findEpisodeText(texts: EpisodeText[], episode: Pick<Episode, 'episode_id' | 'episode_number'>): EpisodeText | undefined {
+  return texts.find(text => text.episode_id === episode.episode_id) ||
+    (episode.episode_number !== undefined
+      ? texts.find(text => text.episode_number === episode.episode_number)
+      : undefined)
+}
+
+// The extracted episodes followed by every other episode of the text bundle, which have
+// no entities of their own but can still be searched, browsed and linked. Shared by the
+// data layer and scripts/build-search-index.ts, so the prebuilt index covers them too.
+export function withTextEpisodes(extracted: Episode[], texts: EpisodeText[]): Episode[] {
+  const matched = new Set(extracted.map(episode => findEpisodeText(texts, episode)))
+  const textOnly = texts
+    .filter(text => text.episode_id && !matched.has(text))
+    .map(text => ({
+      episode_id: text.episode_id!,
+      episode_title: text.title,
+      episode_number: text.episode_number,
+      date: text.date,
+      url: text.url,
+      entities: []
+    }))
+  return [...extracted, ...textOnly]
+}
+
+// Transcripts are stored with <br> markup; legacy scrapes still use newlines
+export function toTranscriptHtml(text: string): string {
+  if (text.includes('<br>')) {
+    return text
+  }
+  return text.replace(/\n/g, '<br>')
+}
+
+// Show notes mark passages with [mm:ss], [h:mm:ss] or (mm:ss); some scrapes close with }
+const TIMESTAMP_PATTERN = /[[(](\d{1,2}:\d{2}(?::\d{2})?)[\])}]/g
+
+// "1:02:03" → 3723, "45:22" → 2722; NaN when a minute or second part is out of range
+export function parseTimestamp(label: string): number {
+  const parts = label.split(':').map(part => parseInt(part, 10))
+  if (parts.slice(1).some(part => part >= 60)) return NaN
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
+
+// Media-fragment link so the episode player starts at the given time
+export function episodeUrlAtTime(url: string, seconds: number): string {
+  return `${url.split('#')[0]}#t=${Math.floor(seconds)}`
+}
+
+// Split a transcript into the passages that follow each timestamp marker.
+// Offsets point at the marker in the same string that was parsed.
+export function parseTranscriptSegments(text: string): TranscriptSegment[] {
+  if (!text) return []
+
+  const markers: { label: string, seconds: number, offset: number, end: number }[] = []
+  let match: RegExpExecArray | null
+  TIMESTAMP_PATTERN.lastIndex = 0
+  while ((match = TIMESTAMP_PATTERN.exec(text)) !== null) {
+    const seconds = parseTimestamp(match[1])
+    if (isNaN(seconds)) continue
+    markers.push({ label: match[1], seconds, offset: match.index, end: match.index + match[0].length })
+  }
+
+  return markers.map((marker, index) => {
+    const next = markers[index + 1]
+    const passage = text.slice(marker.end, next ? next.offset : text.length)
+    return {
+      label: marker.label,
+      start_seconds: marker.seconds,
+      offset: marker.offset,
+      text: passage.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+    }
+  })
+}
+
+// The segment a character offset falls in: the last marker at or before it
+export function findSegmentAt(segments: TranscriptSegment[], offset: number): TranscriptSegment | undefined {
+  let found: TranscriptSegment | undefined
+  for (const segment of segments) {
+    if (segment.offset > offset) break
+    found = segment
+  }
+  return found
+}
+
+// Where a name occurs in the transcript, with the timestamp of the surrounding segment
+export function findMentions(text: string, name: string, segments: TranscriptSegment[], limit: number = 5): TranscriptMention[] {
+  if (!text || !name.trim()) return []
+
+  const pattern = new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(name.trim())}(?![A-Za-z0-9])`, 'gi')
+  const mentions: TranscriptMention[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null && mentions.length < limit) {
+    const segment = findSegmentAt(segments, match.index)
+    mentions.push({
+      offset: match.index,
+      length: match[0].length,
+      timestamp: segment?.start_seconds
+    })
+  }
+  return mentions
+}
+
+// A quote as a plain run of lowercase words, for comparing quotes regardless of punctuation
+export function normalizeQuote(text: string): string {
+  return (text
+    .replace(/<[^>]+>/g, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[a-z0-9]+/g) || []).join(' ')
+}
+
+// Where a quote occurs in the transcript. Models tidy up what they quote, so only its words
+// have to match: punctuation, <br> markup and casing in between are skipped. When `offset`
+// is given and the quote starts there, that occurrence is used rather than the first one.
+export function findQuote(text: string, quote: string, segments: TranscriptSegment[], offset?: number): TranscriptMention | undefined {
+  const words = normalizeQuote(quote).split(' ').filter(Boolean)
+  if (!text || words.length === 0) return undefined
+
+  const source = `(?<![A-Za-z0-9])${words.map(escapeRegExp).join('(?:<[^>]+>|[^A-Za-z0-9<])+')}(?![A-Za-z0-9])`
+  let match: RegExpExecArray | null = null
+  if (offset !== undefined) {
+    const sticky = new RegExp(source, 'iy')
+    sticky.lastIndex = offset
+    match = sticky.exec(text)
+  }
+  match = match || new RegExp(source, 'i').exec(text)
+  if (!match) return undefined
+
+  return {
+    offset: match.index,
+    length: match[0].length,
+    timestamp: findSegmentAt(segments, match.index)?.start_seconds
+  }
+}
@@ -0,0 +1,417 @@
+// Shared shapes for the data bundles in src/ and the JSON served by the API routes
+
+export interface AmazonProduct {
+  url: string
+  title: string
+  thumbnail?: string
+}
+
+export interface Entity {
+  id: string
+  name: string
+  type: string
+  context: string
+  episode_id: string
+  confidence_score: number
+  amazon_searchable?: boolean
+  amazon_keywords?: string[]
+  amazon_products?: AmazonProduct[]
+  // Set by the resolution stage of scripts/comprehensive-graph-extraction.ts
+  canonical_id?: string
+}
+
+// Episode-level entity record a canonical entity was resolved from
+export interface EntityMention {
+  entity_id: string
+  episode_id: string
+  name: string
+  context: string
+  confidence_score?: number
+}
+
+// One person, company, book... across every episode it was extracted from (see ./entity-resolution)
+export interface CanonicalEntity {
+  id: string
+  name: string
+  type: string
+  // Other spellings and qualified names the mentions used
+  aliases: string[]
+  description: string
+  episode_ids: string[]
+  mentions: EntityMention[]
+}
+
+// Groups of relationship types in ./relationship-ontology; 'other' holds types it does not cover
+export type RelationshipCategory = 'business' | 'influence' | 'family' | 'content' | 'other'
+
+export interface Relationship {
+  id: string
+  episode_id: string
+  entity1_id?: string
+  entity1_name: string
+  entity2_id?: string
+  entity2_name: string
+  relationship_type: string
+  description: string
+  confidence_score: number
+  is_cross_episode?: boolean
+  // Set when relationship_type was mapped onto the ontology: the type as the model wrote it
+  extracted_type?: string
+  category?: RelationshipCategory
+}
+
+// Which end of a relationship an entity is: outgoing from entity1, incoming to entity2
+export type RelationshipDirection = 'outgoing' | 'incoming'
+
+// A relationship as seen from one of its ends
+export interface DirectedRelationship {
+  relationship: Relationship
+  direction: RelationshipDirection
+  // The entity at the other end
+  other_id?: string
+  other_name: string
+}
+
+export interface CrossEpisodeRelationship {
+  id: string
+  episode1_id: string
+  episode1_title: string
+  episode2_id: string
+  episode2_title: string
+  shared_entities: string[]
+  // Canonical entity ids, in the order of shared_entities; missing in bundles written
+  // before links were made from resolved entities
+  shared_entity_ids?: string[]
+  relationship_strength: number
+  common_themes: string[]
+}
+
+export interface Episode {
+  episode_id: string
+  episode_title: string
+  episode_number?: number
+  date: string
+  url: string
+  entities: Entity[]
+}
+
+// Episode without its entity list, used wherever only a pill or a link is rendered
+export type EpisodeSummary = Omit<Episode, 'entities'>
+
+// Passage of a transcript that starts at a [mm:ss] / [h:mm:ss] marker
+export interface TranscriptSegment {
+  label: string
+  start_seconds: number
+  // Character offset of the marker in the episode text
+  offset: number
+  text: string
+}
+
+export interface TranscriptMention {
+  offset: number
+  length: number
+  // Start of the timestamped segment the mention falls in, if any
+  timestamp?: number
+}
+
+export interface EpisodeText {
+  episode_id?: string
+  title: string
+  url: string
+  date: string
+  episode_number?: number
+  text?: string
+  // Written by scripts/update-text-formatting.ts
+  segments?: TranscriptSegment[]
+}
+
+// A notable line of an episode (see scripts/comprehensive-graph-extraction.ts). Speaker and
+// source ids are episode-level entity ids; a speaker or source the model did not extract as
+// an entity only has its name
+export interface Quote {
+  id: string
+  episode_id: string
+  text: string
+  speaker_id?: string
+  speaker_name?: string
+  // The book (or other media entity) the quote was read from
+  source_id?: string
+  source_name?: string
+  // Character offset in the transcript as extracted, null when it was not quoted word for word
+  offset?: number | null
+  confidence_score?: number
+}
+
+// data-episodes-claude.json
+export interface GraphData {
+  episodes: Episode[]
+  all_entities?: Entity[]
+  all_relationships?: Relationship[]
+  // Missing from bundles extracted before quotes were
+  all_quotes?: Quote[]
+  cross_episode_relationships?: CrossEpisodeRelationship[]
+  amazon_products?: Entity[]
+  canonical_entities?: CanonicalEntity[]
+}
+
+// data-relationships-claude.json
+export interface RelationshipsData {
+  relationships: Relationship[]
+  cross_episode_relationships?: CrossEpisodeRelationship[]
+}
+
+// data-episodes-text.json
+export interface EpisodeTextData {
+  episodes: EpisodeText[]
+}
+
+export type ResultType = 'episode' | 'entity' | 'relationship'
+
+export interface SnippetPart {
+  text: string
+  highlight: boolean
+}
+
+// Highlighted transcript excerpt attached to episode search results
+export interface Snippet {
+  // Character offset and length of the first highlighted word in the raw transcript HTML
+  offset: number
+  length: number
+  parts: SnippetPart[]
+  timestamp?: number
+}
+
+export interface RelatedItems {
+  episodes: EpisodeSummary[]
+  entities: Entity[]
+  relationships: Relationship[]
+}
+
+export interface SearchResult {
+  id: string
+  type: ResultType
+  title: string
+  description: string
+  url?: string
+  episode_id?: string
+  entity_type?: string
+  relationship_type?: string
+  relevanceScore: number
+  related: RelatedItems
+  // Transcript passages matching the query, for episode results
+  snippets?: Snippet[]
+}
+
+export interface FacetValue {
+  value: string
+  count: number
+}
+
+// Facet counts over the matches of a query; each facet is counted with the
+// other facets' selections applied, so a facet never narrows its own options
+export interface SearchFacets {
+  entity_types: FacetValue[]
+  relationship_types: FacetValue[]
+  // Earliest and latest episode date among the matches, YYYY-MM-DD
+  date_range: { min: string, max: string } | null
+  episode_range: { min: number, max: number } | null
+}
+
+export interface FacetSelection {
+  entity_types: string[]
+  relationship_types: string[]
+  // Inclusive bounds, YYYY-MM-DD
+  date_from?: string
+  date_to?: string
+  episode_min?: number
+  episode_max?: number
+}
+
+export interface SearchResponse {
+  query: string
+  page: number
+  pageSize: number
+  total: number
+  results: SearchResult[]
+  facets: SearchFacets
+}
+
+// A quote with its episode and where it occurs in the transcript as served
+export interface QuoteResult {
+  quote: Quote
+  episode: EpisodeSummary
+  passage?: TranscriptMention
+}
+
+export interface QuoteSearchResult extends QuoteResult {
+  // The quote text with the query words highlighted
+  parts: SnippetPart[]
+}
+
+export interface QuoteSearchResponse {
+  query: string
+  page: number
+  pageSize: number
+  total: number
+  results: QuoteSearchResult[]
+}
+
+// Another episode linked to an episode, with what links them
+export interface RelatedEpisode {
+  episode: EpisodeSummary
+  strength: number
+  shared_entities: string[]
+  common_themes: string[]
+}
+
+export interface EpisodeDetail {
+  episode: Episode
+  relationships: Relationship[]
+  text: string
+  segments: TranscriptSegment[]
+  related_episodes: RelatedEpisode[]
+  themes: EpisodeTheme[]
+  // In transcript order
+  quotes: QuoteResult[]
+}
+
+export interface EntityDetail {
+  entity: Entity
+  related: RelatedItems
+  // Where the entity is named in its episode's transcript
+  mentions: TranscriptMention[]
+  // The entity across all episodes, when it was resolved
+  canonical?: CanonicalEntity
+  // Every relationship of the entity, split by the side it is on
+  relationships: {
+    outgoing: DirectedRelationship[]
+    incoming: DirectedRelationship[]
+  }
+  // Quotes the entity said or wrote, or that come from it (a book), in every episode it was resolved in
+  quotes: QuoteResult[]
+}
+
+export interface RelationshipDetail {
+  relationship: Relationship
+  related: RelatedItems
+}
+
+// Themes (see ./topics) are found in the text bundle, which lists more episodes than the
+// graph bundle; `episode_id` is set for the episodes that have an episode page
+export interface ThemeEpisodeRef {
+  episode_id?: string
+  episode_number?: number
+  title: string
+  url: string
+  date: string
+}
+
+export interface ThemeEpisode extends ThemeEpisodeRef {
+  // Share of the episode's theme weight, 0-1
+  weight: number
+}
+
+export interface ThemeQuote {
+  text: string
+  episode: ThemeEpisodeRef
+}
+
+export interface Theme {
+  id: string
+  label: string
+  // Phrases the theme was clustered from, most distinctive first
+  phrases: string[]
+  // Strongest first
+  episodes: ThemeEpisode[]
+  quotes: ThemeQuote[]
+}
+
+// A theme of one episode
+export interface EpisodeTheme {
+  id: string
+  label: string
+  weight: number
+}
+
+// Canonical entity named in a theme's episodes. Only entities with an episode-level
+// record (entity_id) have an entity page; the others are shown in the graph.
+export interface ThemeEntity {
+  id: string
+  name: string
+  type: string
+  entity_id?: string
+}
+
+export interface ThemeDetail {
+  theme: Theme
+  // Entities of the theme's episodes, most often mentioned first
+  entities: ThemeEntity[]
+}
+
+// Graph explorer (see ./graph). Entity nodes are canonical entities; `detail_id` is
+// the record the existing modals open for the node, missing for relationship ends
+// that no extracted entity could be resolved to.
+export type GraphNodeKind = 'entity' | 'episode'
+
+export interface GraphNode {
+  id: string
+  kind: GraphNodeKind
+  label: string
+  entity_type?: string
+  detail_id?: string
+  // Modal detail_id opens when it is not the node's own kind, e.g. the relationship
+  // that names an entity only known as a relationship end
+  detail_type?: ResultType
+}
+
+export type GraphEdgeKind = 'relationship' | 'mention' | 'cross_episode'
+
+export interface GraphEdge {
+  id: string
+  source: string
+  target: string
+  kind: GraphEdgeKind
+  label: string
+  confidence: number
+  // Relationship the edge was drawn from, and its category, for relationship edges
+  relationship_id?: string
+  category?: RelationshipCategory
+}
+
+export interface GraphNeighborhood {
+  center: string
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+export interface GraphNodeSearchResponse {
+  query: string
+  nodes: GraphNode[]
+}
+
+// One step of a connection between two entities (see ./paths): a relationship
+// between them, or an episode both are mentioned in
+export interface PathHop {
+  kind: 'relationship' | 'shared_episode'
+  from: GraphNode
+  to: GraphNode
+  description: string
+  episode?: EpisodeSummary
+  relationship_type?: string
+  relationship_id?: string
+  category?: RelationshipCategory
+  // The relationship reads from `to` to `from` ("B founded A" on the way from A to B)
+  reversed?: boolean
+  confidence: number
+}
+
+export interface ConnectionPath {
+  hops: PathHop[]
+}
+
+export interface ConnectionsResponse {
+  from: GraphNode
+  to: GraphNode
+  // Shortest connections first; empty when none exists within the search depth
+  paths: ConnectionPath[]
+}